@@ -24,9 +24,14 @@ global.WebSocket = class WebSocket {
 HTMLCanvasElement.prototype.getContext = jest.fn(() => ({
   clearRect: jest.fn(),
   fillRect: jest.fn(),
+  strokeRect: jest.fn(),
+  rect: jest.fn(),
+  setLineDash: jest.fn(),
   beginPath: jest.fn(),
   moveTo: jest.fn(),
   lineTo: jest.fn(),
+  quadraticCurveTo: jest.fn(),
+  closePath: jest.fn(),
   stroke: jest.fn(),
   fill: jest.fn(),
   arc: jest.fn(),
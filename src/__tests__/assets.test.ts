@@ -0,0 +1,85 @@
+import {
+  MAX_ASSET_SIZE,
+  fitImageSize,
+  getAssetUrl,
+  isAssetUrl,
+  isImageFile,
+  parseImageDataUrl,
+  shouldCompressImage,
+  uploadImage,
+} from '@/lib/assets';
+import { ImageOptimizer } from '@/lib/performance';
+
+describe('isAssetUrl', () => {
+  it('should accept URLs of uploaded assets', () => {
+    expect(isAssetUrl(getAssetUrl('abc_123-x'))).toBe(true);
+  });
+
+  it('should reject inline data, other hosts and malformed ids', () => {
+    expect(isAssetUrl('data:image/png;base64,AAAA')).toBe(false);
+    expect(isAssetUrl('https://example.com/api/assets/abc')).toBe(false);
+    expect(isAssetUrl('/api/assets/')).toBe(false);
+    expect(isAssetUrl('/api/assets/../whiteboards')).toBe(false);
+    expect(isAssetUrl(undefined)).toBe(false);
+  });
+});
+
+describe('isImageFile', () => {
+  it('should accept the image types the board can store', () => {
+    expect(isImageFile({ type: 'image/png' })).toBe(true);
+    expect(isImageFile({ type: 'image/jpeg' })).toBe(true);
+    expect(isImageFile({ type: 'image/svg+xml' })).toBe(false);
+    expect(isImageFile({ type: 'text/plain' })).toBe(false);
+  });
+});
+
+describe('shouldCompressImage', () => {
+  it('should only compress files that are too large to store', () => {
+    expect(shouldCompressImage({ type: 'image/png', size: 200 * 1024 })).toBe(false);
+    expect(shouldCompressImage({ type: 'image/webp', size: MAX_ASSET_SIZE })).toBe(false);
+    expect(shouldCompressImage({ type: 'image/jpeg', size: MAX_ASSET_SIZE + 1 })).toBe(true);
+  });
+
+  it('should never compress GIFs, which would lose their animation', () => {
+    expect(shouldCompressImage({ type: 'image/gif', size: MAX_ASSET_SIZE + 1 })).toBe(false);
+  });
+});
+
+describe('uploadImage', () => {
+  it('should refuse images that are still too large after compressing', async () => {
+    const tooLarge = () => new File([new Uint8Array(MAX_ASSET_SIZE + 1)], 'photo.png', { type: 'image/png' });
+    const compress = jest.spyOn(ImageOptimizer, 'compressImage').mockResolvedValue(tooLarge());
+    const fetchMock = jest.fn();
+    global.fetch = fetchMock;
+
+    await expect(uploadImage(tooLarge())).rejects.toThrow('Images must be smaller than 5 MB');
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    compress.mockRestore();
+  });
+});
+
+describe('parseImageDataUrl', () => {
+  it('should decode base64 image data URLs', () => {
+    const parsed = parseImageDataUrl('data:image/png;base64,aGVsbG8=');
+    expect(parsed?.mimeType).toBe('image/png');
+    expect(parsed?.data.toString()).toBe('hello');
+  });
+
+  it('should reject anything else', () => {
+    expect(parseImageDataUrl('data:text/html;base64,aGVsbG8=')).toBeNull();
+    expect(parseImageDataUrl('data:image/png,hello')).toBeNull();
+    expect(parseImageDataUrl(42)).toBeNull();
+  });
+});
+
+describe('fitImageSize', () => {
+  it('should keep small images at their own size', () => {
+    expect(fitImageSize(200, 100)).toEqual({ width: 200, height: 100 });
+  });
+
+  it('should shrink large images to fit, keeping their shape', () => {
+    expect(fitImageSize(1920, 1080, 600)).toEqual({ width: 600, height: 338 });
+    expect(fitImageSize(500, 1000, 600)).toEqual({ width: 300, height: 600 });
+  });
+});
@@ -100,6 +100,48 @@ describe('CollaborationManager', () => {
       const state = collaborationManager.getState();
       expect(state.actions).toHaveLength(2);
     });
+
+    it('should apply update and delete actions without conflicts', () => {
+      const drawAction: DrawingAction = {
+        id: 'draw1',
+        type: 'draw',
+        points: [{ x: 10, y: 10 }, { x: 20, y: 20 }],
+        color: '#000000',
+        strokeWidth: 2,
+        timestamp: 1000,
+        userId: 'user1',
+      };
+
+      const updateAction: DrawingAction = {
+        id: 'update1',
+        type: 'update',
+        points: [],
+        color: '',
+        strokeWidth: 0,
+        changes: { draw1: { color: '#ff0000' } },
+        timestamp: 2000,
+        userId: 'user2',
+      };
+
+      const deleteAction: DrawingAction = {
+        id: 'delete1',
+        type: 'delete',
+        points: [],
+        color: '',
+        strokeWidth: 0,
+        targetIds: ['draw1'],
+        timestamp: 3000,
+        userId: 'user2',
+      };
+
+      collaborationManager.addAction(drawAction);
+      expect(collaborationManager.addAction(updateAction).conflict).toBe(false);
+      expect(collaborationManager.getElements()[0].color).toBe('#ff0000');
+
+      expect(collaborationManager.addAction(deleteAction).conflict).toBe(false);
+      expect(collaborationManager.getElements()).toHaveLength(0);
+      expect(collaborationManager.getState().actions).toHaveLength(3);
+    });
   });
 
   describe('optimizeActions', () => {
@@ -145,6 +187,81 @@ describe('CollaborationManager', () => {
       expect(state.actions[0]).toEqual(clearAction);
       expect(state.actions[1]).toEqual(action2);
     });
+
+    it('should keep actions before a clear that has been undone', () => {
+      const drawAction: DrawingAction = {
+        id: 'action1',
+        type: 'draw',
+        points: [{ x: 10, y: 10 }],
+        color: '#000000',
+        strokeWidth: 2,
+        timestamp: 1000,
+        userId: 'user1',
+      };
+
+      const clearAction: DrawingAction = {
+        id: 'clear1',
+        type: 'clear',
+        points: [],
+        color: '#ffffff',
+        strokeWidth: 0,
+        timestamp: 2000,
+        userId: 'user1',
+      };
+
+      const undoAction: DrawingAction = {
+        id: 'undo1',
+        type: 'undo',
+        points: [],
+        color: '',
+        strokeWidth: 0,
+        targetIds: ['clear1'],
+        timestamp: 3000,
+        userId: 'user1',
+      };
+
+      collaborationManager.addAction(drawAction);
+      collaborationManager.addAction(clearAction);
+      collaborationManager.addAction(undoAction);
+
+      collaborationManager.optimizeActions();
+
+      expect(collaborationManager.getState().actions).toHaveLength(3);
+      expect(collaborationManager.getElements().map(element => element.id)).toEqual(['action1']);
+    });
+
+    it('should only remove actions on the page that was cleared', () => {
+      const otherPage: DrawingAction = {
+        id: 'action1',
+        type: 'draw',
+        points: [{ x: 10, y: 10 }],
+        color: '#000000',
+        strokeWidth: 2,
+        timestamp: 1000,
+        userId: 'user1',
+        pageId: 'page2',
+      };
+
+      const clearedPage: DrawingAction = { ...otherPage, id: 'action2', pageId: undefined };
+
+      const clearAction: DrawingAction = {
+        id: 'clear1',
+        type: 'clear',
+        points: [],
+        color: '#ffffff',
+        strokeWidth: 0,
+        timestamp: 2000,
+        userId: 'user1',
+      };
+
+      collaborationManager.addAction(otherPage);
+      collaborationManager.addAction(clearedPage);
+      collaborationManager.addAction(clearAction);
+
+      collaborationManager.optimizeActions();
+
+      expect(collaborationManager.getState().actions.map(action => action.id)).toEqual(['action1', 'clear1']);
+    });
   });
 
   describe('mergeActions', () => {
@@ -213,6 +330,275 @@ describe('validateAction', () => {
     expect(validateAction(validAction)).toBe(true);
   });
 
+  it('should validate shape actions', () => {
+    const shapeAction: DrawingAction = {
+      id: 'shape1',
+      type: 'shape',
+      shape: 'arrow',
+      points: [{ x: 10, y: 10 }, { x: 50, y: 80 }],
+      color: '#000000',
+      strokeWidth: 2,
+      timestamp: Date.now(),
+      userId: 'user1',
+    };
+
+    expect(validateAction(shapeAction)).toBe(true);
+    expect(validateAction({ ...shapeAction, shape: 'hexagon' })).toBe(false);
+    expect(validateAction({ ...shapeAction, points: [{ x: 10, y: 10 }] })).toBe(false);
+  });
+
+  it('should validate text actions', () => {
+    const textAction: DrawingAction = {
+      id: 'text1',
+      type: 'text',
+      points: [{ x: 10, y: 10 }],
+      color: '#000000',
+      strokeWidth: 1,
+      text: { content: 'Hello', fontSize: 20, align: 'left' },
+      timestamp: Date.now(),
+      userId: 'user1',
+    };
+
+    expect(validateAction(textAction)).toBe(true);
+    expect(validateAction({ ...textAction, text: undefined })).toBe(false);
+    expect(validateAction({ ...textAction, text: { content: 'Hi', fontSize: 20, align: 'justify' } })).toBe(false);
+  });
+
+  it('should validate delete actions', () => {
+    const deleteAction: DrawingAction = {
+      id: 'delete1',
+      type: 'delete',
+      points: [],
+      color: '',
+      strokeWidth: 0,
+      targetIds: ['draw1', 'draw2'],
+      timestamp: Date.now(),
+      userId: 'user1',
+    };
+
+    expect(validateAction(deleteAction)).toBe(true);
+    expect(validateAction({ ...deleteAction, targetIds: [] })).toBe(false);
+    expect(validateAction({ ...deleteAction, targetIds: undefined })).toBe(false);
+  });
+
+  it('should validate update actions', () => {
+    const updateAction: DrawingAction = {
+      id: 'update1',
+      type: 'update',
+      points: [],
+      color: '',
+      strokeWidth: 0,
+      changes: {
+        shape1: { points: [{ x: 0, y: 0 }, { x: 10, y: 10 }], color: '#ff0000', order: 'a1' },
+        note1: { text: { content: 'Hi', fontSize: 20, align: 'left' }, width: 200 },
+      },
+      timestamp: Date.now(),
+      userId: 'user1',
+    };
+
+    expect(validateAction(updateAction)).toBe(true);
+    expect(validateAction({ ...updateAction, changes: undefined })).toBe(false);
+    expect(validateAction({ ...updateAction, changes: { shape1: { type: 'clear' } } })).toBe(false);
+    expect(validateAction({ ...updateAction, changes: { shape1: { id: 'shape2' } } })).toBe(false);
+    expect(validateAction({ ...updateAction, changes: { image1: { src: 'javascript:alert(1)' } } })).toBe(false);
+    expect(validateAction({ ...updateAction, changes: { shape1: { points: [{ x: 'a' }] } } })).toBe(false);
+    expect(validateAction({ ...updateAction, changes: { shape1: { strokeWidth: '2' } } })).toBe(false);
+    expect(validateAction({ ...updateAction, changes: { shape1: { order: 'not a key!' } } })).toBe(false);
+    expect(validateAction({ ...updateAction, changes: { note1: { text: { content: 'Hi' } } } })).toBe(false);
+  });
+
+  it('should validate undo and redo actions', () => {
+    const undoAction: DrawingAction = {
+      id: 'undo1',
+      type: 'undo',
+      points: [],
+      color: '',
+      strokeWidth: 0,
+      targetIds: ['draw1'],
+      timestamp: Date.now(),
+      userId: 'user1',
+    };
+
+    expect(validateAction(undoAction)).toBe(true);
+    expect(validateAction({ ...undoAction, type: 'redo' })).toBe(true);
+    expect(validateAction({ ...undoAction, targetIds: ['draw1', 'draw2'] })).toBe(false);
+    expect(validateAction({ ...undoAction, targetIds: undefined })).toBe(false);
+  });
+
+  it('should validate group and ungroup actions', () => {
+    const groupAction = {
+      id: 'group1',
+      type: 'group',
+      points: [],
+      color: '',
+      strokeWidth: 0,
+      targetIds: ['stroke1', 'stroke2'],
+      name: 'Ideas',
+      timestamp: Date.now(),
+      userId: 'user1',
+    };
+
+    expect(validateAction(groupAction)).toBe(true);
+    expect(validateAction({ ...groupAction, targetIds: ['stroke1'] })).toBe(false);
+    expect(validateAction({ ...groupAction, targetIds: ['stroke1', 'group1'] })).toBe(false);
+    expect(validateAction({ ...groupAction, type: 'ungroup', targetIds: ['group1'] })).toBe(true);
+    expect(validateAction({ ...groupAction, type: 'ungroup', targetIds: [] })).toBe(false);
+  });
+
+  it('should validate duplicate actions', () => {
+    const copy = {
+      id: 'copy1',
+      type: 'draw',
+      points: [{ x: 30, y: 30 }],
+      color: '#000000',
+      strokeWidth: 2,
+      timestamp: Date.now(),
+      userId: 'user1',
+    };
+    const duplicateAction = {
+      id: 'duplicate1',
+      type: 'duplicate',
+      points: [],
+      color: '',
+      strokeWidth: 0,
+      elements: [copy],
+      timestamp: Date.now(),
+      userId: 'user1',
+    };
+
+    expect(validateAction(duplicateAction)).toBe(true);
+    expect(validateAction({ ...duplicateAction, elements: [] })).toBe(false);
+    expect(validateAction({ ...duplicateAction, elements: [{ ...copy, type: 'undo' }] })).toBe(false);
+  });
+
+  it('should validate restore actions', () => {
+    const element = {
+      id: 'stroke1',
+      type: 'draw',
+      points: [{ x: 30, y: 30 }],
+      color: '#000000',
+      strokeWidth: 2,
+      timestamp: Date.now(),
+      userId: 'user1',
+    };
+    const restoreAction = {
+      id: 'restore1',
+      type: 'restore',
+      points: [],
+      color: '',
+      strokeWidth: 0,
+      elements: [element],
+      name: 'Version 1',
+      timestamp: Date.now(),
+      userId: 'user1',
+    };
+
+    expect(validateAction(restoreAction)).toBe(true);
+    // A page that was empty in the version is restored to empty
+    expect(validateAction({ ...restoreAction, elements: [] })).toBe(true);
+    expect(validateAction({ ...restoreAction, elements: undefined })).toBe(false);
+    expect(validateAction({ ...restoreAction, elements: [{ ...element, type: 'clear' }] })).toBe(false);
+    expect(validateAction({ ...restoreAction, name: 42 })).toBe(false);
+    expect(validateAction({ ...restoreAction, groups: [{ id: 'group1', name: 'Group', memberIds: ['stroke1'] }] })).toBe(true);
+    expect(validateAction({ ...restoreAction, groups: [{ id: 'group1', memberIds: 'stroke1' }] })).toBe(false);
+    expect(validateAction({
+      ...restoreAction,
+      groups: [
+        { id: 'group1', name: 'Group', memberIds: ['stroke1', 'group2'] },
+        { id: 'group2', name: 'Group', memberIds: ['group1'] },
+      ],
+    })).toBe(false);
+  });
+
+  it('should validate sticky note actions', () => {
+    const stickyAction: DrawingAction = {
+      id: 'sticky1',
+      type: 'sticky',
+      points: [{ x: 10, y: 10 }],
+      color: '#1f2937',
+      strokeWidth: 1,
+      text: { content: 'Went well', fontSize: 16, align: 'left' },
+      width: 200,
+      height: 200,
+      fill: '#fef08a',
+      timestamp: Date.now(),
+      userId: 'user1',
+    };
+
+    expect(validateAction(stickyAction)).toBe(true);
+    expect(validateAction({ ...stickyAction, width: undefined })).toBe(false);
+    expect(validateAction({ ...stickyAction, fill: undefined })).toBe(false);
+  });
+
+  it('should validate image actions', () => {
+    const imageAction: DrawingAction = {
+      id: 'image1',
+      type: 'image',
+      points: [{ x: 10, y: 10 }],
+      color: '',
+      strokeWidth: 1,
+      width: 320,
+      height: 240,
+      src: '/api/assets/abc123',
+      timestamp: Date.now(),
+      userId: 'user1',
+    };
+
+    expect(validateAction(imageAction)).toBe(true);
+    expect(validateAction({ ...imageAction, height: undefined })).toBe(false);
+    // Image data must be uploaded, not carried in the action
+    expect(validateAction({ ...imageAction, src: 'data:image/png;base64,AAAA' })).toBe(false);
+    expect(validateAction({ ...imageAction, src: 'https://example.com/cat.png' })).toBe(false);
+  });
+
+  it('should validate connector actions', () => {
+    const connectorAction: DrawingAction = {
+      id: 'connector1',
+      type: 'connector',
+      points: [{ x: 0, y: 0 }, { x: 100, y: 0 }],
+      color: '#000000',
+      strokeWidth: 2,
+      routing: 'elbow',
+      startBinding: 'shape1',
+      endArrowhead: 'triangle',
+      text: { content: 'Yes', fontSize: 14, align: 'center' },
+      timestamp: Date.now(),
+      userId: 'user1',
+    };
+
+    expect(validateAction(connectorAction)).toBe(true);
+    expect(validateAction({ ...connectorAction, points: [{ x: 0, y: 0 }] })).toBe(false);
+    expect(validateAction({ ...connectorAction, routing: 'curved' })).toBe(false);
+    expect(validateAction({ ...connectorAction, endArrowhead: 'diamond' })).toBe(false);
+    expect(validateAction({ ...connectorAction, startBinding: 7 })).toBe(false);
+    expect(sanitizeAction(connectorAction)).toMatchObject({
+      routing: 'elbow',
+      startBinding: 'shape1',
+      endArrowhead: 'triangle',
+      text: { content: 'Yes' },
+    });
+  });
+
+  it('should validate the stroke style when present', () => {
+    const highlight = {
+      id: 'action1',
+      type: 'draw',
+      points: [{ x: 10, y: 10 }],
+      color: '#facc15',
+      strokeWidth: 12,
+      tool: 'highlighter',
+      opacity: 0.5,
+      blendMode: 'multiply',
+      timestamp: Date.now(),
+      userId: 'user1',
+    };
+
+    expect(validateAction(highlight)).toBe(true);
+    expect(validateAction({ ...highlight, opacity: 2 })).toBe(false);
+    expect(validateAction({ ...highlight, tool: 'spray' })).toBe(false);
+    expect(validateAction({ ...highlight, blendMode: 'xor' })).toBe(false);
+  });
+
   it('should reject invalid actions', () => {
     expect(validateAction(null)).toBe(false);
     expect(validateAction(undefined)).toBe(false);
@@ -227,7 +613,7 @@ describe('sanitizeAction', () => {
     const action: DrawingAction = {
       id: 'action1',
       type: 'draw',
-      points: [{ x: -10, y: 15000 }, { x: 5, y: 5 }],
+      points: [{ x: -10, y: 15000 }, { x: -5000000, y: 5000000 }],
       color: '#000000',
       strokeWidth: 100,
       timestamp: Date.now(),
@@ -236,10 +622,131 @@ describe('sanitizeAction', () => {
 
     const sanitized = sanitizeAction(action);
 
-    expect(sanitized.points[0].x).toBe(0); // Clamped to 0
-    expect(sanitized.points[0].y).toBe(10000); // Clamped to 10000
-    expect(sanitized.points[1].x).toBe(5); // Unchanged
-    expect(sanitized.points[1].y).toBe(5); // Unchanged
+    expect(sanitized.points[0].x).toBe(-10); // World coordinates may be negative
+    expect(sanitized.points[0].y).toBe(15000); // and far from the origin
+    expect(sanitized.points[1].x).toBe(-1000000); // Clamped to the world's bounds
+    expect(sanitized.points[1].y).toBe(1000000);
     expect(sanitized.strokeWidth).toBe(50); // Clamped to 50
   });
+
+  it('should keep stylus pressure within range', () => {
+    const action: DrawingAction = {
+      id: 'action1',
+      type: 'draw',
+      points: [{ x: 0, y: 0, pressure: 0.4 }, { x: 5, y: 5, pressure: 3 }, { x: 10, y: 10 }],
+      color: '#000000',
+      strokeWidth: 2,
+      timestamp: Date.now(),
+      userId: 'user1',
+    };
+
+    const sanitized = sanitizeAction(action);
+
+    expect(sanitized.points).toEqual([
+      { x: 0, y: 0, pressure: 0.4 },
+      { x: 5, y: 5, pressure: 1 },
+      { x: 10, y: 10 },
+    ]);
+  });
+
+  it('should keep the shape kind of shape actions', () => {
+    const action: DrawingAction = {
+      id: 'shape1',
+      type: 'shape',
+      shape: 'ellipse',
+      points: [{ x: 10, y: 10 }, { x: 50, y: 80 }],
+      color: '#000000',
+      strokeWidth: 2,
+      timestamp: Date.now(),
+      userId: 'user1',
+    };
+
+    expect(sanitizeAction(action).shape).toBe('ellipse');
+  });
+
+  it('should keep the stroke style of strokes', () => {
+    const action: DrawingAction = {
+      id: 'action1',
+      type: 'draw',
+      points: [{ x: 0, y: 0 }],
+      color: '#facc15',
+      strokeWidth: 12,
+      tool: 'highlighter',
+      opacity: 0.01,
+      blendMode: 'multiply',
+      timestamp: Date.now(),
+      userId: 'user1',
+    };
+
+    const sanitized = sanitizeAction(action);
+
+    expect(sanitized.tool).toBe('highlighter');
+    expect(sanitized.blendMode).toBe('multiply');
+    expect(sanitized.opacity).toBe(0.1); // Never fully invisible
+  });
+
+  it('should keep the layer of elements', () => {
+    const action: DrawingAction = {
+      id: 'action1',
+      type: 'draw',
+      points: [{ x: 0, y: 0 }],
+      color: '#000000',
+      strokeWidth: 2,
+      layerId: 'sketch',
+      timestamp: Date.now(),
+      userId: 'user1',
+    };
+
+    expect(validateAction(action)).toBe(true);
+    expect(validateAction({ ...action, layerId: 42 })).toBe(false);
+    expect(sanitizeAction(action).layerId).toBe('sketch');
+  });
+
+  it('should clamp the changes of updates the way creation does', () => {
+    const action: DrawingAction = {
+      id: 'update1',
+      type: 'update',
+      points: [],
+      color: '',
+      strokeWidth: 0,
+      changes: {
+        shape1: {
+          points: [{ x: 1e12, y: 0 }],
+          strokeWidth: 1e9,
+          text: { content: 'x'.repeat(6000), fontSize: 1000, align: 'left' },
+          shape: 'ellipse',
+        } as any,
+      },
+      timestamp: Date.now(),
+      userId: 'user1',
+    };
+
+    expect(sanitizeAction(action).changes).toEqual({
+      shape1: {
+        points: [{ x: 1000000, y: 0 }],
+        strokeWidth: 50,
+        text: { content: 'x'.repeat(5000), fontSize: 200, align: 'left' },
+      },
+    });
+  });
+
+  it('should keep the size and source of images', () => {
+    const action: DrawingAction = {
+      id: 'image1',
+      type: 'image',
+      points: [{ x: 0, y: 0 }],
+      color: '',
+      strokeWidth: 1,
+      width: 0,
+      height: 240,
+      src: '/api/assets/abc123',
+      timestamp: Date.now(),
+      userId: 'user1',
+    };
+
+    const sanitized = sanitizeAction(action);
+    expect(sanitized.src).toBe('/api/assets/abc123');
+    expect(sanitized.width).toBe(1);
+    expect(sanitized.height).toBe(240);
+  });
 });
@@ -0,0 +1,47 @@
+import React from "react";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { BoardSettingsPanel } from "@/components/BoardSettingsPanel";
+import { DEFAULT_SETTINGS } from "@/lib/settings";
+
+describe("BoardSettingsPanel", () => {
+  const mockOnSettingsChange = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should toggle the grid and snapping", () => {
+    render(
+      <BoardSettingsPanel
+        settings={DEFAULT_SETTINGS}
+        onSettingsChange={mockOnSettingsChange}
+      />
+    );
+
+    fireEvent.click(screen.getByLabelText("Show grid"));
+    expect(mockOnSettingsChange).toHaveBeenCalledWith({ gridEnabled: true });
+
+    fireEvent.click(screen.getByLabelText("Snap to grid"));
+    expect(mockOnSettingsChange).toHaveBeenCalledWith({ snapToGrid: true });
+  });
+
+  it("should change the grid style, size and background", () => {
+    render(
+      <BoardSettingsPanel
+        settings={DEFAULT_SETTINGS}
+        onSettingsChange={mockOnSettingsChange}
+      />
+    );
+
+    fireEvent.click(screen.getByTitle("Lines grid"));
+    expect(mockOnSettingsChange).toHaveBeenCalledWith({ gridStyle: "lines" });
+
+    fireEvent.click(screen.getByTitle("Grid size 40"));
+    expect(mockOnSettingsChange).toHaveBeenCalledWith({ gridSize: 40 });
+
+    fireEvent.click(screen.getByTitle("Cream background"));
+    expect(mockOnSettingsChange).toHaveBeenCalledWith({
+      backgroundColor: "#fefce8",
+    });
+  });
+});
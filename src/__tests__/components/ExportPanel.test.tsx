@@ -0,0 +1,34 @@
+import React from "react";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { ExportPanel } from "@/components/ExportPanel";
+
+describe("ExportPanel", () => {
+  it("should export with the chosen options", () => {
+    const onExport = jest.fn();
+    render(<ExportPanel hasSelection={false} onExport={onExport} />);
+
+    fireEvent.click(screen.getByTitle("Export PNG"));
+    fireEvent.click(screen.getByTitle("Export current view"));
+    fireEvent.click(screen.getByTitle("Scale 4x"));
+    fireEvent.click(screen.getByTitle("Transparent background"));
+    fireEvent.change(screen.getByTitle("Padding"), { target: { value: "40" } });
+    fireEvent.click(screen.getByText("Download PNG"));
+
+    expect(onExport).toHaveBeenCalledWith({
+      scope: "viewport",
+      scale: 4,
+      background: "transparent",
+      padding: 40,
+    });
+  });
+
+  it("should only offer a selection export while something is selected", () => {
+    const { rerender } = render(<ExportPanel hasSelection={false} onExport={jest.fn()} />);
+
+    fireEvent.click(screen.getByTitle("Export PNG"));
+    expect(screen.getByTitle("Export selection")).toBeDisabled();
+
+    rerender(<ExportPanel hasSelection={true} onExport={jest.fn()} />);
+    expect(screen.getByTitle("Export selection")).not.toBeDisabled();
+  });
+});
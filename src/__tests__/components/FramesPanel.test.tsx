@@ -0,0 +1,68 @@
+import React from "react";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { FramesPanel } from "@/components/FramesPanel";
+import { DrawingAction } from "@/types/whiteboard";
+
+describe("FramesPanel", () => {
+  const frame: DrawingAction = {
+    id: "frame1",
+    type: "frame",
+    points: [{ x: 0, y: 0 }],
+    color: "#6b7280",
+    strokeWidth: 1,
+    width: 400,
+    height: 300,
+    name: "Agenda",
+    timestamp: 1000,
+    userId: "user1",
+  };
+  const mockOnSelectFrame = jest.fn();
+  const mockOnRenameFrame = jest.fn();
+  const mockOnExportFrame = jest.fn();
+  const mockOnPresentFrame = jest.fn();
+
+  const renderPanel = (frames: DrawingAction[] = [frame]) =>
+    render(
+      <FramesPanel
+        frames={frames}
+        onSelectFrame={mockOnSelectFrame}
+        onRenameFrame={mockOnRenameFrame}
+        onExportFrame={mockOnExportFrame}
+        onPresentFrame={mockOnPresentFrame}
+      />
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should explain how to add frames when there are none", () => {
+    renderPanel([]);
+
+    expect(screen.getByText(/Draw a frame with the frame tool/)).toBeTruthy();
+  });
+
+  it("should go to, export and present a frame", () => {
+    renderPanel();
+
+    fireEvent.click(screen.getByTitle("Go to Agenda"));
+    expect(mockOnSelectFrame).toHaveBeenCalledWith(frame);
+
+    fireEvent.click(screen.getByTitle("Export Agenda"));
+    expect(mockOnExportFrame).toHaveBeenCalledWith(frame);
+
+    fireEvent.click(screen.getByTitle("Present Agenda"));
+    expect(mockOnPresentFrame).toHaveBeenCalledWith(frame);
+  });
+
+  it("should rename a frame after double-clicking it", () => {
+    renderPanel();
+
+    fireEvent.doubleClick(screen.getByTitle("Go to Agenda"));
+    const input = screen.getByTitle("Frame name");
+    fireEvent.change(input, { target: { value: "Intro" } });
+    fireEvent.keyDown(input, { key: "Enter" });
+
+    expect(mockOnRenameFrame).toHaveBeenCalledWith("frame1", "Intro");
+  });
+});
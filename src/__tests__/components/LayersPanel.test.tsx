@@ -0,0 +1,68 @@
+import React from "react";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { LayersPanel } from "@/components/LayersPanel";
+import { Layer } from "@/types/whiteboard";
+
+describe("LayersPanel", () => {
+  const layers: Layer[] = [
+    { id: "background", name: "Background", visible: true, locked: true },
+    { id: "sketch", name: "Sketch", visible: true, locked: false },
+  ];
+  const mockOnSelectLayer = jest.fn();
+  const mockOnUpdateLayer = jest.fn();
+  const mockOnCreateLayer = jest.fn();
+
+  const renderPanel = () =>
+    render(
+      <LayersPanel
+        layers={layers}
+        activeLayerId="sketch"
+        onSelectLayer={mockOnSelectLayer}
+        onUpdateLayer={mockOnUpdateLayer}
+        onCreateLayer={mockOnCreateLayer}
+      />
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should list the top layer first and choose the active layer", () => {
+    renderPanel();
+
+    const names = screen.getAllByTitle(/^Draw on/).map((row) => row.title);
+    expect(names).toEqual(["Draw on Sketch", "Draw on Background"]);
+
+    fireEvent.click(screen.getByTitle("Draw on Background"));
+    expect(mockOnSelectLayer).toHaveBeenCalledWith("background");
+  });
+
+  it("should hide, show, lock and unlock layers", () => {
+    renderPanel();
+
+    fireEvent.click(screen.getByTitle("Hide Sketch"));
+    expect(mockOnUpdateLayer).toHaveBeenCalledWith({ ...layers[1], visible: false });
+
+    fireEvent.click(screen.getByTitle("Unlock Background"));
+    expect(mockOnUpdateLayer).toHaveBeenCalledWith({ ...layers[0], locked: false });
+
+    fireEvent.click(screen.getByTitle("Lock Sketch"));
+    expect(mockOnUpdateLayer).toHaveBeenCalledWith({ ...layers[1], locked: true });
+
+    // Toggling a layer doesn't also make it the active one
+    expect(mockOnSelectLayer).not.toHaveBeenCalled();
+  });
+
+  it("should create named layers", () => {
+    renderPanel();
+
+    fireEvent.change(screen.getByTitle("Layer name"), {
+      target: { value: "Tracing" },
+    });
+    fireEvent.click(screen.getByText("Add layer"));
+    expect(mockOnCreateLayer).toHaveBeenCalledWith("Tracing");
+
+    fireEvent.click(screen.getByText("Add layer"));
+    expect(mockOnCreateLayer).toHaveBeenLastCalledWith("Layer 3");
+  });
+});
@@ -0,0 +1,60 @@
+import React from "react";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { Minimap } from "@/components/Minimap";
+
+describe("Minimap", () => {
+  const mockOnViewportChange = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const renderMinimap = () =>
+    render(
+      <Minimap
+        elements={[]}
+        viewport={{ x: 0, y: 0, zoom: 1 }}
+        viewportSize={{ width: 800, height: 600 }}
+        collaborators={[]}
+        onViewportChange={mockOnViewportChange}
+      />
+    );
+
+  it("should move the view when the viewport rectangle is dragged", () => {
+    renderMinimap();
+
+    const minimap = screen.getByTitle("Minimap");
+    fireEvent.mouseDown(minimap, { clientX: 100, clientY: 70 });
+    expect(mockOnViewportChange).not.toHaveBeenCalled();
+
+    fireEvent.mouseMove(minimap, { clientX: 110, clientY: 70 });
+
+    const viewport = mockOnViewportChange.mock.calls[0][0];
+    expect(viewport.zoom).toBe(1);
+    expect(viewport.x).toBeGreaterThan(0);
+    expect(viewport.y).toBeCloseTo(0);
+  });
+
+  it("should jump to a point clicked outside the viewport rectangle", () => {
+    renderMinimap();
+
+    fireEvent.mouseDown(screen.getByTitle("Minimap"), {
+      clientX: 195,
+      clientY: 70,
+    });
+
+    const viewport = mockOnViewportChange.mock.calls[0][0];
+    expect(viewport.x).toBeGreaterThan(0);
+  });
+
+  it("should ignore mouse movement without a drag", () => {
+    renderMinimap();
+
+    fireEvent.mouseMove(screen.getByTitle("Minimap"), {
+      clientX: 110,
+      clientY: 70,
+    });
+
+    expect(mockOnViewportChange).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,75 @@
+import React from "react";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { PageTabs } from "@/components/PageTabs";
+import { Page } from "@/types/whiteboard";
+
+describe("PageTabs", () => {
+  const pages: Page[] = [
+    { id: "agenda", name: "Agenda" },
+    { id: "brainstorm", name: "Brainstorm" },
+  ];
+  const mockOnSelectPage = jest.fn();
+  const mockOnCreatePage = jest.fn();
+  const mockOnRenamePage = jest.fn();
+  const mockOnMovePage = jest.fn();
+  const mockOnDeletePage = jest.fn();
+
+  const renderTabs = (activePageId = "agenda", tabs = pages) =>
+    render(
+      <PageTabs
+        pages={tabs}
+        activePageId={activePageId}
+        onSelectPage={mockOnSelectPage}
+        onCreatePage={mockOnCreatePage}
+        onRenamePage={mockOnRenamePage}
+        onMovePage={mockOnMovePage}
+        onDeletePage={mockOnDeletePage}
+      />
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should open and create pages", () => {
+    renderTabs();
+
+    fireEvent.click(screen.getByTitle("Open Brainstorm"));
+    expect(mockOnSelectPage).toHaveBeenCalledWith("brainstorm");
+
+    fireEvent.click(screen.getByTitle("Add page"));
+    expect(mockOnCreatePage).toHaveBeenCalledWith("Page 3");
+  });
+
+  it("should rename a page after double-clicking its tab", () => {
+    renderTabs();
+
+    fireEvent.doubleClick(screen.getByTitle("Open Agenda"));
+    const input = screen.getByTitle("Page name");
+    fireEvent.change(input, { target: { value: "Welcome" } });
+    fireEvent.keyDown(input, { key: "Enter" });
+
+    expect(mockOnRenamePage).toHaveBeenCalledWith("agenda", "Welcome");
+  });
+
+  it("should move the open page", () => {
+    renderTabs("agenda");
+
+    expect(screen.getByTitle("Move page left")).toBeDisabled();
+    fireEvent.click(screen.getByTitle("Move page right"));
+    expect(mockOnMovePage).toHaveBeenCalledWith("agenda", 1);
+  });
+
+  it("should delete a page after confirmation, but not the last one", () => {
+    const confirmSpy = jest.spyOn(window, "confirm").mockReturnValue(true);
+    const { unmount } = renderTabs("brainstorm");
+
+    fireEvent.click(screen.getByTitle("Delete page"));
+    expect(mockOnDeletePage).toHaveBeenCalledWith("brainstorm");
+    unmount();
+
+    renderTabs("agenda", [pages[0]]);
+    expect(screen.getByTitle("Delete page")).toBeDisabled();
+    confirmSpy.mockRestore();
+  });
+});
@@ -0,0 +1,83 @@
+import React from "react";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { ReplayViewer } from "@/components/ReplayViewer";
+import { DEFAULT_LAYER } from "@/lib/layers";
+import { DEFAULT_SETTINGS } from "@/lib/settings";
+import { DEFAULT_VIEWPORT } from "@/lib/viewport";
+import { Collaborator, DrawingAction } from "@/types/whiteboard";
+
+describe("ReplayViewer", () => {
+  const actions: DrawingAction[] = [
+    {
+      id: "a",
+      type: "draw",
+      points: [{ x: 0, y: 0 }],
+      color: "#000000",
+      strokeWidth: 2,
+      timestamp: 1000,
+      userId: "alice",
+    },
+    {
+      id: "b",
+      type: "draw",
+      points: [{ x: 5, y: 5 }],
+      color: "#000000",
+      strokeWidth: 2,
+      timestamp: 1500,
+      userId: "bob",
+    },
+  ];
+
+  const collaborators: Collaborator[] = [
+    { id: "alice", name: "Alice", color: "#ef4444", isActive: true, lastSeen: 0 },
+  ];
+
+  const renderViewer = (onClose = jest.fn()) =>
+    render(
+      <ReplayViewer
+        actions={actions}
+        layers={[DEFAULT_LAYER]}
+        settings={DEFAULT_SETTINGS}
+        viewport={DEFAULT_VIEWPORT}
+        collaborators={collaborators}
+        onClose={onClose}
+      />
+    );
+
+  it("should step through history with the scrubber", () => {
+    renderViewer();
+
+    expect(screen.getByText(/1 \/ 2/)).toBeInTheDocument();
+
+    fireEvent.change(screen.getByTitle("Replay position"), {
+      target: { value: "500" },
+    });
+    expect(screen.getByText(/2 \/ 2/)).toBeInTheDocument();
+  });
+
+  it("should toggle playback and speed", () => {
+    renderViewer();
+
+    fireEvent.click(screen.getByTitle("Play"));
+    expect(screen.getByTitle("Pause")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByTitle("Speed 4x"));
+    expect(screen.getByTitle("Speed 4x")).toHaveClass("bg-blue-50");
+  });
+
+  it("should name contributors and fall back to their id", () => {
+    renderViewer();
+
+    expect(screen.getByRole("option", { name: "Alice" })).toBeInTheDocument();
+    expect(screen.getByRole("option", { name: "User bob" })).toBeInTheDocument();
+  });
+
+  it("should close with Escape or the exit button", () => {
+    const onClose = jest.fn();
+    renderViewer(onClose);
+
+    fireEvent.keyDown(window, { key: "Escape" });
+    fireEvent.click(screen.getByTitle("Exit replay"));
+    expect(onClose).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,86 @@
+import React from "react";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { SelectionToolbar } from "@/components/SelectionToolbar";
+
+describe("SelectionToolbar", () => {
+  const handlers = {
+    canGroup: false,
+    canUngroup: false,
+    onGroup: jest.fn(),
+    onUngroup: jest.fn(),
+    onRenameGroup: jest.fn(),
+    onReorder: jest.fn(),
+    onDuplicate: jest.fn(),
+    onDelete: jest.fn(),
+    onColorChange: jest.fn(),
+    onStrokeWidthChange: jest.fn(),
+    onRoutingChange: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should show how many elements are selected", () => {
+    render(<SelectionToolbar count={3} {...handlers} />);
+
+    expect(screen.getByText("3 selected")).toBeInTheDocument();
+  });
+
+  it("should run bulk operations on the selection", () => {
+    render(<SelectionToolbar count={2} {...handlers} />);
+
+    fireEvent.click(screen.getByTitle("Duplicate"));
+    expect(handlers.onDuplicate).toHaveBeenCalled();
+
+    fireEvent.click(screen.getByTitle("Delete"));
+    expect(handlers.onDelete).toHaveBeenCalled();
+
+    fireEvent.click(screen.getByTitle("Color #ef4444"));
+    expect(handlers.onColorChange).toHaveBeenCalledWith("#ef4444");
+
+    fireEvent.click(screen.getByTitle("Stroke width 8"));
+    expect(handlers.onStrokeWidthChange).toHaveBeenCalledWith(8);
+  });
+
+  it("should group and ungroup the selection", () => {
+    render(<SelectionToolbar count={2} {...handlers} canGroup canUngroup />);
+
+    fireEvent.click(screen.getByTitle("Group"));
+    expect(handlers.onGroup).toHaveBeenCalled();
+
+    fireEvent.click(screen.getByTitle("Ungroup"));
+    expect(handlers.onUngroup).toHaveBeenCalled();
+  });
+
+  it("should rename a selected group", () => {
+    render(<SelectionToolbar count={2} {...handlers} groupName="Group 1" />);
+
+    const input = screen.getByTitle("Group name");
+    fireEvent.change(input, { target: { value: "Ideas" } });
+    fireEvent.blur(input);
+
+    expect(handlers.onRenameGroup).toHaveBeenCalledWith("Ideas");
+  });
+
+  it("should restack the selection", () => {
+    render(<SelectionToolbar count={1} {...handlers} />);
+
+    fireEvent.click(screen.getByTitle("Bring to front"));
+    expect(handlers.onReorder).toHaveBeenCalledWith("front");
+
+    fireEvent.click(screen.getByTitle("Send backward"));
+    expect(handlers.onReorder).toHaveBeenCalledWith("backward");
+  });
+
+  it("should switch the routing of selected connectors", () => {
+    const { rerender } = render(<SelectionToolbar count={1} {...handlers} />);
+    expect(screen.queryByTitle("Elbow connector")).not.toBeInTheDocument();
+
+    rerender(
+      <SelectionToolbar count={1} {...handlers} connectorRouting="straight" />
+    );
+    fireEvent.click(screen.getByTitle("Elbow connector"));
+    expect(handlers.onRoutingChange).toHaveBeenCalledWith("elbow");
+  });
+});
@@ -30,6 +30,9 @@ describe("ToolPanel", () => {
     expect(screen.getByTitle("Pen")).toBeInTheDocument();
     expect(screen.getByTitle("Eraser")).toBeInTheDocument();
     expect(screen.getByTitle("Highlighter")).toBeInTheDocument();
+    expect(screen.getByTitle("Shape")).toBeInTheDocument();
+    expect(screen.getByTitle("Text")).toBeInTheDocument();
+    expect(screen.getByTitle("Sticky Note")).toBeInTheDocument();
   });
 
   it("should highlight the current tool", () => {
@@ -64,6 +67,79 @@ describe("ToolPanel", () => {
     expect(mockOnToolChange).toHaveBeenCalledWith({ type: "eraser" });
   });
 
+  it("should only show shape kinds when the shape tool is active", () => {
+    const { rerender } = render(
+      <ToolPanel
+        currentTool={defaultTool}
+        onToolChange={mockOnToolChange}
+        onClear={mockOnClear}
+      />
+    );
+
+    expect(screen.queryByTitle("Ellipse")).not.toBeInTheDocument();
+
+    rerender(
+      <ToolPanel
+        currentTool={{ ...defaultTool, type: "shape" }}
+        onToolChange={mockOnToolChange}
+        onClear={mockOnClear}
+      />
+    );
+
+    expect(screen.getByTitle("Rectangle")).toHaveClass("border-blue-500");
+    expect(screen.getByTitle("Ellipse")).toBeInTheDocument();
+    expect(screen.getByTitle("Line")).toBeInTheDocument();
+    expect(screen.getByTitle("Arrow")).toBeInTheDocument();
+  });
+
+  it("should call onToolChange when a shape kind is selected", () => {
+    render(
+      <ToolPanel
+        currentTool={{ ...defaultTool, type: "shape" }}
+        onToolChange={mockOnToolChange}
+        onClear={mockOnClear}
+      />
+    );
+
+    fireEvent.click(screen.getByTitle("Arrow"));
+
+    expect(mockOnToolChange).toHaveBeenCalledWith({
+      type: "shape",
+      shape: "arrow",
+    });
+  });
+
+  it("should change font size and alignment for the text tool", () => {
+    render(
+      <ToolPanel
+        currentTool={{ ...defaultTool, type: "text" }}
+        onToolChange={mockOnToolChange}
+        onClear={mockOnClear}
+      />
+    );
+
+    fireEvent.click(screen.getByTitle("Font size 32"));
+    expect(mockOnToolChange).toHaveBeenCalledWith({ fontSize: 32 });
+
+    fireEvent.click(screen.getByTitle("Align center"));
+    expect(mockOnToolChange).toHaveBeenCalledWith({ textAlign: "center" });
+  });
+
+  it("should call onToolChange when a sticky note color is selected", () => {
+    render(
+      <ToolPanel
+        currentTool={{ ...defaultTool, type: "sticky" }}
+        onToolChange={mockOnToolChange}
+        onClear={mockOnClear}
+      />
+    );
+
+    expect(screen.getByTitle("Yellow note")).toHaveClass("border-gray-800");
+
+    fireEvent.click(screen.getByTitle("Pink note"));
+    expect(mockOnToolChange).toHaveBeenCalledWith({ stickyColor: "#fbcfe8" });
+  });
+
   it("should render color palette", () => {
     render(
       <ToolPanel
@@ -217,4 +293,39 @@ describe("ToolPanel", () => {
 
     expect(screen.getByText("70%")).toBeInTheDocument();
   });
+
+  it("should switch between object and pixel erasing", () => {
+    render(
+      <ToolPanel
+        currentTool={{ ...defaultTool, type: "eraser" }}
+        onToolChange={mockOnToolChange}
+        onClear={mockOnClear}
+      />
+    );
+
+    expect(screen.getByTitle("Object eraser")).toHaveClass("border-blue-500");
+
+    fireEvent.click(screen.getByTitle("Pixel eraser"));
+    expect(mockOnToolChange).toHaveBeenCalledWith({ eraserMode: "pixel" });
+  });
+
+  it("should hand picked image files to onAddImages", () => {
+    const mockOnAddImages = jest.fn();
+    const { container } = render(
+      <ToolPanel
+        currentTool={defaultTool}
+        onToolChange={mockOnToolChange}
+        onClear={mockOnClear}
+        onAddImages={mockOnAddImages}
+      />
+    );
+
+    expect(screen.getByTitle("Add image")).toBeInTheDocument();
+
+    const file = new File(["image"], "cat.png", { type: "image/png" });
+    const input = container.querySelector('input[type="file"]') as HTMLInputElement;
+    fireEvent.change(input, { target: { files: [file] } });
+
+    expect(mockOnAddImages).toHaveBeenCalledWith([file]);
+  });
 });
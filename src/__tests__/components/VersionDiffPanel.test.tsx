@@ -0,0 +1,65 @@
+import React from "react";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { VersionDiffPanel } from "@/components/VersionDiffPanel";
+import { compareSnapshots } from "@/lib/diff";
+import { DrawingAction } from "@/types/whiteboard";
+
+describe("VersionDiffPanel", () => {
+  const createNote = (id: string, content: string, x = 0): DrawingAction => ({
+    id,
+    type: "sticky",
+    points: [{ x, y: 0 }],
+    color: "#1f2937",
+    strokeWidth: 1,
+    text: { content, fontSize: 20, align: "left" },
+    width: 100,
+    height: 100,
+    fill: "#fef08a",
+    timestamp: 1000,
+    userId: "user1",
+  });
+
+  const diff = compareSnapshots(
+    {
+      name: "Kickoff",
+      createdAt: 1000,
+      elements: [createNote("goals", "Goals"), createNote("risks", "Risks")],
+    },
+    {
+      name: "Review",
+      createdAt: 2000,
+      elements: [createNote("goals", "Goals", 200), createNote("owners", "Owners")],
+    }
+  );
+
+  it("should list the changes grouped by kind", () => {
+    render(<VersionDiffPanel diff={diff} onSelectChange={jest.fn()} />);
+
+    expect(screen.getByText("From Kickoff to Review")).toBeInTheDocument();
+    expect(screen.getByText("Added (1)")).toBeInTheDocument();
+    expect(screen.getByText("Removed (1)")).toBeInTheDocument();
+    expect(screen.getByText("Modified (1)")).toBeInTheDocument();
+    expect(screen.getByText("position")).toBeInTheDocument();
+  });
+
+  it("should show a change when it is clicked", () => {
+    const onSelectChange = jest.fn();
+    render(<VersionDiffPanel diff={diff} onSelectChange={onSelectChange} />);
+
+    fireEvent.click(screen.getByTitle('Show Sticky note "Risks"'));
+    expect(onSelectChange).toHaveBeenCalledWith(
+      expect.objectContaining({ kind: "removed", element: expect.objectContaining({ id: "risks" }) })
+    );
+  });
+
+  it("should say when nothing changed", () => {
+    render(
+      <VersionDiffPanel
+        diff={{ ...diff, changes: [] }}
+        onSelectChange={jest.fn()}
+      />
+    );
+
+    expect(screen.getByText("Nothing changed on this page.")).toBeInTheDocument();
+  });
+});
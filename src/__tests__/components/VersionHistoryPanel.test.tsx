@@ -0,0 +1,60 @@
+import React from "react";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { VersionHistoryPanel } from "@/components/VersionHistoryPanel";
+import { VersionSummary } from "@/types/whiteboard";
+
+describe("VersionHistoryPanel", () => {
+  const versions: VersionSummary[] = [
+    { id: "v1", name: "Kickoff", createdAt: 1000, createdBy: "user1", automatic: false },
+    { id: "v2", name: "Automatic version", createdAt: 2000, createdBy: "server", automatic: true },
+  ];
+  const mockOnSaveVersion = jest.fn();
+  const mockOnPreviewVersion = jest.fn();
+
+  const renderPanel = (list = versions) =>
+    render(
+      <VersionHistoryPanel
+        versions={list}
+        previewVersionId="v1"
+        onSaveVersion={mockOnSaveVersion}
+        onPreviewVersion={mockOnPreviewVersion}
+      />
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should list the newest version first and preview one when clicked", () => {
+    renderPanel();
+
+    const buttons = screen.getAllByTitle(/^Preview /);
+    expect(buttons.map((button) => button.title)).toEqual([
+      "Preview Automatic version",
+      "Preview Kickoff",
+    ]);
+    expect(screen.getByText("Auto")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByTitle("Preview Kickoff"));
+    expect(mockOnPreviewVersion).toHaveBeenCalledWith("v1");
+  });
+
+  it("should save a version with the typed or suggested name", () => {
+    renderPanel();
+
+    fireEvent.click(screen.getByText("Save version"));
+    expect(mockOnSaveVersion).toHaveBeenCalledWith("Version 2");
+
+    fireEvent.change(screen.getByTitle("Version name"), {
+      target: { value: "Before review" },
+    });
+    fireEvent.click(screen.getByText("Save version"));
+    expect(mockOnSaveVersion).toHaveBeenLastCalledWith("Before review");
+  });
+
+  it("should explain automatic versions when there are none", () => {
+    renderPanel([]);
+
+    expect(screen.getByText(/No versions yet/)).toBeInTheDocument();
+  });
+});
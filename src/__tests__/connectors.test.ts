@@ -0,0 +1,137 @@
+import {
+  findBindingTarget,
+  getConnectorRoute,
+  getRouteMidpoint,
+  routeConnectors,
+} from '@/lib/connectors';
+import { DrawingAction } from '@/types/whiteboard';
+
+function createBox(id: string, x: number, y: number, size = 100): DrawingAction {
+  return {
+    id,
+    type: 'shape',
+    shape: 'rectangle',
+    points: [{ x, y }, { x: x + size, y: y + size }],
+    color: '#000000',
+    strokeWidth: 2,
+    timestamp: 1000,
+    userId: 'user1',
+  };
+}
+
+function createConnector(overrides: Partial<DrawingAction> = {}): DrawingAction {
+  return {
+    id: 'connector1',
+    type: 'connector',
+    points: [{ x: 0, y: 0 }, { x: 500, y: 0 }],
+    color: '#000000',
+    strokeWidth: 2,
+    timestamp: 2000,
+    userId: 'user1',
+    ...overrides,
+  };
+}
+
+describe('getConnectorRoute', () => {
+  it('should keep free ends where they were drawn', () => {
+    const connector = createConnector();
+    expect(getConnectorRoute(connector, new Map())).toEqual(connector.points);
+  });
+
+  it('should attach bound ends to the facing edges of their elements', () => {
+    const a = createBox('a', 0, 0);
+    const b = createBox('b', 300, 0);
+    const connector = createConnector({ startBinding: 'a', endBinding: 'b' });
+
+    const route = getConnectorRoute(connector, new Map([['a', a], ['b', b]]));
+    expect(route).toEqual([{ x: 104, y: 50 }, { x: 296, y: 50 }]);
+  });
+
+  it('should route elbow connectors horizontally and vertically only', () => {
+    const a = createBox('a', 0, 0);
+    const b = createBox('b', 300, 200);
+    const connector = createConnector({ routing: 'elbow', startBinding: 'a', endBinding: 'b' });
+
+    const route = getConnectorRoute(connector, new Map([['a', a], ['b', b]]));
+    expect(route[0]).toEqual({ x: 104, y: 50 });
+    expect(route[route.length - 1]).toEqual({ x: 296, y: 250 });
+    for (let i = 1; i < route.length; i++) {
+      expect(route[i].x === route[i - 1].x || route[i].y === route[i - 1].y).toBe(true);
+    }
+  });
+
+  it('should fall back to the drawn point when a bound element is gone', () => {
+    const connector = createConnector({ startBinding: 'missing' });
+    expect(getConnectorRoute(connector, new Map())[0]).toEqual({ x: 0, y: 0 });
+  });
+});
+
+describe('routeConnectors', () => {
+  it('should re-route connectors when the elements they join move', () => {
+    const a = createBox('a', 0, 0);
+    const b = createBox('b', 300, 0);
+    const connector = createConnector({ startBinding: 'a', endBinding: 'b' });
+
+    const moved = routeConnectors([a, { ...b, ...createBox('b', 300, 400) }, connector]);
+    const route = moved[2].points;
+    expect(route[route.length - 1].y).toBeLessThan(400);
+    expect(route[0].y).toBeGreaterThan(50);
+  });
+
+  it('should look up bound elements among the given targets', () => {
+    const a = createBox('a', 0, 0);
+    const connector = createConnector({ startBinding: 'a' });
+
+    const [routed] = routeConnectors([connector], [a, connector]);
+    expect(routed.points[0]).not.toEqual({ x: 0, y: 0 });
+  });
+
+  it('should leave boards without connectors untouched', () => {
+    const elements = [createBox('a', 0, 0)];
+    expect(routeConnectors(elements)).toBe(elements);
+  });
+});
+
+describe('findBindingTarget', () => {
+  it('should pick the topmost element that can hold a connector end', () => {
+    const bottom = createBox('bottom', 0, 0);
+    const top = createBox('top', 50, 50);
+    const connector = createConnector({ points: [{ x: 60, y: 60 }, { x: 500, y: 60 }] });
+
+    expect(findBindingTarget([bottom, top, connector], { x: 60, y: 60 })?.id).toBe('top');
+    expect(findBindingTarget([bottom, top], { x: 20, y: 20 })?.id).toBe('bottom');
+    expect(findBindingTarget([bottom, top], { x: 400, y: 400 })).toBeNull();
+  });
+
+  it('should bind to the shapes inside a frame drawn around them later', () => {
+    const a = createBox('a', 0, 0);
+    const b = createBox('b', 300, 0);
+    const frame: DrawingAction = {
+      id: 'f',
+      type: 'frame',
+      points: [{ x: -50, y: -50 }],
+      width: 500,
+      height: 200,
+      name: 'Frame 1',
+      color: '#000000',
+      strokeWidth: 1,
+      timestamp: 2000,
+      userId: 'user1',
+    };
+    const elements = [a, b, frame];
+
+    expect(findBindingTarget(elements, { x: 50, y: 50 })?.id).toBe('a');
+    expect(findBindingTarget(elements, { x: 350, y: 50 })?.id).toBe('b');
+    // Empty space inside the frame holds nothing; its edge and name still do
+    expect(findBindingTarget(elements, { x: 200, y: 50 })).toBeNull();
+    expect(findBindingTarget(elements, { x: -50, y: 50 })?.id).toBe('f');
+    expect(findBindingTarget(elements, { x: 0, y: -60 })?.id).toBe('f');
+  });
+});
+
+describe('getRouteMidpoint', () => {
+  it('should find the point halfway along the whole route', () => {
+    expect(getRouteMidpoint([{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }])).toEqual({ x: 100, y: 0 });
+    expect(getRouteMidpoint([{ x: 0, y: 0 }, { x: 0, y: 40 }])).toEqual({ x: 0, y: 20 });
+  });
+});
@@ -0,0 +1,90 @@
+import {
+  compareSnapshots,
+  diffElements,
+  getChangedProperties,
+  getDiffElements,
+  getElementLabel,
+} from '@/lib/diff';
+import { DrawingAction } from '@/types/whiteboard';
+
+function createRectangle(id: string, x: number, extra: Partial<DrawingAction> = {}): DrawingAction {
+  return {
+    id,
+    type: 'shape',
+    shape: 'rectangle',
+    points: [{ x, y: 0 }, { x: x + 50, y: 50 }],
+    color: '#000000',
+    strokeWidth: 2,
+    timestamp: 1000,
+    userId: 'user1',
+    ...extra,
+  };
+}
+
+describe('diff', () => {
+  it('should find added, removed and modified elements by id', () => {
+    const before = [createRectangle('kept', 0), createRectangle('moved', 100), createRectangle('gone', 200)];
+    const after = [
+      createRectangle('kept', 0),
+      createRectangle('moved', 150, { color: '#ff0000' }),
+      createRectangle('new', 300),
+    ];
+
+    const changes = diffElements(before, after);
+
+    expect(changes.map(change => [change.kind, change.element.id])).toEqual([
+      ['modified', 'moved'],
+      ['added', 'new'],
+      ['removed', 'gone'],
+    ]);
+    expect(changes[0].previous?.points[0].x).toBe(100);
+    expect(changes[0].properties).toEqual(['position', 'color']);
+  });
+
+  it('should ignore who made an element and where it sits in the log', () => {
+    const before = createRectangle('a', 0);
+    const after = { ...createRectangle('a', 0, { timestamp: 5000, userId: 'user2', pageId: 'notes' }) };
+
+    expect(getChangedProperties(before, after)).toEqual([]);
+  });
+
+  it('should name each changed property once, whatever the key order', () => {
+    const before = createRectangle('a', 0, { width: 10, height: 10, text: { content: 'x', fontSize: 20, align: 'left' } });
+    const after = createRectangle('a', 0, { height: 20, width: 20, text: { align: 'left', fontSize: 20, content: 'x' } });
+
+    expect(getChangedProperties(before, after)).toEqual(['size']);
+  });
+
+  it('should always compare the older snapshot with the newer', () => {
+    const older = { name: 'Monday', createdAt: 1000, elements: [createRectangle('a', 0)] };
+    const newer = { name: 'Tuesday', createdAt: 2000, elements: [createRectangle('b', 0)] };
+
+    const diff = compareSnapshots(newer, older);
+
+    expect(diff.before.name).toBe('Monday');
+    expect(diff.after.name).toBe('Tuesday');
+    expect(diff.changes.map(change => change.kind)).toEqual(['added', 'removed']);
+  });
+
+  it('should draw removed elements alongside the newer snapshot', () => {
+    const diff = compareSnapshots(
+      { name: 'Monday', createdAt: 1000, elements: [createRectangle('gone', 0), createRectangle('kept', 100)] },
+      { name: 'Tuesday', createdAt: 2000, elements: [createRectangle('kept', 100)] }
+    );
+
+    expect(getDiffElements(diff).map(element => element.id).sort()).toEqual(['gone', 'kept']);
+  });
+
+  it('should describe elements for the list of changes', () => {
+    expect(getElementLabel(createRectangle('a', 0))).toBe('Rectangle');
+    expect(getElementLabel({ ...createRectangle('a', 0), type: 'frame', name: 'Agenda' })).toBe('Frame Agenda');
+    expect(
+      getElementLabel({
+        ...createRectangle('a', 0),
+        type: 'sticky',
+        text: { content: 'Ship the beta before the end of the month\nthen celebrate', fontSize: 20, align: 'left' },
+      })
+    ).toBe('Sticky note "Ship the beta before the end…"');
+    expect(getElementLabel({ ...createRectangle('a', 0), type: 'draw', tool: 'highlighter' })).toBe('Highlighter stroke');
+  });
+});
@@ -0,0 +1,237 @@
+import {
+  findElementAt,
+  findElementsAlongSegment,
+  getElementBounds,
+  getStrokeStyle,
+  hitTestElement,
+  nextTimestamp,
+  resolveElements,
+  scaleElement,
+} from '@/lib/elements';
+import { DrawingAction } from '@/types/whiteboard';
+import { createStroke, createUpdate } from '@/test-utils/actions';
+
+describe('resolveElements', () => {
+  it('should apply updates to their target element', () => {
+    const elements = resolveElements([
+      createStroke('stroke1', 1000),
+      createUpdate('update1', 2000, { stroke1: { color: '#ff0000' } }),
+    ]);
+
+    expect(elements).toHaveLength(1);
+    expect(elements[0].color).toBe('#ff0000');
+  });
+
+  it('should replay actions in timestamp order regardless of arrival order', () => {
+    const stroke = createStroke('stroke1', 1000);
+    const first = createUpdate('update1', 2000, { stroke1: { color: '#ff0000' } });
+    const second = createUpdate('update2', 3000, { stroke1: { color: '#00ff00' } });
+
+    expect(resolveElements([stroke, second, first])[0].color).toBe('#00ff00');
+    expect(resolveElements([second, first, stroke])[0].color).toBe('#00ff00');
+  });
+
+  it('should ignore updates for unknown elements', () => {
+    const elements = resolveElements([
+      createStroke('stroke1', 1000),
+      createUpdate('update1', 2000, { missing: { color: '#ff0000' } }),
+    ]);
+
+    expect(elements).toEqual([createStroke('stroke1', 1000)]);
+  });
+
+  it('should never let an update change what an element is', () => {
+    const elements = resolveElements([
+      createStroke('stroke1', 1000),
+      createUpdate('update1', 2000, {
+        stroke1: { id: 'other', type: 'clear', src: 'javascript:alert(1)', color: '#ff0000' } as any,
+      }),
+    ]);
+
+    expect(elements[0]).toEqual({ ...createStroke('stroke1', 1000), color: '#ff0000' });
+    expect(elements[0]).not.toHaveProperty('src');
+  });
+
+  it('should keep the uploaded source of an image whatever an update sends', () => {
+    const image: DrawingAction = {
+      id: 'image1',
+      type: 'image',
+      points: [{ x: 0, y: 0 }],
+      color: '',
+      strokeWidth: 1,
+      width: 100,
+      height: 100,
+      src: '/api/assets/abc123',
+      timestamp: 1000,
+      userId: 'user1',
+    };
+
+    const elements = resolveElements([
+      image,
+      createUpdate('update1', 2000, { image1: { src: 'javascript:alert(1)', width: 200 } as any }),
+    ]);
+
+    expect(elements[0].src).toBe('/api/assets/abc123');
+    expect(elements[0].width).toBe(200);
+  });
+
+  it('should drop elements created before a clear', () => {
+    const clearAction: DrawingAction = {
+      id: 'clear1',
+      type: 'clear',
+      points: [],
+      color: '#ffffff',
+      strokeWidth: 0,
+      timestamp: 2000,
+      userId: 'user1',
+    };
+
+    const elements = resolveElements([createStroke('stroke1', 1000), clearAction, createStroke('stroke2', 3000)]);
+
+    expect(elements.map(element => element.id)).toEqual(['stroke2']);
+  });
+
+  it('should remove deleted elements and ignore later updates to them', () => {
+    const deleteAction: DrawingAction = {
+      id: 'delete1',
+      type: 'delete',
+      points: [],
+      color: '',
+      strokeWidth: 0,
+      targetIds: ['stroke1'],
+      timestamp: 3000,
+      userId: 'user1',
+    };
+
+    const elements = resolveElements([
+      createStroke('stroke1', 1000),
+      createStroke('stroke2', 2000),
+      deleteAction,
+      createUpdate('update1', 4000, { stroke1: { color: '#ff0000' }, stroke2: { color: '#00ff00' } }),
+    ]);
+
+    expect(elements.map(element => element.id)).toEqual(['stroke2']);
+    expect(elements[0].color).toBe('#00ff00');
+  });
+});
+
+describe('resolveElements with duplicates', () => {
+  it('should add every copy carried by a duplicate action', () => {
+    const elements = resolveElements([
+      createStroke('stroke1', 1000),
+      {
+        id: 'duplicate1',
+        type: 'duplicate',
+        points: [],
+        color: '',
+        strokeWidth: 0,
+        elements: [createStroke('copy1', 2000), createStroke('copy2', 2000)],
+        timestamp: 2000,
+        userId: 'user1',
+      },
+      createUpdate('update1', 3000, { copy2: { color: '#ff0000' } }),
+    ]);
+
+    expect(elements.map(element => element.id)).toEqual(['stroke1', 'copy1', 'copy2']);
+    expect(elements[2].color).toBe('#ff0000');
+  });
+});
+
+describe('nextTimestamp', () => {
+  it('should order new actions after the latest known action', () => {
+    const future = Date.now() + 60000;
+    expect(nextTimestamp([createStroke('stroke1', future)])).toBe(future + 1);
+  });
+});
+
+describe('hitTestElement', () => {
+  it('should hit strokes near their path', () => {
+    const stroke = createStroke('stroke1', 1000);
+
+    expect(hitTestElement(stroke, { x: 50, y: 3 })).toBe(true);
+    expect(hitTestElement(stroke, { x: 50, y: 20 })).toBe(false);
+  });
+
+  it('should account for element rotation', () => {
+    const stroke = { ...createStroke('stroke1', 1000), rotation: Math.PI / 2 };
+
+    expect(hitTestElement(stroke, { x: 50, y: 40 })).toBe(true);
+    expect(hitTestElement(stroke, { x: 90, y: 0 })).toBe(false);
+  });
+
+  it('should hit anywhere inside rectangles', () => {
+    const rectangle: DrawingAction = {
+      ...createStroke('shape1', 1000, { points: [{ x: 0, y: 0 }, { x: 100, y: 50 }] }),
+      type: 'shape',
+      shape: 'rectangle',
+    };
+
+    expect(hitTestElement(rectangle, { x: 50, y: 25 })).toBe(true);
+    expect(hitTestElement(rectangle, { x: 150, y: 25 })).toBe(false);
+  });
+});
+
+describe('findElementAt', () => {
+  it('should return the topmost element under the point', () => {
+    const bottom = createStroke('bottom', 1000);
+    const top = createStroke('top', 2000);
+
+    expect(findElementAt([bottom, top], { x: 50, y: 0 })?.id).toBe('top');
+  });
+});
+
+describe('getStrokeStyle', () => {
+  const tool = { color: '#facc15', strokeWidth: 12, opacity: 0.4 };
+
+  it('should multiply highlighter strokes', () => {
+    expect(getStrokeStyle({ ...tool, type: 'highlighter' })).toEqual({
+      tool: 'highlighter',
+      opacity: 0.4,
+      blendMode: 'multiply',
+    });
+  });
+
+  it('should paint pen strokes normally', () => {
+    expect(getStrokeStyle({ ...tool, type: 'pen' })).toEqual({ tool: 'pen', opacity: 0.4, blendMode: 'normal' });
+  });
+});
+
+describe('findElementsAlongSegment', () => {
+  it('should find every element crossed between two samples', () => {
+    const first = createStroke('first', 1000, { points: [{ x: 20, y: -50 }, { x: 20, y: 50 }] });
+    const second = createStroke('second', 2000, { points: [{ x: 80, y: -50 }, { x: 80, y: 50 }] });
+    const missed = createStroke('missed', 3000, { points: [{ x: 200, y: -50 }, { x: 200, y: 50 }] });
+
+    const hits = findElementsAlongSegment([first, second, missed], { x: 0, y: 0 }, { x: 100, y: 0 }, 4);
+
+    expect(hits.map(element => element.id)).toEqual(['first', 'second']);
+  });
+
+  it('should ignore pixel erase strokes', () => {
+    const erase = { ...createStroke('erase', 1000), type: 'erase' as const };
+
+    expect(findElementsAlongSegment([erase], { x: 50, y: 0 }, { x: 50, y: 0 })).toEqual([]);
+  });
+});
+
+describe('scaleElement', () => {
+  it('should map points onto the new bounds', () => {
+    const stroke = createStroke('stroke1', 1000, { points: [{ x: 0, y: 0 }, { x: 100, y: 50 }] });
+    const changes = scaleElement(stroke, getElementBounds(stroke), { x: 10, y: 10, width: 200, height: 100 });
+
+    expect(changes.points).toEqual([{ x: 10, y: 10 }, { x: 210, y: 110 }]);
+  });
+
+  it('should resize sticky notes', () => {
+    const sticky: DrawingAction = {
+      ...createStroke('sticky1', 1000, { points: [{ x: 0, y: 0 }] }),
+      type: 'sticky',
+      width: 100,
+      height: 100,
+    };
+    const changes = scaleElement(sticky, getElementBounds(sticky), { x: 0, y: 0, width: 200, height: 50 });
+
+    expect(changes.width).toBe(200);
+    expect(changes.height).toBe(50);
+  });
+});
@@ -0,0 +1,68 @@
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  MAX_EXPORT_SIZE,
+  getExportBounds,
+  getExportElements,
+  getExportLayout,
+} from '@/lib/export';
+import { DrawingAction } from '@/types/whiteboard';
+
+function createRectangle(id: string, x: number, y: number): DrawingAction {
+  return {
+    id,
+    type: 'shape',
+    shape: 'rectangle',
+    points: [{ x, y }, { x: x + 100, y: y + 50 }],
+    color: '#000000',
+    strokeWidth: 2,
+    timestamp: 1000,
+    userId: 'user1',
+  };
+}
+
+describe('export', () => {
+  const elements = [createRectangle('a', 0, 0), createRectangle('b', 200, 100)];
+
+  it('should export only the selected elements for a selection', () => {
+    expect(getExportElements('selection', elements, ['b']).map(element => element.id)).toEqual(['b']);
+    expect(getExportElements('board', elements, ['b'])).toHaveLength(2);
+  });
+
+  it('should cover every element on the board', () => {
+    const bounds = getExportBounds('board', elements, null);
+
+    expect(bounds).toEqual({ x: 0, y: 0, width: 300, height: 150 });
+    expect(getExportBounds('board', [], null)).toBeNull();
+  });
+
+  it('should cover what is on screen for a viewport export', () => {
+    const visible = { x: -50, y: -50, width: 400, height: 300 };
+    expect(getExportBounds('viewport', elements, visible)).toEqual(visible);
+  });
+
+  it('should scale and pad the exported image', () => {
+    const bounds = { x: 0, y: 0, width: 300, height: 150 };
+    const layout = getExportLayout(bounds, { ...DEFAULT_EXPORT_OPTIONS, scale: 2, padding: 10 });
+
+    expect(layout.width).toBe(640);
+    expect(layout.height).toBe(340);
+    expect(layout.viewport).toEqual({ x: -10, y: -10, zoom: 2 });
+  });
+
+  it('should keep the screen zoom for a viewport export', () => {
+    const bounds = { x: 0, y: 0, width: 400, height: 200 };
+    const layout = getExportLayout(bounds, { scope: 'viewport', scale: 1, background: 'solid', padding: 0 }, 0.5);
+
+    expect(layout.width).toBe(200);
+    expect(layout.height).toBe(100);
+    expect(layout.viewport.zoom).toBe(0.5);
+  });
+
+  it('should shrink exports that would be too large', () => {
+    const bounds = { x: 0, y: 0, width: 10000, height: 5000 };
+    const layout = getExportLayout(bounds, { ...DEFAULT_EXPORT_OPTIONS, scale: 4, padding: 0 });
+
+    expect(layout.width).toBe(MAX_EXPORT_SIZE);
+    expect(layout.height).toBe(MAX_EXPORT_SIZE / 2);
+  });
+});
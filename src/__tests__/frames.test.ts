@@ -0,0 +1,58 @@
+import { getFrameContents, getFrameViewport, getFrames, getNextFrameName, withFrameContents } from '@/lib/frames';
+import { findElementAt, hitTestElement } from '@/lib/elements';
+import { DrawingAction } from '@/types/whiteboard';
+import { createStroke } from '@/test-utils/actions';
+
+function createFrame(id: string, x: number, y: number, width: number, height: number): DrawingAction {
+  return {
+    id,
+    type: 'frame',
+    points: [{ x, y }],
+    color: '#6b7280',
+    strokeWidth: 1,
+    width,
+    height,
+    name: id,
+    timestamp: 1000,
+    userId: 'user1',
+  };
+}
+
+describe('frames', () => {
+  const frame = createFrame('Agenda', 0, 0, 200, 100);
+  const inside = createStroke('inside', 2000, { points: [{ x: 10, y: 10 }, { x: 50, y: 50 }] });
+  const across = createStroke('across', 2000, { points: [{ x: 150, y: 50 }, { x: 300, y: 50 }] });
+  const outside = createStroke('outside', 2000, { points: [{ x: 300, y: 300 }, { x: 350, y: 350 }] });
+
+  it('should list frames and name new ones', () => {
+    expect(getFrames([inside, frame, outside])).toEqual([frame]);
+    expect(getNextFrameName([frame])).toBe('Frame 2');
+  });
+
+  it('should contain only elements lying entirely inside the frame', () => {
+    const nested = createFrame('Detail', 20, 20, 50, 50);
+
+    expect(getFrameContents(frame, [frame, inside, across, outside, nested]).map(element => element.id)).toEqual([
+      'inside',
+      'Detail',
+    ]);
+  });
+
+  it('should bring a frame\'s contents along with it', () => {
+    const targets = withFrameContents([frame, inside], [frame, inside, across, outside]);
+    expect(targets.map(element => element.id)).toEqual(['Agenda', 'inside']);
+  });
+
+  it('should only be picked up by its edge or its name', () => {
+    expect(hitTestElement(frame, { x: 0, y: 50 })).toBe(true);
+    expect(hitTestElement(frame, { x: 20, y: -10 })).toBe(true);
+    expect(hitTestElement(frame, { x: 100, y: 50 })).toBe(false);
+
+    // Clicking inside a frame reaches what is drawn there
+    expect(findElementAt([frame, inside], { x: 30, y: 30 })).toBe(inside);
+  });
+
+  it('should fit the frame exactly to the export width', () => {
+    expect(getFrameViewport(createFrame('Wide', 100, 50, 400, 200), 800)).toEqual({ x: 100, y: 50, zoom: 2 });
+  });
+});
@@ -0,0 +1,133 @@
+import {
+  expandToGroups,
+  getGroupElementIds,
+  getTopLevelId,
+  getTopLevelIds,
+  hasGroupCycle,
+  resolveGroups,
+} from '@/lib/groups';
+import { resolveElements } from '@/lib/elements';
+import { DrawingAction } from '@/types/whiteboard';
+import { createOp, createStroke } from '@/test-utils/actions';
+
+function getGroups(actions: DrawingAction[]) {
+  return resolveGroups(actions, resolveElements(actions));
+}
+
+const strokes = [createStroke('a', 1000), createStroke('b', 1001), createStroke('c', 1002)];
+
+describe('resolveGroups', () => {
+  it('should build nested groups from the action log', () => {
+    const groups = getGroups([
+      ...strokes,
+      createOp('inner', 'group', 2000, { targetIds: ['a', 'b'], name: 'Inner' }),
+      createOp('outer', 'group', 3000, { targetIds: ['inner', 'c'], name: 'Outer' }),
+    ]);
+
+    expect(groups).toEqual([
+      { id: 'inner', name: 'Inner', memberIds: ['a', 'b'] },
+      { id: 'outer', name: 'Outer', memberIds: ['inner', 'c'] },
+    ]);
+    expect(getTopLevelId('a', groups)).toBe('outer');
+    expect(getGroupElementIds('outer', groups)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should keep nested groups when the outer group is split', () => {
+    const groups = getGroups([
+      ...strokes,
+      createOp('inner', 'group', 2000, { targetIds: ['a', 'b'] }),
+      createOp('outer', 'group', 3000, { targetIds: ['inner', 'c'] }),
+      createOp('split', 'ungroup', 4000, { targetIds: ['outer'] }),
+    ]);
+
+    expect(groups.map(group => group.id)).toEqual(['inner']);
+  });
+
+  it('should skip undone groups and ungroups', () => {
+    const groups = getGroups([
+      ...strokes,
+      createOp('group1', 'group', 2000, { targetIds: ['a', 'b'] }),
+      createOp('split', 'ungroup', 3000, { targetIds: ['group1'] }),
+      createOp('undo1', 'undo', 4000, { targetIds: ['split'] }),
+    ]);
+
+    expect(groups.map(group => group.id)).toEqual(['group1']);
+  });
+
+  it('should give a member to the latest group that claims it', () => {
+    const groups = getGroups([
+      ...strokes,
+      createOp('first', 'group', 2000, { targetIds: ['a', 'b'] }),
+      createOp('second', 'group', 2000, { targetIds: ['b', 'c'] }),
+    ]);
+
+    expect(groups).toEqual([
+      { id: 'first', name: 'Group', memberIds: ['a'] },
+      { id: 'second', name: 'Group', memberIds: ['b', 'c'] },
+    ]);
+  });
+
+  it('should rename groups through updates and drop groups whose elements are gone', () => {
+    const groups = getGroups([
+      ...strokes,
+      createOp('group1', 'group', 2000, { targetIds: ['a', 'b'], name: 'Old' }),
+      createOp('group2', 'group', 2001, { targetIds: ['c', 'missing'] }),
+      createOp('rename', 'update', 3000, { changes: { group1: { name: 'New' } } }),
+      createOp('delete1', 'delete', 4000, { targetIds: ['c'] }),
+    ]);
+
+    expect(groups).toEqual([{ id: 'group1', name: 'New', memberIds: ['a', 'b'] }]);
+  });
+
+  it('should replace the groups with those a restored version brings back', () => {
+    const groups = getGroups([
+      ...strokes,
+      createOp('group1', 'group', 2000, { targetIds: ['a', 'b'] }),
+      createOp('restore1', 'restore', 3000, {
+        elements: strokes,
+        groups: [{ id: 'saved', name: 'Saved', memberIds: ['b', 'c'] }],
+      }),
+    ]);
+
+    expect(groups).toEqual([{ id: 'saved', name: 'Saved', memberIds: ['b', 'c'] }]);
+  });
+
+  it('should resolve groups that contain each other without looping', () => {
+    const groups = getGroups([
+      ...strokes,
+      createOp('first', 'group', 2000, { targetIds: ['a', 'second'] }),
+      createOp('second', 'group', 3000, { targetIds: ['first', 'b'] }),
+    ]);
+
+    expect(groups).toEqual([
+      { id: 'first', name: 'Group', memberIds: ['a', 'second'] },
+      { id: 'second', name: 'Group', memberIds: ['first', 'b'] },
+    ]);
+    expect(getTopLevelId('a', groups)).toBe('second');
+    expect(getGroupElementIds('second', groups)).toEqual(['a', 'b']);
+    expect(expandToGroups(['b'], groups)).toEqual(['a', 'b']);
+  });
+});
+
+describe('hasGroupCycle', () => {
+  it('should find groups that contain themselves', () => {
+    expect(hasGroupCycle([
+      { id: 'inner', name: 'Inner', memberIds: ['a', 'b'] },
+      { id: 'outer', name: 'Outer', memberIds: ['inner', 'c'] },
+    ])).toBe(false);
+    expect(hasGroupCycle([{ id: 'self', name: 'Self', memberIds: ['self', 'a'] }])).toBe(true);
+    expect(hasGroupCycle([
+      { id: 'first', name: 'First', memberIds: ['a', 'second'] },
+      { id: 'second', name: 'Second', memberIds: ['first', 'b'] },
+    ])).toBe(true);
+  });
+});
+
+describe('expandToGroups', () => {
+  it('should widen a selection to whole groups', () => {
+    const groups = getGroups([...strokes, createOp('group1', 'group', 2000, { targetIds: ['a', 'b'] })]);
+
+    expect(expandToGroups(['a'], groups)).toEqual(['a', 'b']);
+    expect(getTopLevelIds(['a', 'b', 'c'], groups)).toEqual(['group1', 'c']);
+  });
+});
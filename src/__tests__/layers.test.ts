@@ -0,0 +1,81 @@
+import {
+  DEFAULT_LAYER,
+  arrangeByLayer,
+  getElementLayer,
+  getLayers,
+  isElementEditable,
+  mergeLayer,
+  sanitizeLayer,
+  validateLayer,
+} from '@/lib/layers';
+import { Layer } from '@/types/whiteboard';
+import { createStroke } from '@/test-utils/actions';
+
+describe('layers', () => {
+  const background: Layer = { id: 'background', name: 'Background', visible: true, locked: true };
+  const sketch: Layer = { id: 'sketch', name: 'Sketch', visible: true, locked: false };
+
+  it('should fall back to the default layer for boards without layers', () => {
+    expect(getLayers(undefined)).toEqual([DEFAULT_LAYER]);
+    expect(getLayers([])).toEqual([DEFAULT_LAYER]);
+    expect(getLayers([sketch])).toEqual([sketch]);
+  });
+
+  it('should put elements on unknown layers on the bottom layer', () => {
+    const layers = [background, sketch];
+
+    expect(getElementLayer(createStroke('a', 1000, { layerId: 'sketch' }), layers)).toBe(sketch);
+    expect(getElementLayer(createStroke('b', 1000, { layerId: 'missing' }), layers)).toBe(background);
+    expect(getElementLayer(createStroke('c'), [DEFAULT_LAYER, sketch])).toBe(DEFAULT_LAYER);
+  });
+
+  it('should stack elements layer by layer and keep their order within a layer', () => {
+    const elements = [
+      createStroke('a', 1000, { layerId: 'sketch' }),
+      createStroke('b', 1000, { layerId: 'background' }),
+      createStroke('c', 1000, { layerId: 'sketch' }),
+      createStroke('d', 1000, { layerId: 'background' }),
+    ];
+
+    expect(arrangeByLayer(elements, [background, sketch]).map(element => element.id)).toEqual([
+      'b',
+      'd',
+      'a',
+      'c',
+    ]);
+  });
+
+  it('should leave out elements on hidden layers', () => {
+    const elements = [createStroke('a', 1000, { layerId: 'sketch' }), createStroke('b', 1000, { layerId: 'background' })];
+    const hidden = { ...sketch, visible: false };
+
+    expect(arrangeByLayer(elements, [background, hidden]).map(element => element.id)).toEqual(['b']);
+  });
+
+  it('should only allow editing on visible, unlocked layers', () => {
+    const layers = [background, sketch, { id: 'notes', name: 'Notes', visible: false, locked: false }];
+
+    expect(isElementEditable(createStroke('a', 1000, { layerId: 'sketch' }), layers)).toBe(true);
+    expect(isElementEditable(createStroke('b', 1000, { layerId: 'background' }), layers)).toBe(false);
+    expect(isElementEditable(createStroke('c', 1000, { layerId: 'notes' }), layers)).toBe(false);
+  });
+
+  it('should validate and sanitize layers', () => {
+    expect(validateLayer(sketch)).toBe(true);
+    expect(validateLayer({ ...sketch, id: '' })).toBe(false);
+    expect(validateLayer({ ...sketch, locked: 'yes' })).toBe(false);
+    expect(validateLayer(null)).toBe(false);
+
+    expect(sanitizeLayer({ ...sketch, name: 'x'.repeat(150), extra: true } as Layer)).toEqual({
+      ...sketch,
+      name: 'x'.repeat(100),
+    });
+  });
+
+  it('should replace a layer by id or add a new one on top', () => {
+    expect(mergeLayer(undefined, sketch)).toEqual([DEFAULT_LAYER, sketch]);
+
+    const locked = { ...sketch, locked: true };
+    expect(mergeLayer([background, sketch], locked)).toEqual([background, locked]);
+  });
+});
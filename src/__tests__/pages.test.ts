@@ -0,0 +1,97 @@
+import {
+  DEFAULT_PAGE,
+  applyPageChange,
+  getActionsOnPages,
+  getPageActions,
+  getPages,
+  validatePageChange,
+} from '@/lib/pages';
+import { resolveElements } from '@/lib/elements';
+import { DrawingAction, Page } from '@/types/whiteboard';
+
+function createAction(id: string, type: DrawingAction['type'], timestamp: number, pageId?: string): DrawingAction {
+  return {
+    id,
+    type,
+    points: type === 'clear' ? [] : [{ x: 0, y: 0 }, { x: 10, y: 10 }],
+    color: '#000000',
+    strokeWidth: 2,
+    timestamp,
+    userId: 'user1',
+    pageId,
+  };
+}
+
+describe('pages', () => {
+  const agenda: Page = { id: 'agenda', name: 'Agenda' };
+  const brainstorm: Page = { id: 'brainstorm', name: 'Brainstorm' };
+  const decisions: Page = { id: 'decisions', name: 'Decisions' };
+
+  it('should fall back to the default page for boards without pages', () => {
+    expect(getPages(undefined)).toEqual([DEFAULT_PAGE]);
+    expect(getPages([agenda])).toEqual([agenda]);
+  });
+
+  it('should give each page its own action stream', () => {
+    const actions = [
+      createAction('a', 'draw', 1000),
+      createAction('b', 'draw', 2000, 'brainstorm'),
+      createAction('clear', 'clear', 3000, 'brainstorm'),
+      createAction('c', 'draw', 4000, 'brainstorm'),
+    ];
+
+    // Clearing one page leaves the others alone
+    expect(resolveElements(getPageActions(actions, 'default')).map(element => element.id)).toEqual(['a']);
+    expect(resolveElements(getPageActions(actions, 'brainstorm')).map(element => element.id)).toEqual(['c']);
+  });
+
+  it('should drop the action streams of deleted pages', () => {
+    const actions = [
+      createAction('a', 'draw', 1000, 'agenda'),
+      createAction('b', 'draw', 2000, 'brainstorm'),
+    ];
+    const pages = applyPageChange([agenda, brainstorm], { type: 'delete', pageId: 'brainstorm' });
+
+    expect(getActionsOnPages(actions, pages).map(action => action.id)).toEqual(['a']);
+  });
+
+  it('should create and rename pages', () => {
+    const pages = applyPageChange([agenda], { type: 'upsert', page: brainstorm });
+    expect(pages).toEqual([agenda, brainstorm]);
+
+    expect(applyPageChange(pages, { type: 'upsert', page: { ...agenda, name: 'Intro' } })).toEqual([
+      { ...agenda, name: 'Intro' },
+      brainstorm,
+    ]);
+  });
+
+  it('should move pages within the tab order', () => {
+    const pages = [agenda, brainstorm, decisions];
+
+    expect(applyPageChange(pages, { type: 'move', pageId: 'decisions', index: 0 })).toEqual([
+      decisions,
+      agenda,
+      brainstorm,
+    ]);
+    expect(applyPageChange(pages, { type: 'move', pageId: 'agenda', index: 10 })).toEqual([
+      brainstorm,
+      decisions,
+      agenda,
+    ]);
+  });
+
+  it('should delete pages but never the last one', () => {
+    expect(applyPageChange([agenda, brainstorm], { type: 'delete', pageId: 'agenda' })).toEqual([brainstorm]);
+    expect(applyPageChange([agenda], { type: 'delete', pageId: 'agenda' })).toEqual([agenda]);
+    expect(applyPageChange([agenda], { type: 'delete', pageId: 'missing' })).toEqual([agenda]);
+  });
+
+  it('should validate page changes', () => {
+    expect(validatePageChange({ type: 'upsert', page: agenda })).toBe(true);
+    expect(validatePageChange({ type: 'upsert', page: { id: '', name: 'Empty' } })).toBe(false);
+    expect(validatePageChange({ type: 'move', pageId: 'agenda', index: 1 })).toBe(true);
+    expect(validatePageChange({ type: 'move', pageId: 'agenda' })).toBe(false);
+    expect(validatePageChange({ type: 'delete', pageId: 'agenda' })).toBe(true);
+    expect(validatePageChange({ type: 'rename', pageId: 'agenda' })).toBe(false);
+  });
+});
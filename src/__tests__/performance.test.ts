@@ -0,0 +1,52 @@
+import { CanvasOptimizer, ImageOptimizer } from '@/lib/performance';
+
+describe('CanvasOptimizer.simplifyPath', () => {
+  it('should drop points that lie on a straight line', () => {
+    const points = [0, 1, 2, 3, 4, 5].map(x => ({ x: x * 10, y: 0 }));
+
+    expect(CanvasOptimizer.simplifyPath(points, 0.5)).toEqual([{ x: 0, y: 0 }, { x: 50, y: 0 }]);
+  });
+
+  it('should keep corners that deviate more than the tolerance', () => {
+    const points = [
+      { x: 0, y: 0 },
+      { x: 5, y: 0.1 },
+      { x: 10, y: 0 },
+      { x: 10, y: 5 },
+      { x: 10, y: 10 },
+    ];
+
+    expect(CanvasOptimizer.simplifyPath(points, 0.5)).toEqual([
+      { x: 0, y: 0 },
+      { x: 10, y: 0 },
+      { x: 10, y: 10 },
+    ]);
+  });
+
+  it('should keep the pressure of the points it keeps', () => {
+    const points = [
+      { x: 0, y: 0, pressure: 0.2 },
+      { x: 5, y: 0, pressure: 0.5 },
+      { x: 10, y: 10, pressure: 0.9 },
+    ];
+
+    expect(CanvasOptimizer.simplifyPath(points, 0.5)).toEqual(points);
+  });
+
+  it('should handle very long strokes', () => {
+    const points = Array.from({ length: 100000 }, (_, i) => ({ x: i, y: Math.sin(i / 1000) * 100 }));
+
+    const simplified = CanvasOptimizer.simplifyPath(points, 1);
+
+    expect(simplified.length).toBeLessThan(points.length / 10);
+    expect(simplified[0]).toBe(points[0]);
+    expect(simplified[simplified.length - 1]).toBe(points[points.length - 1]);
+  });
+});
+
+describe('ImageOptimizer.hasTransparency', () => {
+  it('should find pixels that are not fully opaque', () => {
+    expect(ImageOptimizer.hasTransparency(new Uint8ClampedArray([0, 0, 0, 255, 10, 20, 30, 255]))).toBe(false);
+    expect(ImageOptimizer.hasTransparency(new Uint8ClampedArray([0, 0, 0, 255, 10, 20, 30, 128]))).toBe(true);
+  });
+});
@@ -0,0 +1,231 @@
+import { renderAction, renderElements, smoothPoints, wrapText } from '@/lib/renderer';
+import { DrawingAction } from '@/types/whiteboard';
+
+describe('wrapText', () => {
+  // Every character is 10px wide
+  const ctx = {
+    measureText: (text: string) => ({ width: text.length * 10 }),
+  } as unknown as CanvasRenderingContext2D;
+
+  it('should keep short text on one line', () => {
+    expect(wrapText(ctx, 'hello world', 200)).toEqual(['hello world']);
+  });
+
+  it('should wrap words that exceed the width', () => {
+    expect(wrapText(ctx, 'one two three four', 90)).toEqual(['one two', 'three', 'four']);
+  });
+
+  it('should keep explicit line breaks', () => {
+    expect(wrapText(ctx, 'first\nsecond', 200)).toEqual(['first', 'second']);
+  });
+
+  it('should not split a single long word', () => {
+    expect(wrapText(ctx, 'supercalifragilistic', 50)).toEqual(['supercalifragilistic']);
+  });
+});
+
+describe('renderAction', () => {
+  const createContext = () =>
+    ({
+      save: jest.fn(),
+      restore: jest.fn(),
+      beginPath: jest.fn(),
+      moveTo: jest.fn(),
+      lineTo: jest.fn(),
+      quadraticCurveTo: jest.fn(),
+      arc: jest.fn(),
+      closePath: jest.fn(),
+      stroke: jest.fn(),
+      fill: jest.fn(),
+    } as unknown as CanvasRenderingContext2D & Record<string, jest.Mock>);
+
+  const stroke: DrawingAction = {
+    id: 'stroke1',
+    type: 'draw',
+    points: [{ x: 0, y: 0 }, { x: 10, y: 0 }],
+    color: '#000000',
+    strokeWidth: 4,
+    timestamp: 1000,
+    userId: 'user1',
+  };
+
+  it('should stroke a uniform line when points have no pressure', () => {
+    const ctx = createContext();
+    renderAction(ctx, stroke);
+
+    expect(ctx.stroke).toHaveBeenCalled();
+    expect(ctx.fill).not.toHaveBeenCalled();
+  });
+
+  it('should curve through the midpoints between samples', () => {
+    const ctx = createContext();
+    renderAction(ctx, {
+      ...stroke,
+      points: [{ x: 0, y: 0 }, { x: 10, y: 10 }, { x: 20, y: 0 }],
+    });
+
+    expect(ctx.quadraticCurveTo).toHaveBeenCalledWith(10, 10, 15, 5);
+    expect(ctx.lineTo).toHaveBeenLastCalledWith(20, 0);
+  });
+
+  it('should draw with the stored opacity and blend mode', () => {
+    const ctx = createContext();
+    renderAction(ctx, { ...stroke, tool: 'highlighter', opacity: 0.4, blendMode: 'multiply' });
+
+    expect(ctx.globalAlpha).toBe(0.4);
+    expect(ctx.globalCompositeOperation).toBe('multiply');
+  });
+
+  it('should fall back to the old fixed opacity for older strokes', () => {
+    const ctx = createContext();
+    renderAction(ctx, stroke);
+
+    expect(ctx.globalAlpha).toBe(0.8);
+    expect(ctx.globalCompositeOperation).toBe('source-over');
+  });
+
+  it('should keep highlighter strokes an even width under pressure', () => {
+    const ctx = createContext();
+    renderAction(ctx, {
+      ...stroke,
+      tool: 'highlighter',
+      points: [{ x: 0, y: 0, pressure: 0 }, { x: 10, y: 0, pressure: 1 }],
+    });
+
+    expect(ctx.stroke).toHaveBeenCalled();
+    expect(ctx.fill).not.toHaveBeenCalled();
+  });
+
+  it('should fill a variable-width outline when points have pressure', () => {
+    const ctx = createContext();
+    renderAction(ctx, {
+      ...stroke,
+      points: [{ x: 0, y: 0, pressure: 0 }, { x: 10, y: 0, pressure: 1 }],
+    });
+
+    expect(ctx.fill).toHaveBeenCalled();
+    expect(ctx.stroke).not.toHaveBeenCalled();
+    // Light pressure draws a thin dot, firm pressure a thick one
+    expect(ctx.arc).toHaveBeenCalledWith(0, 0, 0.5, 0, 2 * Math.PI);
+    expect(ctx.arc).toHaveBeenCalledWith(10, 0, 3.5, 0, 2 * Math.PI);
+  });
+});
+
+describe('renderAction for images', () => {
+  it('should draw a placeholder until the image has loaded', () => {
+    const ctx = {
+      save: jest.fn(),
+      restore: jest.fn(),
+      fillRect: jest.fn(),
+      strokeRect: jest.fn(),
+      drawImage: jest.fn(),
+    } as unknown as CanvasRenderingContext2D & Record<string, jest.Mock>;
+
+    renderAction(ctx, {
+      id: 'image1',
+      type: 'image',
+      points: [{ x: 10, y: 20 }],
+      color: '',
+      strokeWidth: 1,
+      width: 100,
+      height: 50,
+      src: '/api/assets/abc123',
+      timestamp: 1000,
+      userId: 'user1',
+    });
+
+    expect(ctx.drawImage).not.toHaveBeenCalled();
+    expect(ctx.fillRect).toHaveBeenCalledWith(10, 20, 100, 50);
+  });
+});
+
+describe('smoothPoints', () => {
+  it('should keep the end points and interpolate pressure', () => {
+    const points = [
+      { x: 0, y: 0, pressure: 0 },
+      { x: 10, y: 10, pressure: 0.5 },
+      { x: 20, y: 0, pressure: 1 },
+    ];
+
+    const smoothed = smoothPoints(points, 4);
+
+    expect(smoothed[0]).toEqual(points[0]);
+    expect(smoothed[smoothed.length - 1]).toEqual(points[2]);
+    expect(smoothed).toHaveLength(6);
+    expect(smoothed[4]).toEqual({ x: 15, y: 5, pressure: 0.75 });
+  });
+});
+
+describe('renderElements', () => {
+  it('should paint the background behind elements so erasing does not cut through it', () => {
+    const calls: string[] = [];
+    const ctx = {
+      setTransform: jest.fn(),
+      clearRect: jest.fn(),
+      save: jest.fn(),
+      restore: jest.fn(),
+      translate: jest.fn(),
+      scale: jest.fn(),
+      beginPath: jest.fn(),
+      moveTo: jest.fn(),
+      lineTo: jest.fn(),
+      stroke: jest.fn(),
+      fillRect: jest.fn(),
+      globalCompositeOperation: 'source-over',
+    } as unknown as CanvasRenderingContext2D;
+    (ctx.lineTo as jest.Mock).mockImplementation(() => calls.push(`stroke:${ctx.globalCompositeOperation}`));
+    (ctx.fillRect as jest.Mock).mockImplementation(() => calls.push(`background:${ctx.globalCompositeOperation}`));
+
+    renderElements(ctx, [
+      {
+        id: 'erase1',
+        type: 'erase',
+        points: [{ x: 0, y: 0 }, { x: 10, y: 0 }],
+        color: '#000000',
+        strokeWidth: 4,
+        timestamp: 1000,
+        userId: 'user1',
+      },
+    ], 100, 100);
+
+    expect(calls[0]).toBe('stroke:destination-out');
+    expect(calls[calls.length - 1]).toBe('background:destination-over');
+  });
+
+  it('should draw a layer that erases on its own canvas so layers beneath stay intact', () => {
+    const ctx = {
+      setTransform: jest.fn(),
+      clearRect: jest.fn(),
+      save: jest.fn(),
+      restore: jest.fn(),
+      translate: jest.fn(),
+      scale: jest.fn(),
+      beginPath: jest.fn(),
+      moveTo: jest.fn(),
+      lineTo: jest.fn(),
+      stroke: jest.fn(),
+      fillRect: jest.fn(),
+      drawImage: jest.fn(),
+    } as unknown as CanvasRenderingContext2D;
+    const stroke: DrawingAction = {
+      id: 'stroke1',
+      type: 'draw',
+      points: [{ x: 0, y: 0 }, { x: 10, y: 0 }],
+      color: '#000000',
+      strokeWidth: 4,
+      timestamp: 1000,
+      userId: 'user1',
+      layerId: 'background',
+    };
+
+    renderElements(ctx, [
+      stroke,
+      { ...stroke, id: 'stroke2', layerId: 'sketch' },
+      { ...stroke, id: 'erase1', type: 'erase', layerId: 'sketch' },
+    ], 100, 100);
+
+    // The background stroke is drawn directly, the sketch layer is composited on top
+    expect(ctx.lineTo).toHaveBeenCalledTimes(1);
+    expect(ctx.drawImage).toHaveBeenCalledTimes(1);
+  });
+});
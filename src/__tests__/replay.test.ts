@@ -0,0 +1,76 @@
+import {
+  buildReplayTimeline,
+  getReplayContributors,
+  getReplayElements,
+  getReplayIndex,
+  getReplayTime,
+} from '@/lib/replay';
+import { createStroke } from '@/test-utils/actions';
+
+describe('buildReplayTimeline', () => {
+  it('should keep short gaps and shorten long breaks', () => {
+    const timeline = buildReplayTimeline(
+      [createStroke('c', 100_000, { userId: 'alice' }), createStroke('a', 1000, { userId: 'alice' }), createStroke('b', 1500, { userId: 'bob' })],
+      2000
+    );
+
+    expect(timeline.actions.map(action => action.id)).toEqual(['a', 'b', 'c']);
+    expect(timeline.offsets).toEqual([0, 500, 2500]);
+    expect(timeline.duration).toBe(2500);
+  });
+
+  it('should handle an empty board', () => {
+    const timeline = buildReplayTimeline([]);
+    expect(timeline.duration).toBe(0);
+    expect(getReplayTime(timeline, 0)).toBeNull();
+  });
+});
+
+describe('getReplayIndex', () => {
+  it('should count the actions that have happened by a position', () => {
+    const timeline = buildReplayTimeline([
+      createStroke('a', 1000, { userId: 'alice' }),
+      createStroke('b', 1500, { userId: 'bob' }),
+      createStroke('c', 1600, { userId: 'alice' }),
+    ]);
+
+    expect(getReplayIndex(timeline, 0)).toBe(1);
+    expect(getReplayIndex(timeline, 499)).toBe(1);
+    expect(getReplayIndex(timeline, 500)).toBe(2);
+    expect(getReplayIndex(timeline, 10_000)).toBe(3);
+    expect(getReplayTime(timeline, 2)).toBe(1500);
+  });
+});
+
+describe('getReplayElements', () => {
+  const timeline = buildReplayTimeline([
+    createStroke('a', 1000, { userId: 'alice' }),
+    createStroke('b', 1500, { userId: 'bob' }),
+    {
+      id: 'move',
+      type: 'update',
+      points: [],
+      color: '',
+      strokeWidth: 0,
+      changes: { a: { color: '#ff0000' } },
+      timestamp: 2000,
+      userId: 'bob',
+    },
+  ]);
+
+  it('should show the board as it was after the given number of actions', () => {
+    expect(getReplayElements(timeline, 1).map(element => element.id)).toEqual(['a']);
+    expect(getReplayElements(timeline, 2).map(element => element.id)).toEqual(['a', 'b']);
+    expect(getReplayElements(timeline, 3)[0].color).toBe('#ff0000');
+  });
+
+  it("should filter to one collaborator's elements, including later edits to them", () => {
+    const elements = getReplayElements(timeline, 3, 'alice');
+    expect(elements.map(element => element.id)).toEqual(['a']);
+    expect(elements[0].color).toBe('#ff0000');
+  });
+
+  it('should list contributors in the order they first acted', () => {
+    expect(getReplayContributors(timeline)).toEqual(['alice', 'bob']);
+  });
+});
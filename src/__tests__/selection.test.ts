@@ -0,0 +1,199 @@
+import {
+  duplicateSelection,
+  findElementsInBounds,
+  findElementsInLasso,
+  findHandleAt,
+  getSelectionFrame,
+  isPointInPolygon,
+  restyleSelection,
+  rotateSelection,
+  scaleSelection,
+} from '@/lib/selection';
+import { getElementCenter } from '@/lib/elements';
+import { DrawingAction } from '@/types/whiteboard';
+
+const rectangle: DrawingAction = {
+  id: 'shape1',
+  type: 'shape',
+  shape: 'rectangle',
+  points: [{ x: 0, y: 0 }, { x: 100, y: 50 }],
+  color: '#000000',
+  strokeWidth: 2,
+  timestamp: 1000,
+  userId: 'user1',
+};
+
+describe('getSelectionFrame', () => {
+  it('should use the bounds and rotation of a single element', () => {
+    const frame = getSelectionFrame([{ ...rectangle, rotation: 0.5 }]);
+
+    expect(frame?.bounds).toEqual({ x: 0, y: 0, width: 100, height: 50 });
+    expect(frame?.rotation).toBe(0.5);
+  });
+
+  it('should return null for an empty selection', () => {
+    expect(getSelectionFrame([])).toBeNull();
+  });
+});
+
+describe('findHandleAt', () => {
+  it('should find corner and rotate handles', () => {
+    const frame = getSelectionFrame([rectangle])!;
+
+    expect(findHandleAt(frame, { x: 101, y: 51 })).toBe('se');
+    expect(findHandleAt(frame, { x: 50, y: -24 })).toBe('rotate');
+    expect(findHandleAt(frame, { x: 50, y: 25 })).toBeNull();
+  });
+});
+
+describe('scaleSelection', () => {
+  it('should keep the opposite corner in place', () => {
+    const frame = getSelectionFrame([rectangle])!;
+    const changes = scaleSelection([rectangle], frame, 'se', { x: 200, y: 100 });
+
+    expect(changes.shape1.points).toEqual([{ x: 0, y: 0 }, { x: 200, y: 100 }]);
+  });
+
+  it('should keep the opposite corner in place for rotated elements', () => {
+    const rotated = { ...rectangle, rotation: Math.PI / 2 };
+    const frame = getSelectionFrame([rotated])!;
+    // With a quarter turn the local north-west corner sits at the top right on screen
+    const before = { x: 75, y: -25 };
+    const changes = scaleSelection([rotated], frame, 'se', { x: -25, y: 175 });
+    const scaled = { ...rotated, ...changes.shape1 };
+    const center = getElementCenter(scaled);
+    const nw = scaled.points[0];
+    const after = {
+      x: center.x - (nw.y - center.y),
+      y: center.y + (nw.x - center.x),
+    };
+
+    expect(after.x).toBeCloseTo(before.x);
+    expect(after.y).toBeCloseTo(before.y);
+  });
+});
+
+describe('rotateSelection', () => {
+  it('should rotate a single element around its own centre', () => {
+    const frame = getSelectionFrame([rectangle])!;
+    const changes = rotateSelection([rectangle], frame, Math.PI / 4);
+
+    expect(changes.shape1.rotation).toBeCloseTo(Math.PI / 4);
+    expect(changes.shape1.points).toEqual(rectangle.points);
+  });
+});
+
+const stroke: DrawingAction = {
+  id: 'stroke1',
+  type: 'draw',
+  points: [{ x: 200, y: 200 }, { x: 220, y: 210 }],
+  color: '#000000',
+  strokeWidth: 2,
+  timestamp: 2000,
+  userId: 'user1',
+};
+
+const note: DrawingAction = {
+  id: 'note1',
+  type: 'sticky',
+  points: [{ x: 300, y: 0 }],
+  color: '#1f2937',
+  strokeWidth: 1,
+  width: 100,
+  height: 100,
+  fill: '#fef08a',
+  text: { content: 'Idea', fontSize: 16, align: 'left' },
+  timestamp: 3000,
+  userId: 'user1',
+};
+
+describe('findElementsInBounds', () => {
+  it('should select only elements entirely inside the marquee', () => {
+    const found = findElementsInBounds([rectangle, stroke, note], { x: -10, y: -10, width: 250, height: 250 });
+
+    expect(found.map(element => element.id)).toEqual(['shape1', 'stroke1']);
+  });
+
+  it('should account for rotation', () => {
+    const rotated = { ...rectangle, rotation: Math.PI / 2 };
+
+    expect(findElementsInBounds([rotated], { x: -10, y: -10, width: 120, height: 70 })).toEqual([]);
+    expect(findElementsInBounds([rotated], { x: 20, y: -30, width: 60, height: 110 })).toEqual([rotated]);
+  });
+});
+
+describe('findElementsInLasso', () => {
+  const lasso = [
+    { x: 180, y: 180 },
+    { x: 260, y: 180 },
+    { x: 260, y: 240 },
+    { x: 180, y: 240 },
+  ];
+
+  it('should select elements inside the loop', () => {
+    expect(findElementsInLasso([rectangle, stroke], lasso)).toEqual([stroke]);
+  });
+
+  it('should need at least a triangle', () => {
+    expect(findElementsInLasso([stroke], lasso.slice(0, 2))).toEqual([]);
+  });
+});
+
+describe('isPointInPolygon', () => {
+  it('should handle concave loops', () => {
+    const shape = [
+      { x: 0, y: 0 },
+      { x: 100, y: 0 },
+      { x: 100, y: 100 },
+      { x: 50, y: 20 },
+      { x: 0, y: 100 },
+    ];
+
+    expect(isPointInPolygon({ x: 50, y: 10 }, shape)).toBe(true);
+    expect(isPointInPolygon({ x: 50, y: 60 }, shape)).toBe(false);
+  });
+});
+
+describe('restyleSelection', () => {
+  it('should change the color of every element in one set of changes', () => {
+    expect(restyleSelection([rectangle, note], { color: '#ef4444' })).toEqual({
+      shape1: { color: '#ef4444' },
+      note1: { color: '#ef4444' },
+    });
+  });
+
+  it('should only change the stroke width of elements with an outline', () => {
+    expect(restyleSelection([stroke, note], { strokeWidth: 8 })).toEqual({
+      stroke1: { strokeWidth: 8 },
+    });
+  });
+});
+
+describe('duplicateSelection', () => {
+  it('should copy elements under new ids at an offset', () => {
+    const [copy] = duplicateSelection([stroke], 20, 20);
+
+    expect(copy.id).not.toBe(stroke.id);
+    expect(copy.points).toEqual([{ x: 220, y: 220 }, { x: 240, y: 230 }]);
+    expect(copy.color).toBe(stroke.color);
+  });
+
+  it('should bind copied connectors to the copies of the elements they join', () => {
+    const connector: DrawingAction = {
+      id: 'connector1',
+      type: 'connector',
+      points: [{ x: 0, y: 0 }, { x: 100, y: 0 }],
+      color: '#000000',
+      strokeWidth: 2,
+      startBinding: rectangle.id,
+      endBinding: 'elsewhere',
+      timestamp: 3000,
+      userId: 'user1',
+    };
+
+    const [rectangleCopy, connectorCopy] = duplicateSelection([rectangle, connector], 20, 20);
+
+    expect(connectorCopy.startBinding).toBe(rectangleCopy.id);
+    expect(connectorCopy.endBinding).toBe('elsewhere');
+  });
+});
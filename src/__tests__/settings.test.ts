@@ -0,0 +1,43 @@
+import { DEFAULT_SETTINGS, getSettings, sanitizeSettings, snapPoint, validateSettings } from '@/lib/settings';
+
+describe('validateSettings', () => {
+  it('should accept partial settings updates', () => {
+    expect(validateSettings({ gridEnabled: true })).toBe(true);
+    expect(validateSettings({ gridStyle: 'lines', gridSize: 40 })).toBe(true);
+  });
+
+  it('should reject malformed settings', () => {
+    expect(validateSettings(null)).toBe(false);
+    expect(validateSettings([])).toBe(false);
+    expect(validateSettings({ gridEnabled: 'yes' })).toBe(false);
+    expect(validateSettings({ gridStyle: 'hexagons' })).toBe(false);
+    expect(validateSettings({ gridSize: NaN })).toBe(false);
+  });
+});
+
+describe('sanitizeSettings', () => {
+  it('should clamp the grid size and drop unknown fields', () => {
+    const sanitized = sanitizeSettings({ gridSize: 1000, extra: true } as any);
+
+    expect(sanitized).toEqual({ gridSize: 200 });
+  });
+});
+
+describe('getSettings', () => {
+  it('should fill in defaults for boards without settings', () => {
+    expect(getSettings()).toEqual(DEFAULT_SETTINGS);
+    expect(getSettings({ gridEnabled: true }).gridSize).toBe(DEFAULT_SETTINGS.gridSize);
+  });
+});
+
+describe('snapPoint', () => {
+  it('should snap to the nearest grid intersection when snapping is on', () => {
+    const settings = getSettings({ snapToGrid: true, gridSize: 20 });
+
+    expect(snapPoint({ x: 29, y: -11 }, settings)).toEqual({ x: 20, y: -20 });
+  });
+
+  it('should leave points alone when snapping is off', () => {
+    expect(snapPoint({ x: 29, y: 11 }, DEFAULT_SETTINGS)).toEqual({ x: 29, y: 11 });
+  });
+});
@@ -0,0 +1,126 @@
+import { getBatchActions, getUndoStacks } from '@/lib/undo';
+import { resolveElements } from '@/lib/elements';
+import { DrawingAction } from '@/types/whiteboard';
+import { createStroke } from '@/test-utils/actions';
+
+function createUndoRedo(
+  id: string,
+  type: 'undo' | 'redo',
+  targetId: string,
+  timestamp: number,
+  userId = 'user1'
+): DrawingAction {
+  return {
+    id,
+    type,
+    points: [],
+    color: '',
+    strokeWidth: 0,
+    targetIds: [targetId],
+    timestamp,
+    userId,
+  };
+}
+
+describe('getUndoStacks', () => {
+  it('should only contain the user\'s own actions', () => {
+    const actions = [
+      createStroke('stroke1', 1000),
+      createStroke('stroke2', 2000, { userId: 'user2' }),
+      createStroke('stroke3', 3000),
+    ];
+
+    expect(getUndoStacks(actions, 'user1')).toEqual({ undo: ['stroke1', 'stroke3'], redo: [] });
+    expect(getUndoStacks(actions, 'user2')).toEqual({ undo: ['stroke2'], redo: [] });
+  });
+
+  it('should move undone actions to the redo stack and back', () => {
+    const actions = [
+      createStroke('stroke1', 1000),
+      createStroke('stroke2', 2000),
+      createUndoRedo('undo1', 'undo', 'stroke2', 3000),
+      createUndoRedo('undo2', 'undo', 'stroke1', 4000),
+      createUndoRedo('redo1', 'redo', 'stroke1', 5000),
+    ];
+
+    expect(getUndoStacks(actions, 'user1')).toEqual({ undo: ['stroke1'], redo: ['stroke2'] });
+  });
+
+  it('should clear the redo stack when the user does something new', () => {
+    const actions = [
+      createStroke('stroke1', 1000),
+      createUndoRedo('undo1', 'undo', 'stroke1', 2000),
+      createStroke('stroke2', 3000),
+    ];
+
+    expect(getUndoStacks(actions, 'user1')).toEqual({ undo: ['stroke2'], redo: [] });
+  });
+
+  it('should keep the redo stack while other users keep drawing', () => {
+    const actions = [
+      createStroke('stroke1', 1000),
+      createUndoRedo('undo1', 'undo', 'stroke1', 2000),
+      createStroke('stroke2', 3000, { userId: 'user2' }),
+    ];
+
+    expect(getUndoStacks(actions, 'user1')).toEqual({ undo: [], redo: ['stroke1'] });
+  });
+});
+
+describe('getBatchActions', () => {
+  it('should undo a whole batch together and other actions alone', () => {
+    const actions = [
+      createStroke('stroke1', 1000),
+      { ...createStroke('restore1', 2000), batchId: 'batch1', pageId: 'agenda' },
+      { ...createStroke('restore2', 2000), batchId: 'batch1', pageId: 'notes' },
+      { ...createUndoRedo('undo1', 'undo', 'restore1', 3000), batchId: 'batch1' },
+    ];
+
+    expect(getBatchActions(actions, 'restore2').map(action => action.id)).toEqual(['restore1', 'restore2']);
+    expect(getBatchActions(actions, 'stroke1').map(action => action.id)).toEqual(['stroke1']);
+    expect(getBatchActions(actions, 'missing')).toEqual([]);
+  });
+});
+
+describe('resolveElements with undo and redo', () => {
+  it('should skip undone actions and restore redone ones', () => {
+    const stroke = createStroke('stroke1', 1000);
+    const other = createStroke('stroke2', 2000, { userId: 'user2' });
+    const undo = createUndoRedo('undo1', 'undo', 'stroke1', 3000);
+    const redo = createUndoRedo('redo1', 'redo', 'stroke1', 4000);
+
+    expect(resolveElements([stroke, other, undo]).map(element => element.id)).toEqual(['stroke2']);
+    expect(resolveElements([stroke, other, undo, redo]).map(element => element.id)).toEqual(['stroke1', 'stroke2']);
+  });
+
+  it('should bring elements back when a clear is undone', () => {
+    const clear: DrawingAction = {
+      id: 'clear1',
+      type: 'clear',
+      points: [],
+      color: '#ffffff',
+      strokeWidth: 0,
+      timestamp: 2000,
+      userId: 'user2',
+    };
+
+    const elements = resolveElements([
+      createStroke('stroke1', 1000),
+      clear,
+      createStroke('stroke2', 3000),
+      createUndoRedo('undo1', 'undo', 'clear1', 4000, 'user2'),
+    ]);
+
+    expect(elements.map(element => element.id)).toEqual(['stroke1', 'stroke2']);
+  });
+
+  it('should converge regardless of arrival order', () => {
+    const actions = [
+      createStroke('stroke1', 1000),
+      createStroke('stroke2', 2000, { userId: 'user2' }),
+      createUndoRedo('undo1', 'undo', 'stroke1', 3000),
+    ];
+
+    expect(resolveElements([...actions].reverse())).toEqual(resolveElements(actions));
+  });
+});
@@ -0,0 +1,181 @@
+import {
+  AUTO_VERSION_NAME,
+  addVersion,
+  createVersion,
+  getMissingPages,
+  getNextVersionName,
+  getRestoreActions,
+  getRestoredPageAction,
+  getVersionElements,
+  isAutoVersionDue,
+  summarizeVersion,
+  validateVersionName,
+} from '@/lib/versions';
+import { resolveElements } from '@/lib/elements';
+import { resolveGroups } from '@/lib/groups';
+import { getPageActions } from '@/lib/pages';
+import { getUndoStacks } from '@/lib/undo';
+import { BoardVersion, DrawingAction, Page, WhiteboardState } from '@/types/whiteboard';
+import { createOp, createStroke } from '@/test-utils/actions';
+
+function createState(actions: DrawingAction[], pages?: Page[]): WhiteboardState {
+  return {
+    id: 'board',
+    name: 'Board',
+    actions,
+    lastModified: actions.reduce((latest, action) => Math.max(latest, action.timestamp), 0),
+    createdBy: 'user1',
+    collaborators: [],
+    pages,
+  };
+}
+
+describe('versions', () => {
+  const agenda: Page = { id: 'agenda', name: 'Agenda' };
+  const notes: Page = { id: 'notes', name: 'Notes' };
+  const minute = 60 * 1000;
+
+  it('should require a name', () => {
+    expect(validateVersionName('Before review')).toBe(true);
+    expect(validateVersionName('   ')).toBe(false);
+    expect(validateVersionName(undefined)).toBe(false);
+  });
+
+  it('should copy the board into a version and list it without its content', () => {
+    const state = createState([createStroke('a', 1000, { pageId: 'agenda' })], [agenda]);
+    const version = createVersion(state, '  Draft  ', 'user1', false, 5000);
+
+    expect(version).toMatchObject({ name: 'Draft', createdAt: 5000, createdBy: 'user1', automatic: false });
+    expect(version.actions).toEqual(state.actions);
+    expect(version.actions).not.toBe(state.actions);
+    expect(version.pages).toEqual([agenda]);
+
+    expect(summarizeVersion(version)).toEqual({
+      id: version.id,
+      name: 'Draft',
+      createdAt: 5000,
+      createdBy: 'user1',
+      automatic: false,
+    });
+  });
+
+  it('should suggest names after the versions saved by hand', () => {
+    const state = createState([]);
+    const versions = [
+      createVersion(state, 'Draft', 'user1'),
+      createVersion(state, AUTO_VERSION_NAME, 'server', true),
+    ];
+
+    expect(getNextVersionName([])).toBe('Version 1');
+    expect(getNextVersionName(versions)).toBe('Version 2');
+  });
+
+  it('should drop the oldest automatic versions first once there are too many', () => {
+    const state = createState([]);
+    const named = createVersion(state, 'Named', 'user1');
+    const firstAuto = createVersion(state, AUTO_VERSION_NAME, 'server', true);
+    const secondAuto = createVersion(state, AUTO_VERSION_NAME, 'server', true);
+    const latest = createVersion(state, 'Latest', 'user1');
+
+    expect(addVersion([named, firstAuto, secondAuto], latest, 3)).toEqual([named, secondAuto, latest]);
+    expect(addVersion([named], latest, 1)).toEqual([latest]);
+  });
+
+  it('should save automatically once a changed board has gone an interval without a version', () => {
+    const state = createState([createStroke('a', 1000)]);
+
+    expect(isAutoVersionDue(createState([]), [], 20 * minute, 10 * minute)).toBe(false);
+    expect(isAutoVersionDue(state, [], 1000 + 9 * minute, 10 * minute)).toBe(false);
+    expect(isAutoVersionDue(state, [], 1000 + 10 * minute, 10 * minute)).toBe(true);
+
+    // Nothing has changed since the last version
+    const saved = createVersion(state, AUTO_VERSION_NAME, 'server', true, 2000);
+    expect(isAutoVersionDue(state, [saved], 30 * minute, 10 * minute)).toBe(false);
+
+    const edited = createState([...state.actions, createStroke('b', 3000)]);
+    expect(isAutoVersionDue(edited, [saved], 2000 + 9 * minute, 10 * minute)).toBe(false);
+    expect(isAutoVersionDue(edited, [saved], 2000 + 10 * minute, 10 * minute)).toBe(true);
+  });
+
+  describe('restoring', () => {
+    let version: BoardVersion;
+
+    beforeEach(() => {
+      version = createVersion(
+        createState([createStroke('a', 1000, { pageId: 'agenda' }), createStroke('b', 2000, { pageId: 'notes' })], [agenda, notes]),
+        'Draft',
+        'user1'
+      );
+    });
+
+    it('should resolve each page of the version', () => {
+      expect(getVersionElements(version, 'agenda').map(element => element.id)).toEqual(['a']);
+      expect(getVersionElements(version, 'notes').map(element => element.id)).toEqual(['b']);
+    });
+
+    it('should bring back deleted pages and empty pages added since', () => {
+      const ideas: Page = { id: 'ideas', name: 'Ideas' };
+      const restores = getRestoreActions(version, [agenda, ideas], 'user2', 9000);
+
+      expect(getMissingPages(version, [agenda, ideas])).toEqual([notes]);
+      expect(restores.map(action => [action.pageId, action.elements?.map(element => element.id)])).toEqual([
+        ['agenda', ['a']],
+        ['ideas', []],
+        ['notes', ['b']],
+      ]);
+      expect(restores.every(action => action.type === 'restore' && action.name === 'Draft')).toBe(true);
+    });
+
+    it('should make one batch that remembers the pages it brought back', () => {
+      const restores = getRestoreActions(version, [agenda], 'user2', 9000);
+
+      expect(new Set(restores.map(action => action.batchId)).size).toBe(1);
+      expect(restores[0].restoredPages).toEqual([{ page: notes, elements: getVersionElements(version, 'notes'), groups: [] }]);
+      expect(restores[1].restoredPages).toBeUndefined();
+
+      // Redo re-creates a page that undo removed, as part of the same batch
+      const again = getRestoredPageAction(restores[0].restoredPages![0], restores[0], 'user2', 12000);
+      expect(again).toMatchObject({ type: 'restore', pageId: 'notes', batchId: restores[0].batchId, name: 'Draft' });
+      expect(again.elements?.map(element => element.id)).toEqual(['b']);
+    });
+
+    it('should replace the live page and undo back to it', () => {
+      const live = [
+        createStroke('a', 1000, { pageId: 'agenda' }),
+        { ...createStroke('c', 3000, { pageId: 'agenda' }), userId: 'user2' },
+      ];
+      const [restore] = getRestoreActions(version, [agenda], 'user2', 9000);
+      const actions = [...live, restore];
+
+      expect(resolveElements(getPageActions(actions, 'agenda')).map(element => element.id)).toEqual(['a']);
+
+      const stacks = getUndoStacks(actions, 'user2');
+      expect(stacks.undo[stacks.undo.length - 1]).toBe(restore.id);
+
+      const undo = createOp('undo1', 'undo', 10000, { targetIds: [restore.id], userId: 'user2', pageId: 'agenda' });
+      expect(resolveElements(getPageActions([...actions, undo], 'agenda')).map(element => element.id)).toEqual([
+        'a',
+        'c',
+      ]);
+    });
+
+    it('should bring back the groups of the version and drop those made since', () => {
+      const group = (id: string, targetIds: string[], timestamp: number) =>
+        createOp(id, 'group', timestamp, { targetIds, pageId: 'agenda' });
+      const grouped = [createStroke('a', 1000, { pageId: 'agenda' }), createStroke('b', 1001, { pageId: 'agenda' }), group('kept', ['a', 'b'], 2000)];
+      const saved = createVersion(createState(grouped, [agenda]), 'Grouped', 'user1');
+      const live = [
+        ...grouped,
+        { ...group('ungroup1', ['kept'], 3000), type: 'ungroup' as const },
+        group('later', ['a', 'b'], 4000),
+      ];
+      const [restore] = getRestoreActions(saved, [agenda], 'user2', 9000);
+      const actions = [...live, restore];
+
+      expect(restore.groups).toEqual([{ id: 'kept', name: 'Group', memberIds: ['a', 'b'] }]);
+      expect(resolveGroups(actions, resolveElements(actions))).toEqual([
+        { id: 'kept', name: 'Group', memberIds: ['a', 'b'] },
+      ]);
+    });
+  });
+});
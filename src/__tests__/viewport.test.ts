@@ -0,0 +1,57 @@
+import {
+  MAX_ZOOM,
+  fitViewport,
+  panViewport,
+  screenToWorld,
+  worldToScreen,
+  zoomViewport,
+} from '@/lib/viewport';
+import { Viewport } from '@/types/whiteboard';
+
+describe('screenToWorld and worldToScreen', () => {
+  it('should convert between screen and world coordinates', () => {
+    const viewport: Viewport = { x: 100, y: -50, zoom: 2 };
+
+    expect(screenToWorld({ x: 40, y: 60 }, viewport)).toEqual({ x: 120, y: -20 });
+    expect(worldToScreen({ x: 120, y: -20 }, viewport)).toEqual({ x: 40, y: 60 });
+  });
+});
+
+describe('panViewport', () => {
+  it('should move the view opposite to the drag in world units', () => {
+    expect(panViewport({ x: 0, y: 0, zoom: 2 }, 20, -10)).toEqual({ x: -10, y: 5, zoom: 2 });
+  });
+});
+
+describe('zoomViewport', () => {
+  it('should keep the world point under the anchor in place', () => {
+    const viewport: Viewport = { x: 10, y: 20, zoom: 1 };
+    const anchor = { x: 200, y: 150 };
+    const before = screenToWorld(anchor, viewport);
+
+    const zoomed = zoomViewport(viewport, 2, anchor);
+
+    expect(zoomed.zoom).toBe(2);
+    expect(screenToWorld(anchor, zoomed)).toEqual(before);
+  });
+
+  it('should clamp the zoom level', () => {
+    expect(zoomViewport({ x: 0, y: 0, zoom: 4 }, 10, { x: 0, y: 0 }).zoom).toBe(MAX_ZOOM);
+  });
+});
+
+describe('fitViewport', () => {
+  it('should centre the bounds and shrink large content to fit', () => {
+    const viewport = fitViewport({ x: 0, y: 0, width: 2000, height: 1000 }, 1000, 500, 0);
+
+    expect(viewport.zoom).toBe(0.5);
+    expect(worldToScreen({ x: 1000, y: 500 }, viewport)).toEqual({ x: 500, y: 250 });
+  });
+
+  it('should not zoom in past 100% on small content', () => {
+    const viewport = fitViewport({ x: -20, y: -20, width: 40, height: 40 }, 800, 600);
+
+    expect(viewport.zoom).toBe(1);
+    expect(worldToScreen({ x: 0, y: 0 }, viewport)).toEqual({ x: 400, y: 300 });
+  });
+});
@@ -0,0 +1,70 @@
+import { getTimestampKey, keyBetween, reorderElements, sortByOrder } from '@/lib/zorder';
+import { resolveElements } from '@/lib/elements';
+import { DrawingAction } from '@/types/whiteboard';
+import { createStroke, createUpdate } from '@/test-utils/actions';
+
+const NOW = 10000;
+const stack = [createStroke('a', 1000), createStroke('b', 2000), createStroke('c', 3000), createStroke('d', 4000)];
+
+function applyChanges(elements: DrawingAction[], changes: DrawingAction['changes']): string[] {
+  return sortByOrder(elements.map(element => ({ ...element, ...changes?.[element.id] }))).map(element => element.id);
+}
+
+describe('keyBetween', () => {
+  it('should always find a key between two others', () => {
+    let below = getTimestampKey(1000);
+    const above = getTimestampKey(1001);
+
+    for (let i = 0; i < 50; i++) {
+      const key = keyBetween(below, above);
+      expect(key > below && key < above).toBe(true);
+      below = key;
+    }
+  });
+
+  it('should find keys below and above everything', () => {
+    const key = getTimestampKey(1000);
+
+    expect(keyBetween(null, key) < key).toBe(true);
+    expect(keyBetween(key, null) > key).toBe(true);
+  });
+});
+
+describe('reorderElements', () => {
+  it('should bring elements to the front and send them to the back', () => {
+    expect(applyChanges(stack, reorderElements(stack, ['a', 'b'], 'front', NOW))).toEqual(['c', 'd', 'a', 'b']);
+    expect(applyChanges(stack, reorderElements(stack, ['d'], 'back', NOW))).toEqual(['d', 'a', 'b', 'c']);
+  });
+
+  it('should step elements forward and backward past one neighbour', () => {
+    expect(applyChanges(stack, reorderElements(stack, ['a'], 'forward', NOW))).toEqual(['b', 'a', 'c', 'd']);
+    expect(applyChanges(stack, reorderElements(stack, ['c'], 'backward', NOW))).toEqual(['a', 'c', 'b', 'd']);
+  });
+
+  it('should only change the order of the selected elements', () => {
+    expect(Object.keys(reorderElements(stack, ['b'], 'front', NOW))).toEqual(['b']);
+  });
+
+  it('should do nothing when the selection is already in place', () => {
+    expect(reorderElements(stack, ['d'], 'front', NOW)).toEqual({});
+  });
+
+  it('should keep elements drawn later on top of one brought to the front', () => {
+    const changes = reorderElements(stack, ['a'], 'front', NOW);
+
+    expect(applyChanges([...stack, createStroke('e', NOW + 5)], changes)).toEqual(['b', 'c', 'd', 'a', 'e']);
+  });
+});
+
+describe('concurrent reorders', () => {
+  it('should converge whatever order the updates arrive in', () => {
+    const first = createUpdate('update1', 5000, reorderElements(stack, ['a'], 'front', NOW));
+    const second = createUpdate('update2', 5000, reorderElements(stack, ['d'], 'back', NOW));
+
+    const one = resolveElements([...stack, first, second]).map(element => element.id);
+    const other = resolveElements([second, ...stack, first]).map(element => element.id);
+
+    expect(one).toEqual(other);
+    expect(one).toEqual(['d', 'b', 'c', 'a']);
+  });
+});
@@ -0,0 +1,125 @@
+import React from "react";
+import { GridStyle, WhiteboardSettings } from "@/types/whiteboard";
+import { cn } from "@/lib/utils";
+
+interface BoardSettingsPanelProps {
+  settings: WhiteboardSettings;
+  onSettingsChange: (settings: Partial<WhiteboardSettings>) => void;
+  className?: string;
+}
+
+const BACKGROUND_COLORS = [
+  { color: "#ffffff", label: "White" },
+  { color: "#f8fafc", label: "Light gray" },
+  { color: "#fefce8", label: "Cream" },
+  { color: "#f0f9ff", label: "Light blue" },
+  { color: "#1f2937", label: "Dark" },
+];
+
+const GRID_SIZES = [10, 20, 40, 80];
+
+const GRID_STYLE_OPTIONS: { style: GridStyle; label: string }[] = [
+  { style: "dots", label: "Dots" },
+  { style: "lines", label: "Lines" },
+];
+
+export function BoardSettingsPanel({
+  settings,
+  onSettingsChange,
+  className,
+}: BoardSettingsPanelProps) {
+  return (
+    <div
+      className={cn(
+        "bg-white border border-gray-200 rounded-lg shadow-sm p-4",
+        className
+      )}
+    >
+      <h3 className="text-sm font-medium text-gray-700 mb-3">Board</h3>
+
+      <div className="space-y-4">
+        {/* Background */}
+        <div>
+          <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">
+            Background
+          </h4>
+          <div className="flex space-x-2">
+            {BACKGROUND_COLORS.map(({ color, label }) => (
+              <button
+                key={color}
+                onClick={() => onSettingsChange({ backgroundColor: color })}
+                className={cn(
+                  "w-8 h-8 rounded-md border-2 transition-all hover:scale-110",
+                  settings.backgroundColor === color
+                    ? "border-gray-800 ring-2 ring-gray-300"
+                    : "border-gray-200 hover:border-gray-400"
+                )}
+                style={{ backgroundColor: color }}
+                title={`${label} background`}
+              />
+            ))}
+          </div>
+        </div>
+
+        {/* Grid */}
+        <div className="space-y-2">
+          <label className="flex items-center justify-between text-sm text-gray-700">
+            <span>Show grid</span>
+            <input
+              type="checkbox"
+              checked={settings.gridEnabled}
+              onChange={(e) => onSettingsChange({ gridEnabled: e.target.checked })}
+              className="rounded border-gray-300"
+            />
+          </label>
+
+          <label className="flex items-center justify-between text-sm text-gray-700">
+            <span>Snap to grid</span>
+            <input
+              type="checkbox"
+              checked={settings.snapToGrid}
+              onChange={(e) => onSettingsChange({ snapToGrid: e.target.checked })}
+              className="rounded border-gray-300"
+            />
+          </label>
+
+          <div className="flex space-x-2">
+            {GRID_STYLE_OPTIONS.map(({ style, label }) => (
+              <button
+                key={style}
+                onClick={() => onSettingsChange({ gridStyle: style })}
+                className={cn(
+                  "flex-1 py-1 rounded-md border text-xs transition-colors",
+                  settings.gridStyle === style
+                    ? "border-blue-500 bg-blue-50 text-blue-700"
+                    : "border-gray-200 hover:border-gray-300"
+                )}
+                title={`${label} grid`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-4 gap-1">
+            {GRID_SIZES.map((size) => (
+              <button
+                key={size}
+                onClick={() => onSettingsChange({ gridSize: size })}
+                className={cn(
+                  "py-1 rounded-md border text-xs transition-colors",
+                  settings.gridSize === size
+                    ? "border-blue-500 bg-blue-50 text-blue-700"
+                    : "border-gray-200 hover:border-gray-300"
+                )}
+                title={`Grid size ${size}`}
+              >
+                {size}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
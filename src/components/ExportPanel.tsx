@@ -0,0 +1,154 @@
+import React, { useState } from "react";
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  EXPORT_SCALES,
+  ExportBackground,
+  ExportOptions,
+  ExportScope,
+  MAX_EXPORT_PADDING,
+} from "@/lib/export";
+import { cn } from "@/lib/utils";
+
+interface ExportPanelProps {
+  // Selection exports are only offered while something is selected
+  hasSelection: boolean;
+  onExport: (options: ExportOptions) => void;
+  className?: string;
+}
+
+const SCOPE_OPTIONS: { scope: ExportScope; label: string }[] = [
+  { scope: "board", label: "Whole board" },
+  { scope: "viewport", label: "Current view" },
+  { scope: "selection", label: "Selection" },
+];
+
+const BACKGROUND_OPTIONS: { background: ExportBackground; label: string }[] = [
+  { background: "solid", label: "Solid" },
+  { background: "transparent", label: "Transparent" },
+];
+
+export function ExportPanel({ hasSelection, onExport, className }: ExportPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [options, setOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+
+  const updateOptions = (changes: Partial<ExportOptions>) =>
+    setOptions((prev) => ({ ...prev, ...changes }));
+
+  const canExport = options.scope !== "selection" || hasSelection;
+
+  const optionClass = (active: boolean) =>
+    cn(
+      "flex-1 px-2 py-1 rounded-md border text-xs transition-colors disabled:opacity-40",
+      active
+        ? "border-blue-500 bg-blue-50 text-blue-700"
+        : "border-gray-200 text-gray-600 hover:bg-gray-50"
+    );
+
+  return (
+    <div className={cn("relative", className)}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-md transition-colors"
+        title="Export PNG"
+      >
+        <svg
+          className="w-5 h-5"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"
+          />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-72 bg-white border border-gray-200 rounded-lg shadow-lg z-50">
+          <div className="p-4 space-y-3">
+            <h3 className="text-sm font-medium text-gray-900">Export PNG</h3>
+
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Area</label>
+              <div className="flex space-x-1">
+                {SCOPE_OPTIONS.map(({ scope, label }) => (
+                  <button
+                    key={scope}
+                    onClick={() => updateOptions({ scope })}
+                    disabled={scope === "selection" && !hasSelection}
+                    className={optionClass(options.scope === scope)}
+                    title={`Export ${label.toLowerCase()}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Scale</label>
+              <div className="flex space-x-1">
+                {EXPORT_SCALES.map((scale) => (
+                  <button
+                    key={scale}
+                    onClick={() => updateOptions({ scale })}
+                    className={optionClass(options.scale === scale)}
+                    title={`Scale ${scale}x`}
+                  >
+                    {scale}x
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Background</label>
+              <div className="flex space-x-1">
+                {BACKGROUND_OPTIONS.map(({ background, label }) => (
+                  <button
+                    key={background}
+                    onClick={() => updateOptions({ background })}
+                    className={optionClass(options.background === background)}
+                    title={`${label} background`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">
+                Padding: {options.padding}px
+              </label>
+              <input
+                type="range"
+                min={0}
+                max={MAX_EXPORT_PADDING}
+                step={4}
+                value={options.padding}
+                onChange={(e) => updateOptions({ padding: Number(e.target.value) })}
+                className="w-full"
+                title="Padding"
+              />
+            </div>
+
+            <button
+              onClick={() => {
+                onExport(options);
+                setIsOpen(false);
+              }}
+              disabled={!canExport}
+              className="w-full px-3 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 transition-colors text-sm font-medium disabled:opacity-40"
+            >
+              Download PNG
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
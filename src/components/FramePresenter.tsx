@@ -0,0 +1,112 @@
+import React, { useEffect, useRef, useState } from "react";
+import { DrawingAction, WhiteboardSettings } from "@/types/whiteboard";
+import { getElementBounds } from "@/lib/elements";
+import { renderFrame } from "@/lib/frames";
+
+interface FramePresenterProps {
+  frames: DrawingAction[];
+  // Everything on the board; each frame shows the part of it inside the frame
+  elements: DrawingAction[];
+  settings: WhiteboardSettings;
+  index: number;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+}
+
+// Room left around the frame for the controls
+const SCREEN_PADDING = 64;
+
+// Full-screen view of one frame at a time, stepped through in list order
+export function FramePresenter({
+  frames,
+  elements,
+  settings,
+  index,
+  onIndexChange,
+  onClose,
+}: FramePresenterProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [screenSize, setScreenSize] = useState({
+    width: window.innerWidth,
+    height: window.innerHeight,
+  });
+
+  const frame = frames[index];
+
+  useEffect(() => {
+    const handleResize = () =>
+      setScreenSize({ width: window.innerWidth, height: window.innerHeight });
+    window.addEventListener("resize", handleResize);
+    return () => window.removeEventListener("resize", handleResize);
+  }, []);
+
+  // Arrow keys and space step through frames, Escape ends the presentation
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        onClose();
+      } else if ((e.key === "ArrowRight" || e.key === " ") && index < frames.length - 1) {
+        e.preventDefault();
+        onIndexChange(index + 1);
+      } else if (e.key === "ArrowLeft" && index > 0) {
+        onIndexChange(index - 1);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [index, frames.length, onIndexChange, onClose]);
+
+  // Scale the frame to fill the screen while keeping its shape
+  const bounds = frame ? getElementBounds(frame) : { width: 1, height: 1 };
+  const scale = Math.min(
+    (screenSize.width - SCREEN_PADDING * 2) / Math.max(bounds.width, 1),
+    (screenSize.height - SCREEN_PADDING * 2) / Math.max(bounds.height, 1)
+  );
+  const width = Math.max(1, Math.round(bounds.width * scale));
+  const height = Math.max(1, Math.round(bounds.height * scale));
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx || !frame) return;
+
+    renderFrame(ctx, frame, elements, width, height, settings);
+  }, [frame, elements, settings, width, height]);
+
+  if (!frame) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-gray-900 flex flex-col items-center justify-center">
+      <canvas ref={canvasRef} width={width} height={height} className="shadow-lg" />
+
+      <div className="absolute bottom-4 flex items-center space-x-4 text-white text-sm">
+        <button
+          onClick={() => onIndexChange(index - 1)}
+          disabled={index === 0}
+          className="px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-40"
+          title="Previous frame"
+        >
+          Previous
+        </button>
+        <span>
+          {frame.name} ({index + 1} / {frames.length})
+        </span>
+        <button
+          onClick={() => onIndexChange(index + 1)}
+          disabled={index === frames.length - 1}
+          className="px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-40"
+          title="Next frame"
+        >
+          Next
+        </button>
+        <button
+          onClick={onClose}
+          className="px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600"
+          title="Exit presentation"
+        >
+          Exit
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import React, { useState } from "react";
+import { DrawingAction } from "@/types/whiteboard";
+import { cn } from "@/lib/utils";
+
+interface FramesPanelProps {
+  frames: DrawingAction[];
+  onSelectFrame: (frame: DrawingAction) => void;
+  onRenameFrame: (id: string, name: string) => void;
+  onExportFrame: (frame: DrawingAction) => void;
+  onPresentFrame: (frame: DrawingAction) => void;
+  className?: string;
+}
+
+const EXPORT_ICON = "M4 16v2a2 2 0 002 2h12a2 2 0 002-2v-2M7 10l5 5m0 0l5-5m-5 5V4";
+const PRESENT_ICON = "M5 3l14 9-14 9V3z";
+
+export function FramesPanel({
+  frames,
+  onSelectFrame,
+  onRenameFrame,
+  onExportFrame,
+  onPresentFrame,
+  className,
+}: FramesPanelProps) {
+  // The frame whose name is being edited, after a double-click on it
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+
+  const finishRename = (frame: DrawingAction) => {
+    const name = editingName.trim();
+    if (name && name !== frame.name) {
+      onRenameFrame(frame.id, name);
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div
+      className={cn(
+        "bg-white border border-gray-200 rounded-lg shadow-sm p-4",
+        className
+      )}
+    >
+      <h3 className="text-sm font-medium text-gray-700 mb-3">Frames</h3>
+
+      {frames.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Draw a frame with the frame tool to mark out part of the board.
+        </p>
+      ) : (
+        <ul className="space-y-1">
+          {frames.map((frame) => (
+            <li
+              key={frame.id}
+              className="flex items-center justify-between px-2 py-1 rounded-md hover:bg-gray-50 text-sm text-gray-700"
+            >
+              {editingId === frame.id ? (
+                <input
+                  type="text"
+                  value={editingName}
+                  onChange={(e) => setEditingName(e.target.value)}
+                  onBlur={() => finishRename(frame)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") finishRename(frame);
+                    if (e.key === "Escape") setEditingId(null);
+                  }}
+                  className="flex-1 min-w-0 px-1 border border-gray-300 rounded text-sm"
+                  title="Frame name"
+                  autoFocus
+                />
+              ) : (
+                <button
+                  onClick={() => onSelectFrame(frame)}
+                  onDoubleClick={() => {
+                    setEditingId(frame.id);
+                    setEditingName(frame.name || "");
+                  }}
+                  className="flex-1 min-w-0 text-left truncate"
+                  title={`Go to ${frame.name}`}
+                >
+                  {frame.name}
+                </button>
+              )}
+
+              <div className="flex items-center space-x-1 ml-2">
+                <button
+                  onClick={() => onExportFrame(frame)}
+                  className="p-1 rounded text-gray-500 hover:text-gray-900 hover:bg-gray-200"
+                  title={`Export ${frame.name}`}
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={EXPORT_ICON} />
+                  </svg>
+                </button>
+                <button
+                  onClick={() => onPresentFrame(frame)}
+                  className="p-1 rounded text-gray-500 hover:text-gray-900 hover:bg-gray-200"
+                  title={`Present ${frame.name}`}
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={PRESENT_ICON} />
+                  </svg>
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import React, { useState } from "react";
+import { Layer } from "@/types/whiteboard";
+import { getNextLayerName } from "@/lib/layers";
+import { cn } from "@/lib/utils";
+
+interface LayersPanelProps {
+  // Bottom to top, as the board stores them
+  layers: Layer[];
+  activeLayerId: string;
+  onSelectLayer: (id: string) => void;
+  onUpdateLayer: (layer: Layer) => void;
+  onCreateLayer: (name: string) => void;
+  className?: string;
+}
+
+const EYE_ICON =
+  "M15 12a3 3 0 11-6 0 3 3 0 016 0z M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z";
+const LOCK_ICON =
+  "M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z";
+
+export function LayersPanel({
+  layers,
+  activeLayerId,
+  onSelectLayer,
+  onUpdateLayer,
+  onCreateLayer,
+  className,
+}: LayersPanelProps) {
+  const [newLayerName, setNewLayerName] = useState("");
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    onCreateLayer(newLayerName.trim() || getNextLayerName(layers));
+    setNewLayerName("");
+  };
+
+  return (
+    <div
+      className={cn(
+        "bg-white border border-gray-200 rounded-lg shadow-sm p-4",
+        className
+      )}
+    >
+      <h3 className="text-sm font-medium text-gray-700 mb-3">Layers</h3>
+
+      {/* The top layer is listed first, as it is drawn over the others */}
+      <ul className="space-y-1 mb-3">
+        {[...layers].reverse().map((layer) => (
+          <li
+            key={layer.id}
+            onClick={() => onSelectLayer(layer.id)}
+            className={cn(
+              "flex items-center justify-between px-2 py-1 rounded-md border cursor-pointer text-sm transition-colors",
+              layer.id === activeLayerId
+                ? "border-blue-500 bg-blue-50 text-blue-700"
+                : "border-transparent hover:bg-gray-50 text-gray-700"
+            )}
+            title={`Draw on ${layer.name}`}
+          >
+            <span className={cn("truncate", !layer.visible && "text-gray-400")}>
+              {layer.name}
+            </span>
+
+            <div className="flex items-center space-x-1">
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onUpdateLayer({ ...layer, visible: !layer.visible });
+                }}
+                className={cn(
+                  "p-1 rounded hover:bg-gray-200",
+                  layer.visible ? "text-gray-600" : "text-gray-300"
+                )}
+                title={`${layer.visible ? "Hide" : "Show"} ${layer.name}`}
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={EYE_ICON} />
+                </svg>
+              </button>
+
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onUpdateLayer({ ...layer, locked: !layer.locked });
+                }}
+                className={cn(
+                  "p-1 rounded hover:bg-gray-200",
+                  layer.locked ? "text-gray-700" : "text-gray-300"
+                )}
+                title={`${layer.locked ? "Unlock" : "Lock"} ${layer.name}`}
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={LOCK_ICON} />
+                </svg>
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <form onSubmit={handleCreate} className="flex space-x-2">
+        <input
+          type="text"
+          value={newLayerName}
+          onChange={(e) => setNewLayerName(e.target.value)}
+          placeholder={getNextLayerName(layers)}
+          className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-md text-sm"
+          title="Layer name"
+        />
+        <button
+          type="submit"
+          className="px-3 py-1 rounded-md bg-blue-500 text-white text-sm hover:bg-blue-600"
+        >
+          Add layer
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Bounds, DrawingAction, Point, Viewport } from "@/types/whiteboard";
+import { renderElements } from "@/lib/renderer";
+import { getRotatedBounds, unionBounds } from "@/lib/elements";
+import {
+  fitViewport,
+  getVisibleBounds,
+  screenToWorld,
+  worldToScreen,
+} from "@/lib/viewport";
+import { cn } from "@/lib/utils";
+
+const MINIMAP_PADDING = 8;
+
+interface MinimapProps {
+  elements: DrawingAction[];
+  viewport: Viewport;
+  // Size of the main canvas in screen pixels
+  viewportSize: { width: number; height: number };
+  collaborators: Array<{
+    id: string;
+    color: string;
+    isActive: boolean;
+    viewport?: Bounds;
+  }>;
+  onViewportChange: (viewport: Viewport) => void;
+  width?: number;
+  height?: number;
+  className?: string;
+}
+
+export function Minimap({
+  elements,
+  viewport,
+  viewportSize,
+  collaborators,
+  onViewportChange,
+  width = 200,
+  height = 140,
+  className,
+}: MinimapProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // The minimap's own mapping is frozen while dragging so the view moves smoothly
+  const [drag, setDrag] = useState<{ mapping: Viewport; offset: Point } | null>(
+    null
+  );
+
+  const visibleBounds = useMemo(
+    () => getVisibleBounds(viewport, viewportSize.width, viewportSize.height),
+    [viewport, viewportSize]
+  );
+
+  const collaboratorViewports = useMemo(
+    () =>
+      collaborators.filter(
+        (collaborator) => collaborator.isActive && collaborator.viewport
+      ) as Array<{ id: string; color: string; viewport: Bounds }>,
+    [collaborators]
+  );
+
+  // Fit all content and every viewport into the minimap
+  const mapping = useMemo(() => {
+    if (drag) return drag.mapping;
+
+    const boundsList = [
+      visibleBounds,
+      ...collaboratorViewports.map((collaborator) => collaborator.viewport),
+      ...elements
+        .filter((element) => element.type !== "erase")
+        .map(getRotatedBounds),
+    ];
+
+    // The overview may need to zoom out further than the main canvas allows
+    return fitViewport(unionBounds(boundsList), width, height, MINIMAP_PADDING, 0);
+  }, [drag, elements, visibleBounds, collaboratorViewports, width, height]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    renderElements(ctx, elements, width, height, mapping);
+
+    const strokeBounds = (bounds: Bounds, color: string, lineWidth: number) => {
+      const topLeft = worldToScreen({ x: bounds.x, y: bounds.y }, mapping);
+      ctx.strokeStyle = color;
+      ctx.lineWidth = lineWidth;
+      ctx.strokeRect(
+        topLeft.x,
+        topLeft.y,
+        bounds.width * mapping.zoom,
+        bounds.height * mapping.zoom
+      );
+    };
+
+    ctx.save();
+    for (const collaborator of collaboratorViewports) {
+      strokeBounds(collaborator.viewport, collaborator.color, 1.5);
+    }
+
+    ctx.fillStyle = "rgba(59, 130, 246, 0.1)";
+    const topLeft = worldToScreen(
+      { x: visibleBounds.x, y: visibleBounds.y },
+      mapping
+    );
+    ctx.fillRect(
+      topLeft.x,
+      topLeft.y,
+      visibleBounds.width * mapping.zoom,
+      visibleBounds.height * mapping.zoom
+    );
+    strokeBounds(visibleBounds, "#3b82f6", 2);
+    ctx.restore();
+  }, [elements, mapping, visibleBounds, collaboratorViewports, width, height]);
+
+  const getWorldPoint = (e: React.MouseEvent<HTMLCanvasElement>, map: Viewport) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return screenToWorld(
+      { x: e.clientX - rect.left, y: e.clientY - rect.top },
+      map
+    );
+  };
+
+  const moveViewportTo = useCallback(
+    (topLeft: Point) => {
+      onViewportChange({ ...viewport, x: topLeft.x, y: topLeft.y });
+    },
+    [viewport, onViewportChange]
+  );
+
+  // Drag the viewport rectangle, or click elsewhere to jump there and keep dragging
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    e.preventDefault();
+    const point = getWorldPoint(e, mapping);
+    const isInside =
+      point.x >= visibleBounds.x &&
+      point.x <= visibleBounds.x + visibleBounds.width &&
+      point.y >= visibleBounds.y &&
+      point.y <= visibleBounds.y + visibleBounds.height;
+
+    const offset = isInside
+      ? { x: point.x - visibleBounds.x, y: point.y - visibleBounds.y }
+      : { x: visibleBounds.width / 2, y: visibleBounds.height / 2 };
+
+    setDrag({ mapping, offset });
+    if (!isInside) {
+      moveViewportTo({ x: point.x - offset.x, y: point.y - offset.y });
+    }
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!drag) return;
+
+    const point = getWorldPoint(e, drag.mapping);
+    moveViewportTo({ x: point.x - drag.offset.x, y: point.y - drag.offset.y });
+  };
+
+  const handleMouseUp = () => {
+    setDrag(null);
+  };
+
+  return (
+    <div
+      className={cn(
+        "bg-white border border-gray-200 rounded-lg shadow-sm overflow-hidden",
+        className
+      )}
+    >
+      <canvas
+        ref={canvasRef}
+        width={width}
+        height={height}
+        className="block cursor-pointer"
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={handleMouseUp}
+        title="Minimap"
+      />
+    </div>
+  );
+}
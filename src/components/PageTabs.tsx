@@ -0,0 +1,145 @@
+import React, { useState } from "react";
+import { Page } from "@/types/whiteboard";
+import { getNextPageName } from "@/lib/pages";
+import { cn } from "@/lib/utils";
+
+interface PageTabsProps {
+  pages: Page[];
+  activePageId: string;
+  onSelectPage: (id: string) => void;
+  onCreatePage: (name: string) => void;
+  onRenamePage: (id: string, name: string) => void;
+  onMovePage: (id: string, index: number) => void;
+  onDeletePage: (id: string) => void;
+  className?: string;
+}
+
+const iconButtonClass =
+  "p-1 rounded text-gray-500 hover:text-gray-900 hover:bg-gray-200 disabled:opacity-30 disabled:hover:bg-transparent";
+
+export function PageTabs({
+  pages,
+  activePageId,
+  onSelectPage,
+  onCreatePage,
+  onRenamePage,
+  onMovePage,
+  onDeletePage,
+  className,
+}: PageTabsProps) {
+  // The page whose name is being edited, after a double-click on its tab
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+
+  const startRename = (page: Page) => {
+    setEditingId(page.id);
+    setEditingName(page.name);
+  };
+
+  const finishRename = () => {
+    const page = pages.find((candidate) => candidate.id === editingId);
+    const name = editingName.trim();
+    if (page && name && name !== page.name) {
+      onRenamePage(page.id, name);
+    }
+    setEditingId(null);
+  };
+
+  // Everything on a deleted page goes with it, for every collaborator
+  const handleDelete = (page: Page) => {
+    if (window.confirm(`Delete ${page.name} and everything on it?`)) {
+      onDeletePage(page.id);
+    }
+  };
+
+  return (
+    <div className={cn("flex items-center space-x-1 overflow-x-auto", className)}>
+      {pages.map((page, index) => {
+        const isActive = page.id === activePageId;
+
+        return (
+          <div
+            key={page.id}
+            className={cn(
+              "flex items-center rounded-t-md border border-b-0 px-2 py-1 text-sm",
+              isActive
+                ? "bg-white border-gray-200 text-gray-900"
+                : "bg-gray-100 border-transparent text-gray-600 hover:bg-gray-200"
+            )}
+          >
+            {editingId === page.id ? (
+              <input
+                type="text"
+                value={editingName}
+                onChange={(e) => setEditingName(e.target.value)}
+                onBlur={finishRename}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") finishRename();
+                  if (e.key === "Escape") setEditingId(null);
+                }}
+                className="w-28 px-1 border border-gray-300 rounded text-sm"
+                title="Page name"
+                autoFocus
+              />
+            ) : (
+              <button
+                onClick={() => onSelectPage(page.id)}
+                onDoubleClick={() => startRename(page)}
+                className="max-w-[10rem] truncate"
+                title={`Open ${page.name}`}
+              >
+                {page.name}
+              </button>
+            )}
+
+            {/* Only the open page can be moved or deleted */}
+            {isActive && editingId !== page.id && (
+              <div className="flex items-center ml-1">
+                <button
+                  onClick={() => onMovePage(page.id, index - 1)}
+                  disabled={index === 0}
+                  className={iconButtonClass}
+                  title="Move page left"
+                >
+                  <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                  </svg>
+                </button>
+                <button
+                  onClick={() => onMovePage(page.id, index + 1)}
+                  disabled={index === pages.length - 1}
+                  className={iconButtonClass}
+                  title="Move page right"
+                >
+                  <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                  </svg>
+                </button>
+                <button
+                  onClick={() => handleDelete(page)}
+                  disabled={pages.length === 1}
+                  className={iconButtonClass}
+                  title="Delete page"
+                >
+                  <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <button
+        onClick={() => onCreatePage(getNextPageName(pages))}
+        className="p-1 rounded-md text-gray-500 hover:text-gray-900 hover:bg-gray-200"
+        title="Add page"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+        </svg>
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  Collaborator,
+  DrawingAction,
+  Layer,
+  Viewport,
+  WhiteboardSettings,
+} from "@/types/whiteboard";
+import { renderElements } from "@/lib/renderer";
+import { arrangeByLayer } from "@/lib/layers";
+import {
+  REPLAY_SPEEDS,
+  buildReplayTimeline,
+  getReplayContributors,
+  getReplayElements,
+  getReplayIndex,
+  getReplayTime,
+} from "@/lib/replay";
+import { cn } from "@/lib/utils";
+
+interface ReplayViewerProps {
+  actions: DrawingAction[];
+  layers: Layer[];
+  settings: WhiteboardSettings;
+  viewport: Viewport;
+  // Used to name contributors; anyone not listed is shown by id
+  collaborators: Collaborator[];
+  onClose: () => void;
+  className?: string;
+}
+
+// A read-only view of the board as it was at any moment, with time-lapse playback
+export function ReplayViewer({
+  actions,
+  layers,
+  settings,
+  viewport,
+  collaborators,
+  onClose,
+  className,
+}: ReplayViewerProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [canvasSize, setCanvasSize] = useState({ width: 800, height: 600 });
+  const [position, setPosition] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(REPLAY_SPEEDS[0]);
+  // The collaborator whose contributions are shown, or everyone when empty
+  const [contributorId, setContributorId] = useState("");
+
+  const timeline = useMemo(() => buildReplayTimeline(actions), [actions]);
+  const contributors = useMemo(() => getReplayContributors(timeline), [timeline]);
+  const index = getReplayIndex(timeline, Math.min(position, timeline.duration));
+  const time = getReplayTime(timeline, index);
+
+  const elements = useMemo(
+    () =>
+      arrangeByLayer(
+        getReplayElements(timeline, index, contributorId || undefined),
+        layers
+      ),
+    [timeline, index, contributorId, layers]
+  );
+
+  const getContributorName = (id: string) =>
+    collaborators.find((collaborator) => collaborator.id === id)?.name ||
+    `User ${id.slice(0, 6)}`;
+
+  useEffect(() => {
+    const handleResize = () => {
+      const container = canvasRef.current?.parentElement;
+      if (container) {
+        const rect = container.getBoundingClientRect();
+        setCanvasSize({ width: rect.width, height: rect.height });
+      }
+    };
+
+    handleResize();
+    window.addEventListener("resize", handleResize);
+    return () => window.removeEventListener("resize", handleResize);
+  }, []);
+
+  // Advance through the timeline while playing, and stop at the end
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let frame: number;
+    let last = performance.now();
+
+    const step = (now: number) => {
+      const elapsed = now - last;
+      last = now;
+      setPosition((prev) => Math.min(timeline.duration, prev + elapsed * speed));
+      frame = requestAnimationFrame(step);
+    };
+
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, speed, timeline.duration]);
+
+  useEffect(() => {
+    if (isPlaying && position >= timeline.duration) {
+      setIsPlaying(false);
+    }
+  }, [isPlaying, position, timeline.duration]);
+
+  // Escape leaves the replay
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+
+    renderElements(ctx, elements, canvasSize.width, canvasSize.height, viewport, settings);
+  }, [elements, canvasSize, viewport, settings]);
+
+  // Playing from the end starts over
+  const togglePlaying = () => {
+    if (!isPlaying && position >= timeline.duration) {
+      setPosition(0);
+    }
+    setIsPlaying(!isPlaying);
+  };
+
+  return (
+    <div
+      className={cn(
+        "relative w-full h-full bg-white border border-gray-200",
+        className
+      )}
+    >
+      <canvas
+        ref={canvasRef}
+        width={canvasSize.width}
+        height={canvasSize.height}
+        className="absolute inset-0"
+      />
+
+      <div className="absolute bottom-3 left-3 right-3 flex items-center space-x-3 bg-white border border-gray-200 rounded-lg shadow-sm px-3 py-2 text-sm text-gray-700">
+        <button
+          onClick={togglePlaying}
+          disabled={timeline.actions.length === 0}
+          className="p-1.5 rounded-md hover:bg-gray-100 disabled:opacity-40"
+          title={isPlaying ? "Pause" : "Play"}
+        >
+          <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+            <path d={isPlaying ? "M6 4h4v16H6zM14 4h4v16h-4z" : "M6 4l14 8-14 8V4z"} />
+          </svg>
+        </button>
+
+        <input
+          type="range"
+          min={0}
+          max={timeline.duration}
+          value={Math.min(position, timeline.duration)}
+          onChange={(e) => setPosition(Number(e.target.value))}
+          className="flex-1"
+          title="Replay position"
+        />
+
+        <span className="w-40 text-xs text-gray-500 text-right">
+          {time !== null ? new Date(time).toLocaleTimeString() : "No activity"} ·{" "}
+          {index} / {timeline.actions.length}
+        </span>
+
+        <div className="flex items-center">
+          {REPLAY_SPEEDS.map((option) => (
+            <button
+              key={option}
+              onClick={() => setSpeed(option)}
+              className={cn(
+                "px-1.5 py-0.5 rounded text-xs",
+                speed === option
+                  ? "bg-blue-50 text-blue-700"
+                  : "text-gray-600 hover:bg-gray-100"
+              )}
+              title={`Speed ${option}x`}
+            >
+              {option}x
+            </button>
+          ))}
+        </div>
+
+        <select
+          value={contributorId}
+          onChange={(e) => setContributorId(e.target.value)}
+          className="px-1 py-0.5 border border-gray-200 rounded text-xs"
+          title="Show contributions from"
+        >
+          <option value="">Everyone</option>
+          {contributors.map((id) => (
+            <option key={id} value={id}>
+              {getContributorName(id)}
+            </option>
+          ))}
+        </select>
+
+        <button
+          onClick={onClose}
+          className="px-2 py-1 rounded-md text-xs bg-gray-100 hover:bg-gray-200"
+          title="Exit replay"
+        >
+          Exit
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import React from "react";
+import { ConnectorRouting } from "@/types/whiteboard";
+import { ReorderCommand } from "@/lib/zorder";
+import { cn } from "@/lib/utils";
+
+interface SelectionToolbarProps {
+  count: number;
+  // Set when the selection is exactly one group
+  groupName?: string;
+  canGroup: boolean;
+  canUngroup: boolean;
+  onGroup: () => void;
+  onUngroup: () => void;
+  onRenameGroup: (name: string) => void;
+  onReorder: (command: ReorderCommand) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  onColorChange: (color: string) => void;
+  onStrokeWidthChange: (strokeWidth: number) => void;
+  // Set when the selection includes connectors, to the routing of the first one
+  connectorRouting?: ConnectorRouting;
+  onRoutingChange: (routing: ConnectorRouting) => void;
+  className?: string;
+}
+
+const SELECTION_COLORS = [
+  "#000000",
+  "#ef4444",
+  "#f59e0b",
+  "#22c55e",
+  "#3b82f6",
+  "#a855f7",
+];
+
+const SELECTION_STROKE_WIDTHS = [2, 4, 8];
+
+const REORDER_OPTIONS: { command: ReorderCommand; label: string; icon: string }[] = [
+  { command: "back", label: "Send to back", icon: "M19 13l-7 7-7-7m14-8l-7 7-7-7" },
+  { command: "backward", label: "Send backward", icon: "M19 9l-7 7-7-7" },
+  { command: "forward", label: "Bring forward", icon: "M5 15l7-7 7 7" },
+  { command: "front", label: "Bring to front", icon: "M5 11l7-7 7 7M5 19l7-7 7 7" },
+];
+
+export function SelectionToolbar({
+  count,
+  groupName,
+  canGroup,
+  canUngroup,
+  onGroup,
+  onUngroup,
+  onRenameGroup,
+  onReorder,
+  onDuplicate,
+  onDelete,
+  onColorChange,
+  onStrokeWidthChange,
+  connectorRouting,
+  onRoutingChange,
+  className,
+}: SelectionToolbarProps) {
+  const buttonClass =
+    "p-1.5 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-md transition-colors";
+
+  return (
+    <div
+      className={cn(
+        "flex items-center space-x-2 bg-white border border-gray-200 rounded-lg shadow-sm px-2 py-1",
+        className
+      )}
+    >
+      {groupName !== undefined ? (
+        <input
+          key={groupName}
+          defaultValue={groupName}
+          onBlur={(e) => {
+            const name = e.target.value.trim();
+            if (name && name !== groupName) onRenameGroup(name);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") e.currentTarget.blur();
+          }}
+          className="w-28 px-1 py-0.5 text-xs border border-gray-200 rounded"
+          title="Group name"
+        />
+      ) : (
+        <span className="text-xs text-gray-500 px-1">{count} selected</span>
+      )}
+
+      {canGroup && (
+        <button
+          onClick={onGroup}
+          className="px-2 py-1 text-xs text-gray-700 hover:bg-gray-100 rounded-md transition-colors"
+          title="Group"
+        >
+          Group
+        </button>
+      )}
+
+      {canUngroup && (
+        <button
+          onClick={onUngroup}
+          className="px-2 py-1 text-xs text-gray-700 hover:bg-gray-100 rounded-md transition-colors"
+          title="Ungroup"
+        >
+          Ungroup
+        </button>
+      )}
+
+      <div className="flex items-center space-x-1">
+        {SELECTION_COLORS.map((color) => (
+          <button
+            key={color}
+            onClick={() => onColorChange(color)}
+            className="w-5 h-5 rounded-full border border-gray-200 hover:scale-110 transition-transform"
+            style={{ backgroundColor: color }}
+            title={`Color ${color}`}
+          />
+        ))}
+      </div>
+
+      <div className="flex items-center space-x-1">
+        {SELECTION_STROKE_WIDTHS.map((width) => (
+          <button
+            key={width}
+            onClick={() => onStrokeWidthChange(width)}
+            className={buttonClass}
+            title={`Stroke width ${width}`}
+          >
+            <div
+              className="rounded-full bg-gray-800"
+              style={{ width: width + 2, height: width + 2 }}
+            />
+          </button>
+        ))}
+      </div>
+
+      {connectorRouting && (
+        <button
+          onClick={() =>
+            onRoutingChange(connectorRouting === "elbow" ? "straight" : "elbow")
+          }
+          className="px-2 py-1 text-xs text-gray-700 hover:bg-gray-100 rounded-md transition-colors"
+          title={connectorRouting === "elbow" ? "Straight connector" : "Elbow connector"}
+        >
+          {connectorRouting === "elbow" ? "Straight" : "Elbow"}
+        </button>
+      )}
+
+      <div className="flex items-center">
+        {REORDER_OPTIONS.map(({ command, label, icon }) => (
+          <button
+            key={command}
+            onClick={() => onReorder(command)}
+            className={buttonClass}
+            title={label}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={icon} />
+            </svg>
+          </button>
+        ))}
+      </div>
+
+      <button onClick={onDuplicate} className={buttonClass} title="Duplicate">
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M8 8V5a1 1 0 011-1h10a1 1 0 011 1v10a1 1 0 01-1 1h-3M5 8h10a1 1 0 011 1v10a1 1 0 01-1 1H5a1 1 0 01-1-1V9a1 1 0 011-1z"
+          />
+        </svg>
+      </button>
+
+      <button onClick={onDelete} className={buttonClass} title="Delete">
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+          />
+        </svg>
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Point, TextAlign } from "@/types/whiteboard";
+import { FONT_FAMILY, LINE_HEIGHT, STICKY_PADDING } from "@/lib/elements";
+import { cn } from "@/lib/utils";
+
+const MIN_STICKY_SIZE = 80;
+
+interface StickyNoteEditorProps {
+  position: Point;
+  initialSize: { width: number; height: number };
+  fill: string;
+  color: string;
+  fontSize: number;
+  align: TextAlign;
+  initialValue?: string;
+  onCommit: (content: string, size: { width: number; height: number }) => void;
+  onCancel: () => void;
+  className?: string;
+}
+
+export function StickyNoteEditor({
+  position,
+  initialSize,
+  fill,
+  color,
+  fontSize,
+  align,
+  initialValue = "",
+  onCommit,
+  onCancel,
+  className,
+}: StickyNoteEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [value, setValue] = useState(initialValue);
+  const [size, setSize] = useState(initialSize);
+  const isDoneRef = useRef(false);
+
+  useEffect(() => {
+    textareaRef.current?.focus();
+  }, []);
+
+  const commit = () => {
+    if (isDoneRef.current) return;
+    isDoneRef.current = true;
+    onCommit(value, size);
+  };
+
+  const cancel = () => {
+    if (isDoneRef.current) return;
+    isDoneRef.current = true;
+    onCancel();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      commit();
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      cancel();
+    }
+  };
+
+  // Drag the corner handle to resize; preventDefault keeps focus in the textarea
+  const handleResizeStart = (e: React.MouseEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    const startX = e.clientX;
+    const startY = e.clientY;
+    const startSize = size;
+
+    const handleMove = (moveEvent: MouseEvent) => {
+      setSize({
+        width: Math.max(MIN_STICKY_SIZE, startSize.width + moveEvent.clientX - startX),
+        height: Math.max(MIN_STICKY_SIZE, startSize.height + moveEvent.clientY - startY),
+      });
+    };
+
+    const handleUp = () => {
+      window.removeEventListener("mousemove", handleMove);
+      window.removeEventListener("mouseup", handleUp);
+    };
+
+    window.addEventListener("mousemove", handleMove);
+    window.addEventListener("mouseup", handleUp);
+  };
+
+  return (
+    <div
+      className={cn("absolute shadow-md ring-2 ring-blue-400", className)}
+      style={{
+        left: position.x,
+        top: position.y,
+        width: size.width,
+        height: size.height,
+        backgroundColor: fill,
+      }}
+    >
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onBlur={commit}
+        onKeyDown={handleKeyDown}
+        className="w-full h-full m-0 bg-transparent border-none outline-none resize-none overflow-hidden"
+        style={{
+          padding: STICKY_PADDING,
+          color,
+          fontSize,
+          fontFamily: FONT_FAMILY,
+          lineHeight: LINE_HEIGHT,
+          textAlign: align,
+        }}
+        placeholder="Add a note..."
+      />
+      <div
+        onMouseDown={handleResizeStart}
+        className="absolute right-0 bottom-0 w-4 h-4 cursor-se-resize"
+        title="Resize note"
+      >
+        <svg className="w-4 h-4 text-gray-500" viewBox="0 0 16 16" fill="none">
+          <path
+            d="M14 6L6 14M14 10l-4 4"
+            stroke="currentColor"
+            strokeWidth={1.5}
+            strokeLinecap="round"
+          />
+        </svg>
+      </div>
+    </div>
+  );
+}
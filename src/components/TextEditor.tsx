@@ -0,0 +1,99 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Point, TextAlign } from "@/types/whiteboard";
+import { FONT_FAMILY, LINE_HEIGHT } from "@/lib/elements";
+import { cn } from "@/lib/utils";
+
+interface TextEditorProps {
+  position: Point;
+  color: string;
+  fontSize: number;
+  align: TextAlign;
+  initialValue?: string;
+  onCommit: (content: string) => void;
+  onCancel: () => void;
+  className?: string;
+}
+
+export function TextEditor({
+  position,
+  color,
+  fontSize,
+  align,
+  initialValue = "",
+  onCommit,
+  onCancel,
+  className,
+}: TextEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [value, setValue] = useState(initialValue);
+  const isDoneRef = useRef(false);
+
+  useEffect(() => {
+    textareaRef.current?.focus();
+  }, []);
+
+  // Grow the textarea with its content so it matches the rendered text box
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    textarea.style.height = "auto";
+    textarea.style.height = `${textarea.scrollHeight}px`;
+    textarea.style.width = "auto";
+    textarea.style.width = `${Math.max(textarea.scrollWidth, fontSize * 4)}px`;
+  }, [value, fontSize]);
+
+  const commit = () => {
+    if (isDoneRef.current) return;
+    isDoneRef.current = true;
+
+    if (value.trim().length === 0) {
+      onCancel();
+    } else {
+      onCommit(value);
+    }
+  };
+
+  const cancel = () => {
+    if (isDoneRef.current) return;
+    isDoneRef.current = true;
+    onCancel();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Enter adds a new line; Ctrl/Cmd+Enter finishes editing
+    if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      commit();
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      cancel();
+    }
+  };
+
+  return (
+    <textarea
+      ref={textareaRef}
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onBlur={commit}
+      onKeyDown={handleKeyDown}
+      rows={1}
+      wrap="off"
+      className={cn(
+        "absolute p-0 m-0 bg-transparent border border-dashed border-blue-400 outline-none resize-none overflow-hidden",
+        className
+      )}
+      style={{
+        left: position.x,
+        top: position.y,
+        color,
+        fontSize,
+        fontFamily: FONT_FAMILY,
+        lineHeight: LINE_HEIGHT,
+        textAlign: align,
+      }}
+      placeholder="Type here..."
+    />
+  );
+}
@@ -1,11 +1,23 @@
-import React from "react";
-import { DrawingTool } from "@/types/whiteboard";
+import React, { useRef } from "react";
+import {
+  ArrowheadStyle,
+  ConnectorRouting,
+  DrawingTool,
+  EraserMode,
+  SelectMode,
+  ShapeKind,
+  TextAlign,
+} from "@/types/whiteboard";
+import { IMAGE_MIME_TYPES } from "@/lib/assets";
+import { DEFAULT_END_ARROWHEAD, DEFAULT_START_ARROWHEAD } from "@/lib/connectors";
 import { cn } from "@/lib/utils";
 
 interface ToolPanelProps {
   currentTool: DrawingTool;
   onToolChange: (tool: Partial<DrawingTool>) => void;
   onClear: () => void;
+  // Image files picked with the upload button
+  onAddImages?: (files: File[]) => void;
   className?: string;
 }
 
@@ -32,16 +44,102 @@ const TOOL_COLORS = [
 
 const STROKE_WIDTHS = [1, 2, 4, 6, 8, 12, 16, 20];
 
+const SHAPE_OPTIONS: { kind: ShapeKind; label: string; icon: string }[] = [
+  { kind: "rectangle", label: "Rectangle", icon: "M4 6h16v12H4z" },
+  {
+    kind: "ellipse",
+    label: "Ellipse",
+    icon: "M12 6c4.418 0 8 2.686 8 6s-3.582 6-8 6-8-2.686-8-6 3.582-6 8-6z",
+  },
+  { kind: "line", label: "Line", icon: "M5 19L19 5" },
+  { kind: "arrow", label: "Arrow", icon: "M5 19L19 5m0 0h-8m8 0v8" },
+];
+
+const ROUTING_OPTIONS: { routing: ConnectorRouting; label: string; title: string }[] = [
+  { routing: "straight", label: "Straight", title: "Straight connector" },
+  { routing: "elbow", label: "Elbow", title: "Elbow connector" },
+];
+
+const ARROWHEAD_OPTIONS: { style: ArrowheadStyle; label: string }[] = [
+  { style: "none", label: "None" },
+  { style: "arrow", label: "Arrow" },
+  { style: "triangle", label: "Triangle" },
+  { style: "circle", label: "Circle" },
+];
+
+const ARROWHEAD_ENDS: {
+  key: "startArrowhead" | "endArrowhead";
+  end: string;
+  fallback: ArrowheadStyle;
+}[] = [
+  { key: "startArrowhead", end: "Start", fallback: DEFAULT_START_ARROWHEAD },
+  { key: "endArrowhead", end: "End", fallback: DEFAULT_END_ARROWHEAD },
+];
+
+const SELECT_OPTIONS: { mode: SelectMode; label: string; title: string }[] = [
+  { mode: "marquee", label: "Marquee", title: "Marquee select" },
+  { mode: "lasso", label: "Lasso", title: "Lasso select" },
+];
+
+const ERASER_OPTIONS: { mode: EraserMode; label: string; title: string }[] = [
+  { mode: "object", label: "Objects", title: "Object eraser" },
+  { mode: "pixel", label: "Pixels", title: "Pixel eraser" },
+];
+
+const FONT_SIZES = [12, 16, 20, 24, 32, 48];
+
+const STICKY_COLORS = [
+  { color: "#fef08a", label: "Yellow" },
+  { color: "#fbcfe8", label: "Pink" },
+  { color: "#bbf7d0", label: "Green" },
+  { color: "#bfdbfe", label: "Blue" },
+  { color: "#fed7aa", label: "Orange" },
+  { color: "#e9d5ff", label: "Purple" },
+];
+
+const TEXT_ALIGN_OPTIONS: { align: TextAlign; label: string; icon: string }[] = [
+  { align: "left", label: "Align left", icon: "M4 6h16M4 10h10M4 14h16M4 18h10" },
+  { align: "center", label: "Align center", icon: "M4 6h16M7 10h10M4 14h16M7 18h10" },
+  { align: "right", label: "Align right", icon: "M4 6h16M10 10h10M4 14h16M10 18h10" },
+];
+
 export function ToolPanel({
   currentTool,
   onToolChange,
   onClear,
+  onAddImages,
   className,
 }: ToolPanelProps) {
+  const imageInputRef = useRef<HTMLInputElement>(null);
+
   const handleToolTypeChange = (type: DrawingTool["type"]) => {
     onToolChange({ type });
   };
 
+  const handleShapeChange = (shape: ShapeKind) => {
+    onToolChange({ type: "shape", shape });
+  };
+
+  const handleSelectModeChange = (selectMode: SelectMode) => {
+    onToolChange({ selectMode });
+  };
+
+  const handleEraserModeChange = (eraserMode: EraserMode) => {
+    onToolChange({ eraserMode });
+  };
+
+  const handleFontSizeChange = (fontSize: number) => {
+    onToolChange({ fontSize });
+  };
+
+  const handleTextAlignChange = (textAlign: TextAlign) => {
+    onToolChange({ textAlign });
+  };
+
+  const handleStickyColorChange = (stickyColor: string) => {
+    onToolChange({ stickyColor });
+  };
+
   const handleColorChange = (color: string) => {
     onToolChange({ color });
   };
@@ -65,7 +163,32 @@ export function ToolPanel({
         {/* Tool Types */}
         <div>
           <h3 className="text-sm font-medium text-gray-700 mb-2">Tools</h3>
-          <div className="flex space-x-2">
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => handleToolTypeChange("select")}
+              className={cn(
+                "p-2 rounded-md border-2 transition-colors",
+                currentTool.type === "select"
+                  ? "border-blue-500 bg-blue-50 text-blue-700"
+                  : "border-gray-200 hover:border-gray-300"
+              )}
+              title="Select"
+            >
+              <svg
+                className="w-5 h-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M5 3l14 8-6 2-2 6-6-16z"
+                />
+              </svg>
+            </button>
+
             <button
               onClick={() => handleToolTypeChange("pen")}
               className={cn(
@@ -140,9 +263,379 @@ export function ToolPanel({
                 />
               </svg>
             </button>
+
+            <button
+              onClick={() => handleToolTypeChange("shape")}
+              className={cn(
+                "p-2 rounded-md border-2 transition-colors",
+                currentTool.type === "shape"
+                  ? "border-blue-500 bg-blue-50 text-blue-700"
+                  : "border-gray-200 hover:border-gray-300"
+              )}
+              title="Shape"
+            >
+              <svg
+                className="w-5 h-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M4 5a1 1 0 011-1h6a1 1 0 011 1v6a1 1 0 01-1 1H5a1 1 0 01-1-1V5zm13 7a4 4 0 110 8 4 4 0 010-8z"
+                />
+              </svg>
+            </button>
+
+            <button
+              onClick={() => handleToolTypeChange("text")}
+              className={cn(
+                "p-2 rounded-md border-2 transition-colors",
+                currentTool.type === "text"
+                  ? "border-blue-500 bg-blue-50 text-blue-700"
+                  : "border-gray-200 hover:border-gray-300"
+              )}
+              title="Text"
+            >
+              <svg
+                className="w-5 h-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M5 6V4h14v2M12 4v16m-3 0h6"
+                />
+              </svg>
+            </button>
+
+            <button
+              onClick={() => handleToolTypeChange("sticky")}
+              className={cn(
+                "p-2 rounded-md border-2 transition-colors",
+                currentTool.type === "sticky"
+                  ? "border-blue-500 bg-blue-50 text-blue-700"
+                  : "border-gray-200 hover:border-gray-300"
+              )}
+              title="Sticky Note"
+            >
+              <svg
+                className="w-5 h-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M4 4h16v10l-6 6H4V4zm10 16v-6h6"
+                />
+              </svg>
+            </button>
+
+            <button
+              onClick={() => handleToolTypeChange("frame")}
+              className={cn(
+                "p-2 rounded-md border-2 transition-colors",
+                currentTool.type === "frame"
+                  ? "border-blue-500 bg-blue-50 text-blue-700"
+                  : "border-gray-200 hover:border-gray-300"
+              )}
+              title="Frame"
+            >
+              <svg
+                className="w-5 h-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M8 3v18M16 3v18M3 8h18M3 16h18"
+                />
+              </svg>
+            </button>
+
+            <button
+              onClick={() => handleToolTypeChange("connector")}
+              className={cn(
+                "p-2 rounded-md border-2 transition-colors",
+                currentTool.type === "connector"
+                  ? "border-blue-500 bg-blue-50 text-blue-700"
+                  : "border-gray-200 hover:border-gray-300"
+              )}
+              title="Connector"
+            >
+              <svg
+                className="w-5 h-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M3 5h5v5H3zM16 14h5v5h-5zM8 7.5h4v9h4"
+                />
+              </svg>
+            </button>
+
+            {onAddImages && (
+              <>
+                <button
+                  onClick={() => imageInputRef.current?.click()}
+                  className="p-2 rounded-md border-2 border-gray-200 hover:border-gray-300 transition-colors"
+                  title="Add image"
+                >
+                  <svg
+                    className="w-5 h-5"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"
+                    />
+                  </svg>
+                </button>
+                <input
+                  ref={imageInputRef}
+                  type="file"
+                  accept={IMAGE_MIME_TYPES.join(",")}
+                  multiple
+                  className="hidden"
+                  onChange={(e) => {
+                    const files = Array.from(e.target.files || []);
+                    if (files.length > 0) onAddImages?.(files);
+                    // Let the same file be picked again
+                    e.target.value = "";
+                  }}
+                />
+              </>
+            )}
           </div>
         </div>
 
+        {/* Shape Kinds */}
+        {currentTool.type === "shape" && (
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Shapes</h3>
+            <div className="flex space-x-2">
+              {SHAPE_OPTIONS.map(({ kind, label, icon }) => (
+                <button
+                  key={kind}
+                  onClick={() => handleShapeChange(kind)}
+                  className={cn(
+                    "p-2 rounded-md border-2 transition-colors",
+                    (currentTool.shape || "rectangle") === kind
+                      ? "border-blue-500 bg-blue-50 text-blue-700"
+                      : "border-gray-200 hover:border-gray-300"
+                  )}
+                  title={label}
+                >
+                  <svg
+                    className="w-5 h-5"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d={icon}
+                    />
+                  </svg>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Connector Routing and Arrowheads */}
+        {currentTool.type === "connector" && (
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Connector</h3>
+            <div className="flex space-x-2 mb-2">
+              {ROUTING_OPTIONS.map(({ routing, label, title }) => (
+                <button
+                  key={routing}
+                  onClick={() => onToolChange({ connectorRouting: routing })}
+                  className={cn(
+                    "flex-1 py-1 rounded-md border text-xs transition-colors",
+                    (currentTool.connectorRouting || "straight") === routing
+                      ? "border-blue-500 bg-blue-50 text-blue-700"
+                      : "border-gray-200 hover:border-gray-300"
+                  )}
+                  title={title}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {ARROWHEAD_ENDS.map(({ key, end, fallback }) => (
+              <div key={key} className="flex items-center space-x-1 mt-1">
+                <span className="w-10 text-xs text-gray-600">{end}</span>
+                {ARROWHEAD_OPTIONS.map(({ style, label }) => (
+                  <button
+                    key={style}
+                    onClick={() => onToolChange({ [key]: style })}
+                    className={cn(
+                      "flex-1 py-1 rounded-md border text-xs transition-colors",
+                      (currentTool[key] || fallback) === style
+                        ? "border-blue-500 bg-blue-50 text-blue-700"
+                        : "border-gray-200 hover:border-gray-300"
+                    )}
+                    title={`${end} arrowhead: ${label}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Selection Modes */}
+        {currentTool.type === "select" && (
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Selection</h3>
+            <div className="flex space-x-2">
+              {SELECT_OPTIONS.map(({ mode, label, title }) => (
+                <button
+                  key={mode}
+                  onClick={() => handleSelectModeChange(mode)}
+                  className={cn(
+                    "flex-1 py-1 rounded-md border text-xs transition-colors",
+                    (currentTool.selectMode || "marquee") === mode
+                      ? "border-blue-500 bg-blue-50 text-blue-700"
+                      : "border-gray-200 hover:border-gray-300"
+                  )}
+                  title={title}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Eraser Modes */}
+        {currentTool.type === "eraser" && (
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Eraser</h3>
+            <div className="flex space-x-2">
+              {ERASER_OPTIONS.map(({ mode, label, title }) => (
+                <button
+                  key={mode}
+                  onClick={() => handleEraserModeChange(mode)}
+                  className={cn(
+                    "flex-1 py-1 rounded-md border text-xs transition-colors",
+                    (currentTool.eraserMode || "object") === mode
+                      ? "border-blue-500 bg-blue-50 text-blue-700"
+                      : "border-gray-200 hover:border-gray-300"
+                  )}
+                  title={title}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Sticky Note Colors */}
+        {currentTool.type === "sticky" && (
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">
+              Note Color
+            </h3>
+            <div className="flex space-x-2">
+              {STICKY_COLORS.map(({ color, label }) => (
+                <button
+                  key={color}
+                  onClick={() => handleStickyColorChange(color)}
+                  className={cn(
+                    "w-8 h-8 rounded-md border-2 transition-all hover:scale-110",
+                    (currentTool.stickyColor || STICKY_COLORS[0].color) === color
+                      ? "border-gray-800 ring-2 ring-gray-300"
+                      : "border-gray-200 hover:border-gray-400"
+                  )}
+                  style={{ backgroundColor: color }}
+                  title={`${label} note`}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Text Options */}
+        {(currentTool.type === "text" || currentTool.type === "sticky") && (
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Text</h3>
+            <div className="space-y-2">
+              <div className="grid grid-cols-6 gap-1">
+                {FONT_SIZES.map((size) => (
+                  <button
+                    key={size}
+                    onClick={() => handleFontSizeChange(size)}
+                    className={cn(
+                      "py-1 rounded-md border text-xs transition-colors",
+                      (currentTool.fontSize || 20) === size
+                        ? "border-blue-500 bg-blue-50 text-blue-700"
+                        : "border-gray-200 hover:border-gray-300"
+                    )}
+                    title={`Font size ${size}`}
+                  >
+                    {size}
+                  </button>
+                ))}
+              </div>
+              <div className="flex space-x-2">
+                {TEXT_ALIGN_OPTIONS.map(({ align, label, icon }) => (
+                  <button
+                    key={align}
+                    onClick={() => handleTextAlignChange(align)}
+                    className={cn(
+                      "p-2 rounded-md border-2 transition-colors",
+                      (currentTool.textAlign || "left") === align
+                        ? "border-blue-500 bg-blue-50 text-blue-700"
+                        : "border-gray-200 hover:border-gray-300"
+                    )}
+                    title={label}
+                  >
+                    <svg
+                      className="w-5 h-5"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d={icon}
+                      />
+                    </svg>
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Colors */}
         <div>
           <h3 className="text-sm font-medium text-gray-700 mb-2">Colors</h3>
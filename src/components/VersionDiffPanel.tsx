@@ -0,0 +1,86 @@
+import React from "react";
+import {
+  BoardDiff,
+  DIFF_COLORS,
+  DIFF_KINDS,
+  ElementDiff,
+  getElementLabel,
+} from "@/lib/diff";
+import { cn } from "@/lib/utils";
+
+interface VersionDiffPanelProps {
+  diff: BoardDiff;
+  onSelectChange: (change: ElementDiff) => void;
+  className?: string;
+}
+
+const KIND_TITLES = {
+  added: "Added",
+  removed: "Removed",
+  modified: "Modified",
+};
+
+// The changes on the open page between two versions, grouped by what happened
+export function VersionDiffPanel({
+  diff,
+  onSelectChange,
+  className,
+}: VersionDiffPanelProps) {
+  return (
+    <div
+      className={cn(
+        "bg-white border border-gray-200 rounded-lg shadow-sm p-4",
+        className
+      )}
+    >
+      <h3 className="text-sm font-medium text-gray-700 mb-1">Changes</h3>
+      <p className="text-xs text-gray-500 mb-3">
+        From {diff.before.name} to {diff.after.name}
+      </p>
+
+      {diff.changes.length === 0 ? (
+        <p className="text-sm text-gray-500">Nothing changed on this page.</p>
+      ) : (
+        <div className="space-y-3 max-h-80 overflow-y-auto">
+          {DIFF_KINDS.map((kind) => {
+            const changes = diff.changes.filter((change) => change.kind === kind);
+            if (changes.length === 0) return null;
+
+            return (
+              <div key={kind}>
+                <h4 className="flex items-center text-xs font-medium text-gray-600 mb-1">
+                  <span
+                    className="w-2 h-2 rounded-full mr-2"
+                    style={{ backgroundColor: DIFF_COLORS[kind] }}
+                  />
+                  {KIND_TITLES[kind]} ({changes.length})
+                </h4>
+                <ul className="space-y-0.5">
+                  {changes.map((change) => {
+                    const label = getElementLabel(change.element);
+                    return (
+                      <li key={change.element.id}>
+                        <button
+                          onClick={() => onSelectChange(change)}
+                          className="w-full px-2 py-1 rounded-md text-left text-sm text-gray-700 hover:bg-gray-50"
+                          title={`Show ${label}`}
+                        >
+                          <span className="block truncate">{label}</span>
+                          {change.properties.length > 0 && (
+                            <span className="block text-xs text-gray-500 truncate">
+                              {change.properties.join(", ")}
+                            </span>
+                          )}
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
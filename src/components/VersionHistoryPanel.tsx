@@ -0,0 +1,93 @@
+import React, { useState } from "react";
+import { VersionSummary } from "@/types/whiteboard";
+import { getNextVersionName } from "@/lib/versions";
+import { cn } from "@/lib/utils";
+
+interface VersionHistoryPanelProps {
+  // Oldest first, as the server stores them
+  versions: VersionSummary[];
+  previewVersionId?: string;
+  onSaveVersion: (name: string) => void;
+  onPreviewVersion: (id: string) => void;
+  className?: string;
+}
+
+export function VersionHistoryPanel({
+  versions,
+  previewVersionId,
+  onSaveVersion,
+  onPreviewVersion,
+  className,
+}: VersionHistoryPanelProps) {
+  const [newVersionName, setNewVersionName] = useState("");
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSaveVersion(newVersionName.trim() || getNextVersionName(versions));
+    setNewVersionName("");
+  };
+
+  return (
+    <div
+      className={cn(
+        "bg-white border border-gray-200 rounded-lg shadow-sm p-4",
+        className
+      )}
+    >
+      <h3 className="text-sm font-medium text-gray-700 mb-3">History</h3>
+
+      {versions.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-3">
+          No versions yet. Save one, or one is saved automatically while the board is edited.
+        </p>
+      ) : (
+        // The newest version is listed first
+        <ul className="space-y-1 mb-3 max-h-60 overflow-y-auto">
+          {[...versions].reverse().map((version) => (
+            <li key={version.id}>
+              <button
+                onClick={() => onPreviewVersion(version.id)}
+                className={cn(
+                  "w-full flex items-center justify-between px-2 py-1 rounded-md border text-left text-sm transition-colors",
+                  version.id === previewVersionId
+                    ? "border-blue-500 bg-blue-50 text-blue-700"
+                    : "border-transparent hover:bg-gray-50 text-gray-700"
+                )}
+                title={`Preview ${version.name}`}
+              >
+                <span className="truncate">
+                  {version.name}
+                  <span className="block text-xs text-gray-500">
+                    {new Date(version.createdAt).toLocaleString()}
+                  </span>
+                </span>
+                {version.automatic && (
+                  <span className="ml-2 px-1.5 py-0.5 rounded bg-gray-100 text-xs text-gray-500">
+                    Auto
+                  </span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleSave} className="flex space-x-2">
+        <input
+          type="text"
+          value={newVersionName}
+          onChange={(e) => setNewVersionName(e.target.value)}
+          placeholder={getNextVersionName(versions)}
+          className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-md text-sm"
+          title="Version name"
+        />
+        <button
+          type="submit"
+          className="px-3 py-1 rounded-md bg-blue-500 text-white text-sm hover:bg-blue-600"
+        >
+          Save version
+        </button>
+      </form>
+    </div>
+  );
+}
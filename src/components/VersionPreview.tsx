@@ -0,0 +1,182 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  BoardVersion,
+  Layer,
+  VersionSummary,
+  Viewport,
+  WhiteboardSettings,
+} from "@/types/whiteboard";
+import { renderElements } from "@/lib/renderer";
+import { arrangeByLayer } from "@/lib/layers";
+import { routeConnectors } from "@/lib/connectors";
+import { getVersionElements } from "@/lib/versions";
+import {
+  BoardDiff,
+  CURRENT_BOARD_ID,
+  DIFF_COLORS,
+  DIFF_KINDS,
+  getDiffElements,
+  renderDiffOverlay,
+} from "@/lib/diff";
+import { cn } from "@/lib/utils";
+
+interface VersionPreviewProps {
+  version: BoardVersion;
+  // The open page, shown as it was in the version
+  pageId: string;
+  layers: Layer[];
+  settings: WhiteboardSettings;
+  viewport: Viewport;
+  // Other versions that can be compared with this one
+  versions: VersionSummary[];
+  // The version or the current board being compared with, or empty for none
+  compareId: string;
+  onCompareChange: (id: string) => void;
+  // Once the comparison has loaded, changes are outlined over the newer of the two
+  diff: BoardDiff | null;
+  onRestore: (version: BoardVersion) => void;
+  onClose: () => void;
+  className?: string;
+}
+
+// A read-only view of the open page as it was when a version was saved,
+// optionally compared with another version or the current board
+export function VersionPreview({
+  version,
+  pageId,
+  layers,
+  settings,
+  viewport,
+  versions,
+  compareId,
+  onCompareChange,
+  diff,
+  onRestore,
+  onClose,
+  className,
+}: VersionPreviewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [canvasSize, setCanvasSize] = useState({ width: 800, height: 600 });
+
+  const elements = useMemo(
+    () =>
+      arrangeByLayer(
+        routeConnectors(diff ? getDiffElements(diff) : getVersionElements(version, pageId)),
+        layers
+      ),
+    [version, pageId, diff, layers]
+  );
+  const hasPage = version.pages.some((page) => page.id === pageId);
+
+  useEffect(() => {
+    const handleResize = () => {
+      const container = canvasRef.current?.parentElement;
+      if (container) {
+        const rect = container.getBoundingClientRect();
+        setCanvasSize({ width: rect.width, height: rect.height });
+      }
+    };
+
+    handleResize();
+    window.addEventListener("resize", handleResize);
+    return () => window.removeEventListener("resize", handleResize);
+  }, []);
+
+  // Escape closes the preview
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+
+    renderElements(ctx, elements, canvasSize.width, canvasSize.height, viewport, settings);
+    if (diff) {
+      renderDiffOverlay(ctx, diff.changes, viewport);
+    }
+  }, [elements, diff, canvasSize, viewport, settings]);
+
+  // Restoring replaces the board for everyone, so it is confirmed first
+  const handleRestore = () => {
+    if (window.confirm(`Restore ${version.name}? This replaces the board for everyone.`)) {
+      onRestore(version);
+    }
+  };
+
+  return (
+    <div
+      className={cn(
+        "relative w-full h-full bg-white border border-gray-200",
+        className
+      )}
+    >
+      <canvas
+        ref={canvasRef}
+        width={canvasSize.width}
+        height={canvasSize.height}
+        className="absolute inset-0"
+      />
+
+      <div className="absolute bottom-3 left-3 right-3 flex items-center space-x-3 bg-white border border-gray-200 rounded-lg shadow-sm px-3 py-2 text-sm text-gray-700">
+        <span className="flex-1 truncate">
+          Previewing <span className="font-medium">{version.name}</span> from{" "}
+          {new Date(version.createdAt).toLocaleString()}
+          {!hasPage && " · this page didn't exist yet"}
+        </span>
+
+        {diff && (
+          <span className="flex items-center space-x-2 text-xs text-gray-500">
+            {DIFF_KINDS.map((kind) => (
+              <span key={kind} className="flex items-center">
+                <span
+                  className="w-2 h-2 rounded-full mr-1"
+                  style={{ backgroundColor: DIFF_COLORS[kind] }}
+                />
+                {diff.changes.filter((change) => change.kind === kind).length} {kind}
+              </span>
+            ))}
+          </span>
+        )}
+
+        <select
+          value={compareId}
+          onChange={(e) => onCompareChange(e.target.value)}
+          className="px-1 py-0.5 border border-gray-200 rounded text-xs"
+          title="Compare with"
+        >
+          <option value="">Don&apos;t compare</option>
+          <option value={CURRENT_BOARD_ID}>Current board</option>
+          {versions
+            .filter((other) => other.id !== version.id)
+            .map((other) => (
+              <option key={other.id} value={other.id}>
+                {other.name} ({new Date(other.createdAt).toLocaleString()})
+              </option>
+            ))}
+        </select>
+
+        <button
+          onClick={handleRestore}
+          className="px-2 py-1 rounded-md text-xs bg-blue-500 text-white hover:bg-blue-600"
+          title="Restore this version"
+        >
+          Restore
+        </button>
+
+        <button
+          onClick={onClose}
+          className="px-2 py-1 rounded-md text-xs bg-gray-100 hover:bg-gray-200"
+          title="Close preview"
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
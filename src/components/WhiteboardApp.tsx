@@ -1,12 +1,60 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback, useMemo } from "react";
 import { WhiteboardCanvas } from "./WhiteboardCanvas";
 import { ToolPanel } from "./ToolPanel";
 import { CollaboratorList } from "./CollaboratorList";
 import { InvitePanel } from "./InvitePanel";
+import { BoardSettingsPanel } from "./BoardSettingsPanel";
+import { LayersPanel } from "./LayersPanel";
+import { PageTabs } from "./PageTabs";
+import { FramesPanel } from "./FramesPanel";
+import { FramePresenter } from "./FramePresenter";
+import { ReplayViewer } from "./ReplayViewer";
+import { VersionHistoryPanel } from "./VersionHistoryPanel";
+import { VersionPreview } from "./VersionPreview";
+import { VersionDiffPanel } from "./VersionDiffPanel";
+import { ExportPanel } from "./ExportPanel";
 import { useWhiteboard } from "@/hooks/useWhiteboard";
+import { DEFAULT_VIEWPORT, fitViewport } from "@/lib/viewport";
+import {
+  getBoundsCenter,
+  getElementBounds,
+  getRotatedBounds,
+  resolveElements,
+} from "@/lib/elements";
+import { arrangeByLayer } from "@/lib/layers";
+import { getFrames } from "@/lib/frames";
+import { routeConnectors } from "@/lib/connectors";
+import { getVersionElements } from "@/lib/versions";
+import {
+  ExportOptions,
+  exportBoardImage,
+  exportFrameImage,
+  getExportBounds,
+  getExportElements,
+} from "@/lib/export";
+import {
+  BoardSnapshot,
+  CURRENT_BOARD_ID,
+  ElementDiff,
+  compareSnapshots,
+} from "@/lib/diff";
+import {
+  BoardVersion,
+  Bounds,
+  DrawingAction,
+  Point,
+  Viewport,
+} from "@/types/whiteboard";
 import { generateId } from "@/lib/utils";
 import { cn } from "@/lib/utils";
 
+function downloadImage(url: string, filename: string) {
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+}
+
 interface WhiteboardAppProps {
   whiteboardId: string;
   userId: string;
@@ -22,6 +70,18 @@ export function WhiteboardApp({
 }: WhiteboardAppProps) {
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [showCollaborators, setShowCollaborators] = useState(true);
+  const [viewport, setViewport] = useState<Viewport>(DEFAULT_VIEWPORT);
+  // The part of the board on screen, used to fit frames into view
+  const [visibleBounds, setVisibleBounds] = useState<Bounds | null>(null);
+  // What is selected on the canvas, for exporting just the selection
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // Index of the frame being presented, if any
+  const [presentingIndex, setPresentingIndex] = useState<number | null>(null);
+  // Replay shows the open page's history in place of the live canvas
+  const [isReplaying, setIsReplaying] = useState(false);
+  // What the previewed version is compared with: another version, the
+  // current board, or nothing when empty
+  const [compareId, setCompareId] = useState("");
 
   const {
     whiteboardState,
@@ -33,11 +93,221 @@ export function WhiteboardApp({
     startDrawing,
     continueDrawing,
     finishDrawing,
+    createText,
+    createSticky,
+    createFrame,
+    createConnector,
+    addImages,
+    updateElements,
+    deleteElements,
+    duplicateElements,
+    groupElements,
+    ungroupElements,
     clearWhiteboard,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
     updateCursor,
+    updateViewport,
+    settings,
+    updateSettings,
+    layers,
+    activeLayer,
+    setActiveLayer,
+    updateLayer,
+    createLayer,
+    pages,
+    activePage,
+    pageActions,
+    setActivePage,
+    createPage,
+    renamePage,
+    movePage,
+    deletePage,
+    versions,
+    loadedVersions,
+    loadVersion,
+    previewVersionId,
+    previewVersion,
+    saveVersion,
+    openVersionPreview,
+    closeVersionPreview,
+    restoreVersion,
     updateTool,
   } = useWhiteboard({ whiteboardId, userId, userName });
 
+  // What is visible on the open page, and the frames among it
+  const pageElements = useMemo(
+    () => arrangeByLayer(routeConnectors(resolveElements(pageActions)), layers),
+    [pageActions, layers]
+  );
+  const frames = useMemo(() => getFrames(pageElements), [pageElements]);
+
+  const handleVisibleBoundsChange = useCallback(
+    (bounds: Bounds) => {
+      setVisibleBounds(bounds);
+      updateViewport(bounds);
+    },
+    [updateViewport]
+  );
+
+  const goToFrame = useCallback(
+    (frame: DrawingAction) => {
+      if (!visibleBounds) return;
+
+      setViewport(
+        fitViewport(
+          getElementBounds(frame),
+          visibleBounds.width * viewport.zoom,
+          visibleBounds.height * viewport.zoom
+        )
+      );
+    },
+    [visibleBounds, viewport.zoom]
+  );
+
+  // Upload failures are reported without leaving the board
+  const handleAddImages = useCallback(
+    (files: File[], point: Point) => {
+      addImages(files, point).catch((error: Error) => {
+        console.error("Failed to add image:", error);
+        window.alert(error.message);
+      });
+    },
+    [addImages]
+  );
+
+  // Images added with the upload button land in the middle of the screen
+  const uploadImages = useCallback(
+    (files: File[]) => {
+      if (!visibleBounds) return;
+
+      handleAddImages(files, {
+        x: visibleBounds.x + visibleBounds.width / 2,
+        y: visibleBounds.y + visibleBounds.height / 2,
+      });
+    },
+    [visibleBounds, handleAddImages]
+  );
+
+  const exportFrame = useCallback(
+    async (frame: DrawingAction) => {
+      try {
+        const url = await exportFrameImage(frame, pageElements, settings);
+        if (url) downloadImage(url, `${frame.name || "frame"}.png`);
+      } catch (error) {
+        console.error("Failed to export frame:", error);
+        window.alert("The frame could not be exported.");
+      }
+    },
+    [pageElements, settings]
+  );
+
+  const exportBoard = useCallback(
+    async (options: ExportOptions) => {
+      const elements = getExportElements(options.scope, pageElements, selectedIds);
+      const bounds = getExportBounds(options.scope, elements, visibleBounds);
+      if (!bounds) {
+        window.alert("There is nothing to export.");
+        return;
+      }
+
+      try {
+        const url = await exportBoardImage(elements, bounds, options, settings, viewport.zoom);
+        if (url) downloadImage(url, `${activePage.name || "board"}.png`);
+      } catch (error) {
+        console.error("Failed to export board:", error);
+        window.alert("The board could not be exported.");
+      }
+    },
+    [pageElements, selectedIds, visibleBounds, settings, viewport.zoom, activePage.name]
+  );
+
+  useEffect(() => {
+    if (compareId && compareId !== CURRENT_BOARD_ID) {
+      loadVersion(compareId);
+    }
+  }, [compareId, loadVersion]);
+
+  // The changes on the open page between the previewed version and the one
+  // it is compared with, once both have loaded
+  const versionDiff = useMemo(() => {
+    if (!previewVersion || !compareId) return null;
+
+    const getSnapshot = (version: BoardVersion): BoardSnapshot => ({
+      name: version.name,
+      createdAt: version.createdAt,
+      elements: getVersionElements(version, activePage.id),
+    });
+
+    if (compareId === CURRENT_BOARD_ID) {
+      return compareSnapshots(getSnapshot(previewVersion), {
+        name: "the current board",
+        createdAt: Date.now(),
+        elements: resolveElements(pageActions),
+      });
+    }
+
+    const other = loadedVersions[compareId];
+    return other ? compareSnapshots(getSnapshot(previewVersion), getSnapshot(other)) : null;
+  }, [previewVersion, compareId, loadedVersions, activePage.id, pageActions]);
+
+  // Bring a changed element into the middle of the view, at the current zoom
+  const showChange = useCallback(
+    (change: ElementDiff) => {
+      if (!visibleBounds) return;
+
+      const center = getBoundsCenter(getRotatedBounds(change.element));
+      setViewport({
+        ...viewport,
+        x: center.x - visibleBounds.width / 2,
+        y: center.y - visibleBounds.height / 2,
+      });
+    },
+    [visibleBounds, viewport]
+  );
+
+  // Replay and version previews take the canvas's place, so only one shows at a time
+  const previewVersionById = useCallback(
+    (versionId: string) => {
+      setIsReplaying(false);
+      // A version isn't compared with itself
+      if (versionId === compareId) setCompareId("");
+      openVersionPreview(versionId);
+    },
+    [compareId, openVersionPreview]
+  );
+
+  const toggleReplay = useCallback(() => {
+    closeVersionPreview();
+    setIsReplaying(!isReplaying);
+  }, [isReplaying, closeVersionPreview]);
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl/Cmd+Y redoes
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isReplaying || previewVersion) return;
+
+      const target = e.target as HTMLElement | null;
+      if (target?.tagName === "INPUT" || target?.tagName === "TEXTAREA") {
+        return;
+      }
+
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo, isReplaying, previewVersion]);
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-screen bg-gray-50">
@@ -92,6 +362,78 @@ export function WhiteboardApp({
           </div>
 
           <div className="flex items-center space-x-2">
+            <button
+              onClick={undo}
+              disabled={!canUndo}
+              className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-md transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+              title="Undo (Ctrl+Z)"
+            >
+              <svg
+                className="w-5 h-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M3 10h10a5 5 0 015 5v2M3 10l5-5M3 10l5 5"
+                />
+              </svg>
+            </button>
+
+            <button
+              onClick={redo}
+              disabled={!canRedo}
+              className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-md transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              <svg
+                className="w-5 h-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M21 10H11a5 5 0 00-5 5v2M21 10l-5-5M21 10l-5 5"
+                />
+              </svg>
+            </button>
+
+            <button
+              onClick={toggleReplay}
+              className={cn(
+                "p-2 rounded-md transition-colors",
+                isReplaying
+                  ? "text-blue-700 bg-blue-50"
+                  : "text-gray-600 hover:text-gray-900 hover:bg-gray-100"
+              )}
+              title="Replay history"
+            >
+              <svg
+                className="w-5 h-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
+                />
+              </svg>
+            </button>
+
+            <ExportPanel
+              hasSelection={selectedIds.length > 0}
+              onExport={exportBoard}
+            />
+
             <InvitePanel whiteboardId={whiteboardId} />
 
             <button
@@ -153,6 +495,42 @@ export function WhiteboardApp({
                 currentTool={currentTool}
                 onToolChange={updateTool}
                 onClear={clearWhiteboard}
+                onAddImages={uploadImages}
+              />
+
+              <FramesPanel
+                frames={frames}
+                onSelectFrame={goToFrame}
+                onRenameFrame={(id, name) => updateElements({ [id]: { name } })}
+                onExportFrame={exportFrame}
+                onPresentFrame={(frame) => setPresentingIndex(frames.indexOf(frame))}
+              />
+
+              <LayersPanel
+                layers={layers}
+                activeLayerId={activeLayer.id}
+                onSelectLayer={setActiveLayer}
+                onUpdateLayer={updateLayer}
+                onCreateLayer={createLayer}
+              />
+
+              <VersionHistoryPanel
+                versions={versions}
+                previewVersionId={previewVersionId || undefined}
+                onSaveVersion={saveVersion}
+                onPreviewVersion={previewVersionById}
+              />
+
+              {versionDiff && (
+                <VersionDiffPanel
+                  diff={versionDiff}
+                  onSelectChange={showChange}
+                />
+              )}
+
+              <BoardSettingsPanel
+                settings={settings}
+                onSettingsChange={updateSettings}
               />
 
               {showCollaborators && (
@@ -164,18 +542,72 @@ export function WhiteboardApp({
 
         {/* Whiteboard Area */}
         <div className="flex-1 flex flex-col">
-          <div className="flex-1 p-4">
+          <PageTabs
+            pages={pages}
+            activePageId={activePage.id}
+            onSelectPage={setActivePage}
+            onCreatePage={createPage}
+            onRenamePage={renamePage}
+            onMovePage={movePage}
+            onDeletePage={deletePage}
+            className="px-4 pt-2"
+          />
+          <div className="flex-1 p-4 pt-0">
             <div className="h-full bg-white rounded-lg shadow-sm border border-gray-200">
-              <WhiteboardCanvas
-                actions={whiteboardState?.actions || []}
-                onStartDrawing={startDrawing}
-                onContinueDrawing={continueDrawing}
-                onFinishDrawing={finishDrawing}
-                onCursorMove={updateCursor}
-                currentTool={currentTool}
-                collaborators={collaborators}
-                className="h-full"
-              />
+              {previewVersion ? (
+                <VersionPreview
+                  version={previewVersion}
+                  pageId={activePage.id}
+                  layers={layers}
+                  settings={settings}
+                  viewport={viewport}
+                  versions={versions}
+                  compareId={compareId}
+                  onCompareChange={setCompareId}
+                  diff={versionDiff}
+                  onRestore={restoreVersion}
+                  onClose={closeVersionPreview}
+                  className="h-full"
+                />
+              ) : isReplaying ? (
+                <ReplayViewer
+                  actions={pageActions}
+                  layers={layers}
+                  settings={settings}
+                  viewport={viewport}
+                  collaborators={collaborators}
+                  onClose={() => setIsReplaying(false)}
+                  className="h-full"
+                />
+              ) : (
+                <WhiteboardCanvas
+                  actions={pageActions}
+                  onStartDrawing={startDrawing}
+                  onContinueDrawing={continueDrawing}
+                  onFinishDrawing={finishDrawing}
+                  onCursorMove={updateCursor}
+                  onCreateText={createText}
+                  onCreateSticky={createSticky}
+                  onUpdateElements={updateElements}
+                  onDeleteElements={deleteElements}
+                  onCreateFrame={createFrame}
+                  onCreateConnector={createConnector}
+                  onAddImages={handleAddImages}
+                  onDuplicateElements={duplicateElements}
+                  onGroupElements={groupElements}
+                  onUngroupElements={ungroupElements}
+                  viewport={viewport}
+                  onViewportChange={setViewport}
+                  onVisibleBoundsChange={handleVisibleBoundsChange}
+                  onSelectionChange={setSelectedIds}
+                  settings={settings}
+                  layers={layers}
+                  activeLayer={activeLayer}
+                  currentTool={currentTool}
+                  collaborators={collaborators}
+                  className="h-full"
+                />
+              )}
             </div>
           </div>
         </div>
@@ -201,6 +633,17 @@ export function WhiteboardApp({
           </div>
         </div>
       </div>
+
+      {presentingIndex !== null && (
+        <FramePresenter
+          frames={frames}
+          elements={pageElements}
+          settings={settings}
+          index={presentingIndex}
+          onIndexChange={setPresentingIndex}
+          onClose={() => setPresentingIndex(null)}
+        />
+      )}
     </div>
   );
 }
@@ -1,6 +1,115 @@
-import React, { useRef, useEffect, useCallback, useState } from "react";
-import { DrawingAction, Point } from "@/types/whiteboard";
+import React, {
+  useRef,
+  useEffect,
+  useCallback,
+  useMemo,
+  useState,
+} from "react";
+import {
+  Bounds,
+  DrawingAction,
+  DrawingTool,
+  ElementChanges,
+  Layer,
+  Point,
+  SelectMode,
+  Viewport,
+  WhiteboardSettings,
+} from "@/types/whiteboard";
+import {
+  onImageLoad,
+  renderElements,
+  renderSelection,
+  renderSelectionArea,
+} from "@/lib/renderer";
+import {
+  findElementAt,
+  findElementsAlongSegment,
+  getPointsBounds,
+  getRotatedBounds,
+  getStrokeStyle,
+  resolveElements,
+  unionBounds,
+} from "@/lib/elements";
+import {
+  SelectionFrame,
+  TransformHandle,
+  findElementsInBounds,
+  findElementsInLasso,
+  findHandleAt,
+  getSelectionFrame,
+  moveSelection,
+  restyleSelection,
+  rotateSelection,
+  scaleSelection,
+} from "@/lib/selection";
+import {
+  DEFAULT_VIEWPORT,
+  applyViewportTransform,
+  fitViewport,
+  getVisibleBounds,
+  panViewport,
+  screenToWorld,
+  worldToScreen,
+  zoomViewport,
+} from "@/lib/viewport";
+import {
+  expandToGroups,
+  getGroupElementIds,
+  getNextGroupName,
+  getTopLevelIds,
+  resolveGroups,
+} from "@/lib/groups";
+import { snapPoint, snapValue } from "@/lib/settings";
+import {
+  FRAME_COLOR,
+  MIN_FRAME_SIZE,
+  getFrames,
+  getNextFrameName,
+  withFrameContents,
+} from "@/lib/frames";
+import {
+  arrangeByLayer,
+  isElementEditable,
+  isLayerEditable,
+} from "@/lib/layers";
+import { ReorderCommand, reorderElements } from "@/lib/zorder";
+import { isImageFile } from "@/lib/assets";
+import {
+  CONNECTOR_LABEL_FONT_SIZE,
+  MIN_CONNECTOR_LENGTH,
+  findBindingTarget,
+  getConnectorRoute,
+  getRouteMidpoint,
+  routeConnectors,
+} from "@/lib/connectors";
 import { cn } from "@/lib/utils";
+import { TextEditor } from "./TextEditor";
+import { StickyNoteEditor } from "./StickyNoteEditor";
+import { ZoomControls } from "./ZoomControls";
+import { Minimap } from "./Minimap";
+import { SelectionToolbar } from "./SelectionToolbar";
+
+const DEFAULT_STICKY_SIZE = { width: 200, height: 200 };
+const ZOOM_STEP = 1.2;
+const HIT_TOLERANCE = 4;
+
+interface TransformState {
+  mode: "move" | "scale" | "rotate";
+  handle?: TransformHandle;
+  start: Point;
+  frame: SelectionFrame;
+  targets: DrawingAction[];
+  hasMoved: boolean;
+}
+
+// A marquee keeps its start and current corner, a lasso every point of its loop
+interface SelectionArea {
+  mode: SelectMode;
+  points: Point[];
+  // Shift-drag adds to the current selection instead of replacing it
+  additive: boolean;
+}
 
 interface WhiteboardCanvasProps {
   actions: DrawingAction[];
@@ -8,17 +117,43 @@ interface WhiteboardCanvasProps {
   onContinueDrawing: (point: Point) => void;
   onFinishDrawing: () => void;
   onCursorMove: (point: Point) => void;
-  currentTool: {
-    type: "pen" | "eraser" | "highlighter" | "shape";
-    color: string;
-    strokeWidth: number;
-    opacity: number;
-  };
+  onCreateText: (point: Point, content: string) => void;
+  onCreateSticky: (
+    point: Point,
+    content: string,
+    size: { width: number; height: number }
+  ) => void;
+  onUpdateElements: (changes: Record<string, ElementChanges>) => void;
+  onDeleteElements: (ids: string[]) => void;
+  onCreateFrame: (bounds: Bounds, name: string) => void;
+  // A connector's route and the ids of the elements its ends are bound to
+  onCreateConnector: (
+    points: Point[],
+    startBinding?: string,
+    endBinding?: string
+  ) => void;
+  // Pasted and dropped image files, with the board point to centre them on
+  onAddImages: (files: File[], point: Point) => void;
+  // Returns the ids of the copies so they can be selected
+  onDuplicateElements: (ids: string[]) => string[];
+  onGroupElements: (memberIds: string[], name: string) => void;
+  onUngroupElements: (groupIds: string[]) => void;
+  viewport: Viewport;
+  onViewportChange: (viewport: Viewport) => void;
+  onVisibleBoundsChange: (bounds: Bounds) => void;
+  // Told which elements are selected, e.g. so the selection can be exported
+  onSelectionChange?: (ids: string[]) => void;
+  settings: WhiteboardSettings;
+  // Layers bottom to top, and the one new elements are drawn on
+  layers: Layer[];
+  activeLayer: Layer;
+  currentTool: DrawingTool;
   collaborators: Array<{
     id: string;
     name: string;
     color: string;
     cursor?: Point;
+    viewport?: Bounds;
     isActive: boolean;
   }>;
   className?: string;
@@ -30,6 +165,23 @@ export function WhiteboardCanvas({
   onContinueDrawing,
   onFinishDrawing,
   onCursorMove,
+  onCreateText,
+  onCreateSticky,
+  onUpdateElements,
+  onDeleteElements,
+  onCreateFrame,
+  onCreateConnector,
+  onAddImages,
+  onDuplicateElements,
+  onGroupElements,
+  onUngroupElements,
+  viewport,
+  onViewportChange,
+  onVisibleBoundsChange,
+  onSelectionChange,
+  settings,
+  layers,
+  activeLayer,
   currentTool,
   collaborators,
   className,
@@ -39,6 +191,301 @@ export function WhiteboardCanvas({
   const [canvasSize, setCanvasSize] = useState({ width: 800, height: 600 });
   const [currentPath, setCurrentPath] = useState<Point[]>([]);
   const [isLocalDrawing, setIsLocalDrawing] = useState(false);
+  const [editor, setEditor] = useState<{
+    type: "text" | "sticky";
+    point: Point;
+    // Set when editing an element that is already on the board
+    element?: DrawingAction;
+  } | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [draftChanges, setDraftChanges] = useState<
+    Record<string, ElementChanges>
+  >({});
+  const transformRef = useRef<TransformState | null>(null);
+  const [selectionArea, setSelectionArea] = useState<SelectionArea | null>(null);
+  const [isSpacePressed, setIsSpacePressed] = useState(false);
+  // Last screen position while panning with space-drag or the middle button
+  const [panStart, setPanStart] = useState<Point | null>(null);
+  // Elements touched by the object eraser stay hidden until the stroke ends
+  const [erasedIds, setErasedIds] = useState<string[]>([]);
+  const eraseFromRef = useRef<Point | null>(null);
+  // The element the connector being drawn starts on, if any
+  const [connectorStart, setConnectorStart] = useState<string | undefined>();
+  const viewportRef = useRef(viewport);
+  viewportRef.current = viewport;
+
+  const allElements = useMemo(
+    () => routeConnectors(resolveElements(actions)),
+    [actions]
+  );
+  // Only elements on visible layers, stacked layer by layer
+  const elements = useMemo(
+    () => arrangeByLayer(allElements, layers),
+    [allElements, layers]
+  );
+  // Elements on hidden and locked layers can't be picked, moved or erased
+  const editableElements = useMemo(
+    () => elements.filter((element) => isElementEditable(element, layers)),
+    [elements, layers]
+  );
+  const groups = useMemo(
+    () => resolveGroups(actions, allElements),
+    [actions, allElements]
+  );
+
+  const isObjectEraser =
+    currentTool.type === "eraser" &&
+    (currentTool.eraserMode || "object") === "object";
+
+  // Elements with the in-progress transform applied for local preview, and
+  // connectors re-routed to follow it, even to elements on hidden layers.
+  // The element being edited inline is hidden behind its editor
+  const displayElements = useMemo(() => {
+    const withDraft = (element: DrawingAction) =>
+      draftChanges[element.id]
+        ? { ...element, ...draftChanges[element.id] }
+        : element;
+
+    return routeConnectors(
+      elements
+        .filter(
+          (element) =>
+            element.id !== editor?.element?.id &&
+            !erasedIds.includes(element.id)
+        )
+        .map(withDraft),
+      allElements.map(withDraft)
+    );
+  }, [elements, allElements, draftChanges, editor, erasedIds]);
+  const editableDisplayElements = useMemo(
+    () =>
+      displayElements.filter((element) => isElementEditable(element, layers)),
+    [displayElements, layers]
+  );
+
+  // The stroke or shape being drawn, shown the same way it will look once committed
+  const previewAction = useMemo((): DrawingAction | null => {
+    if (!isLocalDrawing || currentPath.length === 0) return null;
+
+    if (currentTool.type === "frame") {
+      const bounds = getPointsBounds(currentPath);
+      return {
+        id: "preview",
+        type: "frame",
+        points: [{ x: bounds.x, y: bounds.y }],
+        color: FRAME_COLOR,
+        strokeWidth: 1,
+        width: bounds.width,
+        height: bounds.height,
+        name: "",
+        layerId: activeLayer.id,
+        timestamp: Date.now(),
+        userId: "",
+      };
+    }
+
+    // Connectors preview with the bindings they will get, routed around those elements
+    if (currentTool.type === "connector") {
+      const end = currentPath[currentPath.length - 1];
+      const endTarget = findBindingTarget(
+        editableDisplayElements,
+        end,
+        HIT_TOLERANCE / viewport.zoom
+      );
+      const connector: DrawingAction = {
+        id: "preview",
+        type: "connector",
+        points: [currentPath[0], end],
+        color: currentTool.color,
+        strokeWidth: currentTool.strokeWidth,
+        routing: currentTool.connectorRouting || "straight",
+        startArrowhead: currentTool.startArrowhead,
+        endArrowhead: currentTool.endArrowhead,
+        startBinding: connectorStart,
+        endBinding:
+          endTarget && endTarget.id !== connectorStart ? endTarget.id : undefined,
+        layerId: activeLayer.id,
+        timestamp: Date.now(),
+        userId: "",
+      };
+      return {
+        ...connector,
+        points: getConnectorRoute(
+          connector,
+          new Map(editableDisplayElements.map((element) => [element.id, element]))
+        ),
+      };
+    }
+
+    if (currentTool.type === "shape") {
+      return {
+        id: "preview",
+        type: "shape",
+        shape: currentTool.shape || "rectangle",
+        points: [currentPath[0], currentPath[currentPath.length - 1]],
+        color: currentTool.color,
+        strokeWidth: currentTool.strokeWidth,
+        ...getStrokeStyle(currentTool),
+        layerId: activeLayer.id,
+        timestamp: Date.now(),
+        userId: "",
+      };
+    }
+
+    if (currentTool.type === "eraser") {
+      return {
+        id: "preview",
+        type: "erase",
+        points: currentPath,
+        color: currentTool.color,
+        strokeWidth: currentTool.strokeWidth,
+        layerId: activeLayer.id,
+        timestamp: Date.now(),
+        userId: "",
+      };
+    }
+
+    return {
+      id: "preview",
+      type: "draw",
+      points: currentPath,
+      color: currentTool.color,
+      strokeWidth: currentTool.strokeWidth,
+      ...getStrokeStyle(currentTool),
+      layerId: activeLayer.id,
+      timestamp: Date.now(),
+      userId: "",
+    };
+  }, [
+    isLocalDrawing,
+    currentPath,
+    currentTool,
+    activeLayer.id,
+    editableDisplayElements,
+    viewport.zoom,
+    connectorStart,
+  ]);
+
+  const selectedElements = useMemo(
+    () =>
+      editableDisplayElements.filter((element) =>
+        selectedIds.includes(element.id)
+      ),
+    [editableDisplayElements, selectedIds]
+  );
+
+  const selectedConnector = selectedElements.find(
+    (element) => element.type === "connector"
+  );
+
+  const selectionFrame = useMemo(
+    () => getSelectionFrame(selectedElements),
+    [selectedElements]
+  );
+
+  // Drop the selection when switching to a drawing tool
+  useEffect(() => {
+    if (currentTool.type !== "select") {
+      setSelectedIds([]);
+    }
+  }, [currentTool.type]);
+
+  // Bulk operations on the selection. Each one is a single action, so it
+  // syncs to collaborators and undoes in one step
+  const deleteSelected = useCallback(() => {
+    onDeleteElements(selectedElements.map((element) => element.id));
+    setSelectedIds([]);
+  }, [selectedElements, onDeleteElements]);
+
+  const duplicateSelected = useCallback(() => {
+    const ids = onDuplicateElements(
+      selectedElements.map((element) => element.id)
+    );
+    if (ids.length > 0) {
+      setSelectedIds(ids);
+    }
+  }, [selectedElements, onDuplicateElements]);
+
+  // The top-level elements and groups that make up the selection
+  const selectedUnits = useMemo(
+    () => getTopLevelIds(selectedIds, groups),
+    [selectedIds, groups]
+  );
+  const selectedGroups = useMemo(
+    () => groups.filter((group) => selectedUnits.includes(group.id)),
+    [groups, selectedUnits]
+  );
+
+  const groupSelected = useCallback(() => {
+    onGroupElements(selectedUnits, getNextGroupName(groups));
+  }, [selectedUnits, groups, onGroupElements]);
+
+  const ungroupSelected = useCallback(() => {
+    onUngroupElements(selectedGroups.map((group) => group.id));
+  }, [selectedGroups, onUngroupElements]);
+
+  const reorderSelected = useCallback(
+    (command: ReorderCommand) => {
+      onUpdateElements(reorderElements(elements, selectedIds, command));
+    },
+    [elements, selectedIds, onUpdateElements]
+  );
+
+  const restyleSelected = useCallback(
+    (style: Pick<ElementChanges, "color" | "strokeWidth" | "routing">) => {
+      onUpdateElements(restyleSelection(selectedElements, style));
+    },
+    [selectedElements, onUpdateElements]
+  );
+
+  // Delete the selection with Delete/Backspace, duplicate it with Ctrl/Cmd+D,
+  // group it with Ctrl/Cmd+G, ungroup with Ctrl/Cmd+Shift+G, restack it with
+  // Ctrl/Cmd+] and Ctrl/Cmd+[ (add Shift to go all the way) and drop it with Escape
+  useEffect(() => {
+    if (currentTool.type !== "select" || selectedIds.length === 0) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target?.tagName === "INPUT" || target?.tagName === "TEXTAREA") {
+        return;
+      }
+
+      if (e.key === "Delete" || e.key === "Backspace") {
+        e.preventDefault();
+        deleteSelected();
+      } else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "d") {
+        e.preventDefault();
+        duplicateSelected();
+      } else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "g") {
+        e.preventDefault();
+        if (e.shiftKey) {
+          ungroupSelected();
+        } else if (selectedUnits.length > 1) {
+          groupSelected();
+        }
+      } else if ((e.ctrlKey || e.metaKey) && (e.code === "BracketRight" || e.code === "BracketLeft")) {
+        e.preventDefault();
+        const up = e.code === "BracketRight";
+        reorderSelected(
+          e.shiftKey ? (up ? "front" : "back") : up ? "forward" : "backward"
+        );
+      } else if (e.key === "Escape") {
+        setSelectedIds([]);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [
+    currentTool.type,
+    selectedIds,
+    selectedUnits,
+    deleteSelected,
+    duplicateSelected,
+    groupSelected,
+    ungroupSelected,
+    reorderSelected,
+  ]);
 
   // Handle canvas resize
   useEffect(() => {
@@ -58,81 +505,143 @@ export function WhiteboardCanvas({
     return () => window.removeEventListener("resize", handleResize);
   }, []);
 
-  // Redraw canvas when actions change
+  // Share the visible part of the board so collaborators can see where we are
+  useEffect(() => {
+    onVisibleBoundsChange(
+      getVisibleBounds(viewport, canvasSize.width, canvasSize.height)
+    );
+  }, [viewport, canvasSize, onVisibleBoundsChange]);
+
+  useEffect(() => {
+    onSelectionChange?.(selectedIds);
+  }, [selectedIds, onSelectionChange]);
+
+  // Hold space to pan with the left mouse button
+  useEffect(() => {
+    const isTyping = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      return target?.tagName === "INPUT" || target?.tagName === "TEXTAREA";
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== "Space" || isTyping(e)) return;
+      e.preventDefault();
+      setIsSpacePressed(true);
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== "Space") return;
+      setIsSpacePressed(false);
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+    };
+  }, []);
+
+  // Zoom around the pointer with the wheel. React registers wheel listeners
+  // as passive, so this one is attached by hand to be able to preventDefault
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
 
-    const ctx = canvas.getContext("2d");
-    if (!ctx) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      const anchor = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+      onViewportChange(
+        zoomViewport(viewportRef.current, Math.pow(1.0015, -e.deltaY), anchor)
+      );
+    };
+
+    canvas.addEventListener("wheel", handleWheel, { passive: false });
+    return () => canvas.removeEventListener("wheel", handleWheel);
+  }, [onViewportChange]);
 
-    // Clear canvas
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-    ctx.fillStyle = "#ffffff";
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-    // Draw all actions
-    actions.forEach((action) => {
-      if (action.type === "clear") {
-        ctx.clearRect(0, 0, canvas.width, canvas.height);
-        ctx.fillStyle = "#ffffff";
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
+  // Images load after the first draw, so redraw whenever one arrives
+  const [imageLoadCount, setImageLoadCount] = useState(0);
+  useEffect(
+    () => onImageLoad(() => setImageLoadCount((count) => count + 1)),
+    []
+  );
+
+  // Paste images onto the middle of the visible board
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target?.tagName === "INPUT" || target?.tagName === "TEXTAREA") {
         return;
       }
 
-      if (action.points.length === 0) return;
+      const files = Array.from(e.clipboardData?.files || []).filter(isImageFile);
+      if (files.length === 0) return;
 
-      ctx.beginPath();
-      ctx.strokeStyle = action.color;
-      ctx.lineWidth = action.strokeWidth;
-      ctx.lineCap = "round";
-      ctx.lineJoin = "round";
-      ctx.globalAlpha = action.type === "erase" ? 1 : 0.8;
+      e.preventDefault();
+      onAddImages(
+        files,
+        screenToWorld(
+          { x: canvasSize.width / 2, y: canvasSize.height / 2 },
+          viewportRef.current
+        )
+      );
+    };
 
-      if (action.type === "erase") {
-        ctx.globalCompositeOperation = "destination-out";
-      } else {
-        ctx.globalCompositeOperation = "source-over";
-      }
+    window.addEventListener("paste", handlePaste);
+    return () => window.removeEventListener("paste", handlePaste);
+  }, [onAddImages, canvasSize]);
 
-      // Draw the path
-      const firstPoint = action.points[0];
-      ctx.moveTo(firstPoint.x, firstPoint.y);
+  // Redraw canvas when actions change
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
 
-      for (let i = 1; i < action.points.length; i++) {
-        const point = action.points[i];
-        ctx.lineTo(point.x, point.y);
-      }
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
 
-      ctx.stroke();
-    });
-
-    // Draw current local path if drawing
-    if (isLocalDrawing && currentPath.length > 0) {
-      ctx.beginPath();
-      ctx.strokeStyle = currentTool.color;
-      ctx.lineWidth = currentTool.strokeWidth;
-      ctx.lineCap = "round";
-      ctx.lineJoin = "round";
-      ctx.globalAlpha = currentTool.type === "eraser" ? 1 : currentTool.opacity;
-      ctx.globalCompositeOperation =
-        currentTool.type === "eraser" ? "destination-out" : "source-over";
-
-      const firstPoint = currentPath[0];
-      ctx.moveTo(firstPoint.x, firstPoint.y);
-
-      for (let i = 1; i < currentPath.length; i++) {
-        const point = currentPath[i];
-        ctx.lineTo(point.x, point.y);
-      }
+    // Draw all elements, with the local preview on top of its layer so erasing previews correctly
+    renderElements(
+      ctx,
+      previewAction
+        ? arrangeByLayer([...displayElements, previewAction], layers)
+        : displayElements,
+      canvas.width,
+      canvas.height,
+      viewport,
+      settings
+    );
 
-      ctx.stroke();
+    // Overlays are drawn in world coordinates too
+    ctx.save();
+    applyViewportTransform(ctx, viewport);
+
+    if (selectionFrame) {
+      renderSelection(ctx, selectionFrame, viewport.zoom);
     }
 
-    // Reset composite operation
-    ctx.globalCompositeOperation = "source-over";
-    ctx.globalAlpha = 1;
-  }, [actions, isLocalDrawing, currentPath, currentTool]);
+    if (selectionArea) {
+      renderSelectionArea(
+        ctx,
+        selectionArea.mode,
+        selectionArea.points,
+        viewport.zoom
+      );
+    }
+
+    ctx.restore();
+  }, [
+    displayElements,
+    previewAction,
+    selectionFrame,
+    selectionArea,
+    viewport,
+    settings,
+    layers,
+    canvasSize,
+    imageLoadCount,
+  ]);
 
   // Draw collaborator cursors
   useEffect(() => {
@@ -151,155 +660,608 @@ export function WhiteboardCanvas({
       if (cursorCtx) {
         cursorCtx.clearRect(0, 0, cursorCanvas.width, cursorCanvas.height);
 
-        // Draw collaborator cursors
+        // Draw collaborator cursors, which are shared in world coordinates
         collaborators.forEach((collaborator) => {
           if (collaborator.cursor && collaborator.isActive) {
+            const cursor = worldToScreen(collaborator.cursor, viewport);
+
             cursorCtx.fillStyle = collaborator.color;
             cursorCtx.beginPath();
-            cursorCtx.arc(
-              collaborator.cursor.x,
-              collaborator.cursor.y,
-              8,
-              0,
-              2 * Math.PI
-            );
+            cursorCtx.arc(cursor.x, cursor.y, 8, 0, 2 * Math.PI);
             cursorCtx.fill();
 
             // Draw collaborator name
             cursorCtx.fillStyle = "#000000";
             cursorCtx.font = "12px Arial";
-            cursorCtx.fillText(
-              collaborator.name,
-              collaborator.cursor.x + 12,
-              collaborator.cursor.y - 8
-            );
+            cursorCtx.fillText(collaborator.name, cursor.x + 12, cursor.y - 8);
           }
         });
       }
     }
-  }, [collaborators]);
+  }, [collaborators, viewport, canvasSize]);
 
+  // Pointer position in canvas pixels
+  const getScreenPoint = useCallback(
+    (e: React.MouseEvent<HTMLCanvasElement>): Point => {
+      const canvas = canvasRef.current;
+      if (!canvas) return { x: 0, y: 0 };
+
+      const rect = canvas.getBoundingClientRect();
+      const scaleX = canvas.width / rect.width;
+      const scaleY = canvas.height / rect.height;
+
+      return {
+        x: (e.clientX - rect.left) * scaleX,
+        y: (e.clientY - rect.top) * scaleY,
+      };
+    },
+    []
+  );
+
+  // Pointer position on the board, which is what gets stored and shared.
+  // Pens also record their pressure; mice report a fixed value so it is skipped
   const getPointFromEvent = useCallback(
     (
       e:
+        | React.PointerEvent<HTMLCanvasElement>
         | React.MouseEvent<HTMLCanvasElement>
-        | React.TouchEvent<HTMLCanvasElement>
     ): Point => {
+      const point = screenToWorld(getScreenPoint(e), viewport);
+      if ("pointerType" in e && e.pointerType === "pen") {
+        return { ...point, pressure: e.pressure };
+      }
+      return point;
+    },
+    [getScreenPoint, viewport]
+  );
+
+  // Convert a board position to CSS pixels relative to the container
+  const toScreenPoint = useCallback(
+    (point: Point): Point => {
+      const screen = worldToScreen(point, viewport);
       const canvas = canvasRef.current;
-      if (!canvas) return { x: 0, y: 0 };
+      if (!canvas || canvas.width === 0 || canvas.height === 0) return screen;
 
       const rect = canvas.getBoundingClientRect();
-      const scaleX = canvas.width / rect.width;
-      const scaleY = canvas.height / rect.height;
+      return {
+        x: screen.x * (rect.width / canvas.width),
+        y: screen.y * (rect.height / canvas.height),
+      };
+    },
+    [viewport]
+  );
+
+  const zoomAroundCenter = useCallback(
+    (factor: number) => {
+      onViewportChange(
+        zoomViewport(viewport, factor, {
+          x: canvasSize.width / 2,
+          y: canvasSize.height / 2,
+        })
+      );
+    },
+    [viewport, canvasSize, onViewportChange]
+  );
+
+  const resetZoom = useCallback(() => {
+    zoomAroundCenter(1 / viewport.zoom);
+  }, [viewport.zoom, zoomAroundCenter]);
 
-      let clientX: number, clientY: number;
+  // Frame everything on the board, or return to the origin when it is empty
+  const zoomToFit = useCallback(() => {
+    const visible = elements.filter((element) => element.type !== "erase");
+    if (visible.length === 0) {
+      onViewportChange(DEFAULT_VIEWPORT);
+      return;
+    }
 
-      if ("touches" in e) {
-        // Touch event
-        clientX = e.touches[0].clientX;
-        clientY = e.touches[0].clientY;
-      } else {
-        // Mouse event
-        clientX = e.clientX;
-        clientY = e.clientY;
+    onViewportChange(
+      fitViewport(
+        unionBounds(visible.map(getRotatedBounds)),
+        canvasSize.width,
+        canvasSize.height
+      )
+    );
+  }, [elements, canvasSize, onViewportChange]);
+
+  const startTransform = useCallback(
+    (point: Point, additive: boolean) => {
+      const handle =
+        selectionFrame && findHandleAt(selectionFrame, point, viewport.zoom);
+      if (selectionFrame && handle) {
+        transformRef.current = {
+          mode: handle === "rotate" ? "rotate" : "scale",
+          handle,
+          start: point,
+          frame: selectionFrame,
+          targets: selectedElements,
+          hasMoved: false,
+        };
+        return;
       }
 
-      return {
-        x: (clientX - rect.left) * scaleX,
-        y: (clientY - rect.top) * scaleY,
+      const hit = findElementAt(
+        editableElements,
+        point,
+        HIT_TOLERANCE / viewport.zoom
+      );
+
+      // Dragging on empty space selects everything inside the marquee or lasso
+      if (!hit) {
+        if (!additive) {
+          setSelectedIds([]);
+        }
+        setSelectionArea({
+          mode: currentTool.selectMode || "marquee",
+          points: [point],
+          additive,
+        });
+        return;
+      }
+
+      // Clicking any element of a group picks up the whole group
+      const unit = expandToGroups([hit.id], groups);
+
+      // Shift-click adds or removes a single element or group
+      if (additive) {
+        setSelectedIds((prev) =>
+          prev.includes(hit.id)
+            ? prev.filter((id) => !unit.includes(id))
+            : [...prev, ...unit.filter((id) => !prev.includes(id))]
+        );
+        return;
+      }
+
+      const ids = selectedIds.includes(hit.id) ? selectedIds : unit;
+      // Frames carry along everything inside them
+      const targets = withFrameContents(
+        editableElements.filter((element) => ids.includes(element.id)),
+        editableElements
+      );
+      setSelectedIds(ids);
+      transformRef.current = {
+        mode: "move",
+        start: point,
+        frame: getSelectionFrame(targets)!,
+        targets,
+        hasMoved: false,
       };
     },
-    []
+    [
+      editableElements,
+      groups,
+      selectedIds,
+      selectedElements,
+      selectionFrame,
+      viewport.zoom,
+      currentTool.selectMode,
+    ]
   );
 
-  const handleMouseDown = useCallback(
-    (e: React.MouseEvent<HTMLCanvasElement>) => {
-      e.preventDefault();
-      const point = getPointFromEvent(e);
+  const continueTransform = useCallback((point: Point) => {
+    if (selectionArea) {
+      setSelectionArea({
+        ...selectionArea,
+        points:
+          selectionArea.mode === "marquee"
+            ? [selectionArea.points[0], point]
+            : [...selectionArea.points, point],
+      });
+      return;
+    }
+
+    const transform = transformRef.current;
+    if (!transform) return;
+
+    if (Math.hypot(point.x - transform.start.x, point.y - transform.start.y) > 1) {
+      transform.hasMoved = true;
+    }
+    if (!transform.hasMoved) return;
+
+    if (transform.mode === "move") {
+      let dx = point.x - transform.start.x;
+      let dy = point.y - transform.start.y;
+
+      // Snap the selection's top-left corner rather than the pointer
+      if (settings.snapToGrid) {
+        const { x, y } = transform.frame.bounds;
+        dx = snapValue(x + dx, settings.gridSize) - x;
+        dy = snapValue(y + dy, settings.gridSize) - y;
+      }
+
+      setDraftChanges(moveSelection(transform.targets, dx, dy));
+    } else if (transform.mode === "scale" && transform.handle !== "rotate") {
+      setDraftChanges(
+        scaleSelection(
+          transform.targets,
+          transform.frame,
+          transform.handle!,
+          snapPoint(point, settings)
+        )
+      );
+    } else if (transform.mode === "rotate") {
+      const { center } = transform.frame;
+      const angle =
+        Math.atan2(point.y - center.y, point.x - center.x) -
+        Math.atan2(transform.start.y - center.y, transform.start.x - center.x);
+      setDraftChanges(rotateSelection(transform.targets, transform.frame, angle));
+    }
+  }, [settings, selectionArea]);
+
+  const finishTransform = useCallback(() => {
+    if (selectionArea) {
+      const { mode, points, additive } = selectionArea;
+      const found =
+        mode === "marquee"
+          ? findElementsInBounds(
+              editableDisplayElements,
+              getPointsBounds([points[0], points[points.length - 1]])
+            )
+          : findElementsInLasso(editableDisplayElements, points);
+      const foundIds = found.map((element) => element.id);
+
+      // Groups are only picked up when every one of their elements is inside
+      const ids = getTopLevelIds(foundIds, groups)
+        .map((id) => getGroupElementIds(id, groups))
+        .filter((unit) => unit.every((id) => foundIds.includes(id)))
+        .flat();
+
+      setSelectedIds((prev) =>
+        additive ? [...prev, ...ids.filter((id) => !prev.includes(id))] : ids
+      );
+      setSelectionArea(null);
+      return;
+    }
+
+    const transform = transformRef.current;
+    transformRef.current = null;
+
+    if (transform?.hasMoved && Object.keys(draftChanges).length > 0) {
+      onUpdateElements(draftChanges);
+    }
+    setDraftChanges({});
+  }, [
+    draftChanges,
+    onUpdateElements,
+    selectionArea,
+    editableDisplayElements,
+    groups,
+  ]);
+
+  // Hide every element the object eraser passes over
+  const eraseAlong = useCallback(
+    (from: Point, to: Point) => {
+      const tolerance = Math.max(
+        currentTool.strokeWidth / 2,
+        HIT_TOLERANCE / viewport.zoom
+      );
+      const hits = findElementsAlongSegment(
+        editableDisplayElements,
+        from,
+        to,
+        tolerance
+      );
+      if (hits.length === 0) return;
+
+      setErasedIds((prev) => [
+        ...prev,
+        ...hits
+          .map((element) => element.id)
+          .filter((id) => !prev.includes(id)),
+      ]);
+    },
+    [currentTool.strokeWidth, viewport.zoom, editableDisplayElements]
+  );
+
+  const handlePointerStart = useCallback(
+    (point: Point, additive = false) => {
+      // The first click outside an open editor only finishes the edit
+      if (editor) {
+        (document.activeElement as HTMLElement | null)?.blur();
+        return;
+      }
+
+      // New elements go on the active layer, which can't be hidden or locked
+      if (
+        currentTool.type !== "select" &&
+        !isObjectEraser &&
+        !isLayerEditable(activeLayer)
+      ) {
+        return;
+      }
+
+      if (currentTool.type === "text" || currentTool.type === "sticky") {
+        setEditor({ type: currentTool.type, point: snapPoint(point, settings) });
+        return;
+      }
+
       setIsDrawing(true);
+
+      if (currentTool.type === "select") {
+        startTransform(point, additive);
+        return;
+      }
+
+      if (isObjectEraser) {
+        eraseFromRef.current = point;
+        eraseAlong(point, point);
+        return;
+      }
+
+      // Frames and connectors are dragged out locally and only committed once the drag ends
+      if (currentTool.type === "frame" || currentTool.type === "connector") {
+        if (currentTool.type === "connector") {
+          setConnectorStart(
+            findBindingTarget(
+              editableDisplayElements,
+              point,
+              HIT_TOLERANCE / viewport.zoom
+            )?.id
+          );
+        }
+        setIsLocalDrawing(true);
+        setCurrentPath([snapPoint(point, settings)]);
+        return;
+      }
+
+      // Shapes snap to the grid; freehand strokes never do
+      const start =
+        currentTool.type === "shape" ? snapPoint(point, settings) : point;
       setIsLocalDrawing(true);
-      setCurrentPath([point]);
-      onStartDrawing(point);
+      setCurrentPath([start]);
+      onStartDrawing(start);
     },
-    [getPointFromEvent, onStartDrawing]
+    [
+      onStartDrawing,
+      currentTool.type,
+      editor,
+      startTransform,
+      settings,
+      isObjectEraser,
+      eraseAlong,
+      activeLayer,
+      editableDisplayElements,
+      viewport.zoom,
+    ]
   );
 
-  const handleMouseMove = useCallback(
-    (e: React.MouseEvent<HTMLCanvasElement>) => {
-      e.preventDefault();
-      const point = getPointFromEvent(e);
-
+  const handlePointerMove = useCallback(
+    (point: Point) => {
       onCursorMove(point);
 
-      if (isDrawing) {
-        setCurrentPath((prev) => [...prev, point]);
-        onContinueDrawing(point);
+      if (!isDrawing) return;
+
+      if (currentTool.type === "select") {
+        continueTransform(point);
+        return;
+      }
+
+      if (isObjectEraser) {
+        eraseAlong(eraseFromRef.current || point, point);
+        eraseFromRef.current = point;
+        return;
+      }
+
+      if (currentTool.type === "frame" || currentTool.type === "connector") {
+        setCurrentPath((prev) => [prev[0], snapPoint(point, settings)]);
+        return;
       }
+
+      const next =
+        currentTool.type === "shape" ? snapPoint(point, settings) : point;
+      setCurrentPath((prev) => [...prev, next]);
+      onContinueDrawing(next);
     },
-    [getPointFromEvent, onCursorMove, onContinueDrawing, isDrawing]
+    [
+      onCursorMove,
+      onContinueDrawing,
+      isDrawing,
+      currentTool.type,
+      continueTransform,
+      settings,
+      isObjectEraser,
+      eraseAlong,
+    ]
   );
 
-  const handleMouseUp = useCallback(
+  const handlePointerEnd = useCallback(() => {
+    if (!isDrawing) return;
+
+    setIsDrawing(false);
+
+    if (currentTool.type === "select") {
+      finishTransform();
+      return;
+    }
+
+    // Everything erased in one stroke is deleted, and undone, together
+    if (isObjectEraser) {
+      eraseFromRef.current = null;
+      if (erasedIds.length > 0) {
+        onDeleteElements(erasedIds);
+      }
+      setErasedIds([]);
+      return;
+    }
+
+    setIsLocalDrawing(false);
+    setCurrentPath([]);
+
+    if (currentTool.type === "frame") {
+      const bounds = getPointsBounds(currentPath);
+      if (bounds.width >= MIN_FRAME_SIZE && bounds.height >= MIN_FRAME_SIZE) {
+        onCreateFrame(bounds, getNextFrameName(getFrames(allElements)));
+      }
+      return;
+    }
+
+    if (currentTool.type === "connector") {
+      const start = currentPath[0];
+      const end = currentPath[currentPath.length - 1];
+      if (
+        previewAction &&
+        Math.hypot(end.x - start.x, end.y - start.y) >= MIN_CONNECTOR_LENGTH
+      ) {
+        onCreateConnector(
+          previewAction.points,
+          previewAction.startBinding,
+          previewAction.endBinding
+        );
+      }
+      setConnectorStart(undefined);
+      return;
+    }
+
+    onFinishDrawing();
+  }, [
+    isDrawing,
+    currentTool.type,
+    finishTransform,
+    onFinishDrawing,
+    isObjectEraser,
+    erasedIds,
+    onDeleteElements,
+    currentPath,
+    allElements,
+    onCreateFrame,
+    previewAction,
+    onCreateConnector,
+  ]);
+
+  // Double-click text, a sticky note or a connector's label with the select tool to edit it
+  const handleDoubleClick = useCallback(
     (e: React.MouseEvent<HTMLCanvasElement>) => {
-      e.preventDefault();
-      if (isDrawing) {
-        setIsDrawing(false);
-        setIsLocalDrawing(false);
-        setCurrentPath([]);
-        onFinishDrawing();
+      if (currentTool.type !== "select" || editor) return;
+
+      const element = findElementAt(
+        editableElements,
+        getPointFromEvent(e),
+        HIT_TOLERANCE / viewport.zoom
+      );
+      if (element && (element.type === "text" || element.type === "sticky")) {
+        setSelectedIds([]);
+        setEditor({ type: element.type, point: element.points[0], element });
+      } else if (element?.type === "connector") {
+        // Connector labels are edited where they sit, halfway along the route
+        setSelectedIds([]);
+        setEditor({
+          type: "text",
+          point: getRouteMidpoint(element.points),
+          element: {
+            ...element,
+            text: element.text || {
+              content: "",
+              fontSize: CONNECTOR_LABEL_FONT_SIZE,
+              align: "center",
+            },
+          },
+        });
       }
     },
-    [isDrawing, onFinishDrawing]
+    [
+      currentTool.type,
+      editor,
+      editableElements,
+      getPointFromEvent,
+      viewport.zoom,
+    ]
   );
 
-  const handleMouseLeave = useCallback(() => {
-    if (isDrawing) {
-      setIsDrawing(false);
-      setIsLocalDrawing(false);
-      setCurrentPath([]);
-      onFinishDrawing();
-    }
-  }, [isDrawing, onFinishDrawing]);
-
-  // Touch event handlers
-  const handleTouchStart = useCallback(
-    (e: React.TouchEvent<HTMLCanvasElement>) => {
+  // Mouse, pen and touch all arrive as pointer events. Only the primary
+  // pointer draws, so a resting palm or second finger is ignored
+  const handlePointerDown = useCallback(
+    (e: React.PointerEvent<HTMLCanvasElement>) => {
+      if (!e.isPrimary) return;
       e.preventDefault();
-      const point = getPointFromEvent(e);
-      setIsDrawing(true);
-      setIsLocalDrawing(true);
-      setCurrentPath([point]);
-      onStartDrawing(point);
+      e.currentTarget.setPointerCapture?.(e.pointerId);
+
+      // Middle-click or space-drag pans instead of using the current tool
+      if (e.button === 1 || isSpacePressed) {
+        setPanStart(getScreenPoint(e));
+        return;
+      }
+
+      handlePointerStart(getPointFromEvent(e), e.shiftKey);
     },
-    [getPointFromEvent, onStartDrawing]
+    [getPointFromEvent, getScreenPoint, handlePointerStart, isSpacePressed]
   );
 
-  const handleTouchMove = useCallback(
-    (e: React.TouchEvent<HTMLCanvasElement>) => {
+  const handlePointerMoveEvent = useCallback(
+    (e: React.PointerEvent<HTMLCanvasElement>) => {
+      if (!e.isPrimary) return;
       e.preventDefault();
-      const point = getPointFromEvent(e);
-
-      onCursorMove(point);
 
-      if (isDrawing) {
-        setCurrentPath((prev) => [...prev, point]);
-        onContinueDrawing(point);
+      if (panStart) {
+        const point = getScreenPoint(e);
+        onViewportChange(
+          panViewport(viewport, point.x - panStart.x, point.y - panStart.y)
+        );
+        setPanStart(point);
+        return;
       }
+
+      handlePointerMove(getPointFromEvent(e));
     },
-    [getPointFromEvent, onCursorMove, onContinueDrawing, isDrawing]
+    [
+      getPointFromEvent,
+      getScreenPoint,
+      handlePointerMove,
+      panStart,
+      viewport,
+      onViewportChange,
+    ]
   );
 
-  const handleTouchEnd = useCallback(
-    (e: React.TouchEvent<HTMLCanvasElement>) => {
+  const handlePointerUp = useCallback(
+    (e: React.PointerEvent<HTMLCanvasElement>) => {
+      if (!e.isPrimary) return;
       e.preventDefault();
-      if (isDrawing) {
-        setIsDrawing(false);
-        setIsLocalDrawing(false);
-        setCurrentPath([]);
-        onFinishDrawing();
+
+      if (panStart) {
+        setPanStart(null);
+        return;
       }
+
+      handlePointerEnd();
     },
-    [isDrawing, onFinishDrawing]
+    [handlePointerEnd, panStart]
+  );
+
+  const handlePointerCancel = useCallback(() => {
+    setPanStart(null);
+    handlePointerEnd();
+  }, [handlePointerEnd]);
+
+  // Accept image files dragged in from outside the browser
+  const handleDragOver = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+    if (e.dataTransfer.types.includes("Files")) {
+      e.preventDefault();
+      e.dataTransfer.dropEffect = "copy";
+    }
+  }, []);
+
+  const handleDrop = useCallback(
+    (e: React.DragEvent<HTMLDivElement>) => {
+      const files = Array.from(e.dataTransfer.files).filter(isImageFile);
+      if (files.length === 0) return;
+
+      e.preventDefault();
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+
+      const rect = canvas.getBoundingClientRect();
+      onAddImages(
+        files,
+        screenToWorld(
+          {
+            x: (e.clientX - rect.left) * (canvas.width / rect.width),
+            y: (e.clientY - rect.top) * (canvas.height / rect.height),
+          },
+          viewport
+        )
+      );
+    },
+    [onAddImages, viewport]
   );
 
   return (
@@ -308,20 +1270,31 @@ export function WhiteboardCanvas({
         "relative w-full h-full bg-white border border-gray-200",
         className
       )}
+      onDragOver={handleDragOver}
+      onDrop={handleDrop}
     >
       {/* Main drawing canvas */}
       <canvas
         ref={canvasRef}
         width={canvasSize.width}
         height={canvasSize.height}
-        className="absolute inset-0 cursor-crosshair"
-        onMouseDown={handleMouseDown}
-        onMouseMove={handleMouseMove}
-        onMouseUp={handleMouseUp}
-        onMouseLeave={handleMouseLeave}
-        onTouchStart={handleTouchStart}
-        onTouchMove={handleTouchMove}
-        onTouchEnd={handleTouchEnd}
+        className={cn(
+          "absolute inset-0",
+          panStart
+            ? "cursor-grabbing"
+            : isSpacePressed
+            ? "cursor-grab"
+            : currentTool.type === "select"
+            ? "cursor-default"
+            : currentTool.type === "text" || currentTool.type === "sticky"
+            ? "cursor-text"
+            : "cursor-crosshair"
+        )}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMoveEvent}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerCancel}
+        onDoubleClick={handleDoubleClick}
         style={{ touchAction: "none" }}
       />
 
@@ -332,6 +1305,129 @@ export function WhiteboardCanvas({
         height={canvasSize.height}
         className="absolute inset-0 pointer-events-none"
       />
+
+      {/* Inline text editor */}
+      {editor?.type === "text" && (
+        <TextEditor
+          key={`${editor.point.x}:${editor.point.y}`}
+          position={toScreenPoint(editor.point)}
+          color={editor.element?.color || currentTool.color}
+          fontSize={
+            (editor.element?.text?.fontSize || currentTool.fontSize || 20) *
+            viewport.zoom
+          }
+          align={
+            editor.element?.text?.align || currentTool.textAlign || "left"
+          }
+          initialValue={editor.element?.text?.content}
+          onCommit={(content) => {
+            const element = editor.element;
+            if (element?.text) {
+              onUpdateElements({
+                [element.id]: { text: { ...element.text, content } },
+              });
+            } else {
+              onCreateText(editor.point, content);
+            }
+            setEditor(null);
+          }}
+          onCancel={() => setEditor(null)}
+        />
+      )}
+
+      {/* Inline sticky note editor */}
+      {editor?.type === "sticky" && (
+        <StickyNoteEditor
+          key={`${editor.point.x}:${editor.point.y}`}
+          position={toScreenPoint(editor.point)}
+          initialSize={{
+            width:
+              (editor.element?.width || DEFAULT_STICKY_SIZE.width) *
+              viewport.zoom,
+            height:
+              (editor.element?.height || DEFAULT_STICKY_SIZE.height) *
+              viewport.zoom,
+          }}
+          fill={
+            editor.element?.fill || currentTool.stickyColor || "#fef08a"
+          }
+          color={editor.element?.color || "#1f2937"}
+          fontSize={
+            (editor.element?.text?.fontSize || currentTool.fontSize || 20) *
+            viewport.zoom
+          }
+          align={
+            editor.element?.text?.align || currentTool.textAlign || "left"
+          }
+          initialValue={editor.element?.text?.content}
+          onCommit={(content, screenSize) => {
+            const element = editor.element;
+            const size = {
+              width: screenSize.width / viewport.zoom,
+              height: screenSize.height / viewport.zoom,
+            };
+            if (element?.text) {
+              onUpdateElements({
+                [element.id]: {
+                  text: { ...element.text, content },
+                  width: size.width,
+                  height: size.height,
+                },
+              });
+            } else {
+              onCreateSticky(editor.point, content, size);
+            }
+            setEditor(null);
+          }}
+          onCancel={() => setEditor(null)}
+        />
+      )}
+
+      <Minimap
+        elements={elements}
+        viewport={viewport}
+        viewportSize={canvasSize}
+        collaborators={collaborators}
+        onViewportChange={onViewportChange}
+        className="absolute right-3 bottom-14"
+      />
+
+      {currentTool.type === "select" && selectedElements.length > 0 && (
+        <SelectionToolbar
+          count={selectedElements.length}
+          groupName={
+            selectedUnits.length === 1 ? selectedGroups[0]?.name : undefined
+          }
+          canGroup={selectedUnits.length > 1}
+          canUngroup={selectedGroups.length > 0}
+          onGroup={groupSelected}
+          onUngroup={ungroupSelected}
+          onRenameGroup={(name) =>
+            onUpdateElements({ [selectedGroups[0].id]: { name } })
+          }
+          onReorder={reorderSelected}
+          onDuplicate={duplicateSelected}
+          onDelete={deleteSelected}
+          onColorChange={(color) => restyleSelected({ color })}
+          onStrokeWidthChange={(strokeWidth) => restyleSelected({ strokeWidth })}
+          connectorRouting={
+            selectedConnector
+              ? selectedConnector.routing || "straight"
+              : undefined
+          }
+          onRoutingChange={(routing) => restyleSelected({ routing })}
+          className="absolute top-3 left-1/2 -translate-x-1/2"
+        />
+      )}
+
+      <ZoomControls
+        zoom={viewport.zoom}
+        onZoomIn={() => zoomAroundCenter(ZOOM_STEP)}
+        onZoomOut={() => zoomAroundCenter(1 / ZOOM_STEP)}
+        onReset={resetZoom}
+        onFit={zoomToFit}
+        className="absolute right-3 bottom-3"
+      />
     </div>
   );
 }
@@ -0,0 +1,63 @@
+import React from "react";
+import { cn } from "@/lib/utils";
+
+interface ZoomControlsProps {
+  zoom: number;
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+  onReset: () => void;
+  onFit: () => void;
+  className?: string;
+}
+
+export function ZoomControls({
+  zoom,
+  onZoomIn,
+  onZoomOut,
+  onReset,
+  onFit,
+  className,
+}: ZoomControlsProps) {
+  const buttonClass =
+    "p-1.5 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-md transition-colors";
+
+  return (
+    <div
+      className={cn(
+        "flex items-center space-x-1 bg-white border border-gray-200 rounded-lg shadow-sm p-1",
+        className
+      )}
+    >
+      <button onClick={onZoomOut} className={buttonClass} title="Zoom out">
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 12H4" />
+        </svg>
+      </button>
+
+      <button
+        onClick={onReset}
+        className="w-14 py-1 text-xs font-medium text-gray-700 hover:bg-gray-100 rounded-md transition-colors"
+        title="Reset zoom"
+      >
+        {Math.round(zoom * 100)}%
+      </button>
+
+      <button onClick={onZoomIn} className={buttonClass} title="Zoom in">
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+        </svg>
+      </button>
+
+      <button onClick={onFit} className={buttonClass} title="Zoom to fit">
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M4 8V4h4M20 8V4h-4M4 16v4h4M20 16v4h-4"
+          />
+        </svg>
+      </button>
+    </div>
+  );
+}
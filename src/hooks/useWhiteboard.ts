@@ -1,8 +1,24 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { DrawingAction, Collaborator, WhiteboardState, DrawingTool } from '@/types/whiteboard';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { BoardVersion, Bounds, DrawingAction, Collaborator, WhiteboardState, WhiteboardSettings, DrawingTool, ElementChanges, Layer, Page, PageChange, Point, VersionSummary } from '@/types/whiteboard';
 import { wsManager } from '@/lib/websocket';
+import { getStrokeStyle, nextTimestamp, resolveElements } from '@/lib/elements';
+import { duplicateSelection } from '@/lib/selection';
+import { getBatchActions, getUndoStacks } from '@/lib/undo';
+import { getSettings } from '@/lib/settings';
+import { DEFAULT_LAYER_ID, getLayers, isLayerEditable, mergeLayer } from '@/lib/layers';
+import { DEFAULT_PAGE_ID, applyPageChange, getActionPageId, getActionsOnPages, getPageActions, getPages } from '@/lib/pages';
+import { FRAME_COLOR } from '@/lib/frames';
+import { fitImageSize, uploadImage } from '@/lib/assets';
+import { DEFAULT_END_ARROWHEAD, DEFAULT_START_ARROWHEAD } from '@/lib/connectors';
+import { getMissingPages, getRestoreActions, getRestoredPageAction } from '@/lib/versions';
+import { CanvasOptimizer } from '@/lib/performance';
 import { generateId, getRandomColor } from '@/lib/utils';
 
+// How far, in board units, a simplified stroke may stray from the drawn one
+const STROKE_SIMPLIFY_TOLERANCE = 0.75;
+// How far duplicates are shifted from their originals, in board units
+const DUPLICATE_OFFSET = 20;
+
 interface UseWhiteboardProps {
   whiteboardId: string;
   userId: string;
@@ -23,6 +39,15 @@ export function useWhiteboard({ whiteboardId, userId, userName }: UseWhiteboardP
     opacity: 1,
   });
 
+  // Which layer new elements go on and which page is open are this user's own choice, not shared
+  const [activeLayerId, setActiveLayerId] = useState(DEFAULT_LAYER_ID);
+  const [activePageId, setActivePageId] = useState(DEFAULT_PAGE_ID);
+
+  // Saved versions of the board, the content of those fetched so far, and the one being previewed
+  const [versions, setVersions] = useState<VersionSummary[]>([]);
+  const [loadedVersions, setLoadedVersions] = useState<Record<string, BoardVersion>>({});
+  const [previewVersionId, setPreviewVersionId] = useState<string | null>(null);
+
   const isDrawingRef = useRef(false);
   const currentPathRef = useRef<DrawingAction | null>(null);
 
@@ -48,6 +73,12 @@ export function useWhiteboard({ whiteboardId, userId, userName }: UseWhiteboardP
         // Set up event listeners
         wsManager.onAction(handleRemoteAction);
         wsManager.onCursorMove(handleCursorMove);
+        wsManager.onViewportMove(handleViewportMove);
+        wsManager.onSettingsUpdate(handleSettingsUpdate);
+        wsManager.onLayersUpdate(handleLayersUpdate);
+        wsManager.onPagesUpdate(handlePagesUpdate);
+        wsManager.onVersionsUpdate(setVersions);
+        wsManager.onVersionData(handleVersionData);
         wsManager.onUserJoin(handleUserJoin);
         wsManager.onUserLeave(handleUserLeave);
         wsManager.onStateSync(handleStateSync);
@@ -109,6 +140,33 @@ export function useWhiteboard({ whiteboardId, userId, userName }: UseWhiteboardP
     );
   }, []);
 
+  const handleViewportMove = useCallback((data: { userId: string; viewport: Bounds }) => {
+    setCollaborators(prev =>
+      prev.map(collaborator =>
+        collaborator.id === data.userId
+          ? { ...collaborator, viewport: data.viewport, lastSeen: Date.now() }
+          : collaborator
+      )
+    );
+  }, []);
+
+  const handleSettingsUpdate = useCallback((settings: WhiteboardSettings) => {
+    setWhiteboardState(prev => prev ? { ...prev, settings } : prev);
+  }, []);
+
+  const handleLayersUpdate = useCallback((layers: Layer[]) => {
+    setWhiteboardState(prev => prev ? { ...prev, layers } : prev);
+  }, []);
+
+  // A page someone else deleted takes its action stream with it, as on the server
+  const handlePagesUpdate = useCallback((pages: Page[]) => {
+    setWhiteboardState(prev => prev ? { ...prev, pages, actions: getActionsOnPages(prev.actions, pages) } : prev);
+  }, []);
+
+  const handleVersionData = useCallback((version: BoardVersion) => {
+    setLoadedVersions(prev => ({ ...prev, [version.id]: version }));
+  }, []);
+
   const handleUserJoin = useCallback((user: Collaborator) => {
     setCollaborators(prev => {
       const existing = prev.find(c => c.id === user.id);
@@ -147,27 +205,94 @@ export function useWhiteboard({ whiteboardId, userId, userName }: UseWhiteboardP
     setError(errorMessage);
   }, []);
 
+  const layers = useMemo(() => getLayers(whiteboardState?.layers), [whiteboardState?.layers]);
+  const activeLayer = layers.find(layer => layer.id === activeLayerId) || layers[0];
+
+  // When the open page is deleted, fall back to the first one
+  const pages = useMemo(() => getPages(whiteboardState?.pages), [whiteboardState?.pages]);
+  const activePage = pages.find(page => page.id === activePageId) || pages[0];
+  const pageActions = useMemo(
+    () => getPageActions(whiteboardState?.actions || [], activePage.id),
+    [whiteboardState?.actions, activePage.id]
+  );
+
   const startDrawing = useCallback((point: { x: number; y: number }) => {
-    if (!isConnected) return;
+    // Nothing can be drawn onto a hidden or locked layer
+    if (!isConnected || !isLayerEditable(activeLayer)) return;
 
     isDrawingRef.current = true;
+
+    if (currentTool.type === 'shape') {
+      // Shapes are defined by their start and end points only
+      currentPathRef.current = {
+        id: generateId(),
+        type: 'shape',
+        shape: currentTool.shape || 'rectangle',
+        points: [point, point],
+        color: currentTool.color,
+        strokeWidth: currentTool.strokeWidth,
+        ...getStrokeStyle(currentTool),
+        layerId: activeLayer.id,
+        timestamp: Date.now(),
+        userId,
+      };
+      return;
+    }
+
+    if (currentTool.type === 'eraser') {
+      currentPathRef.current = {
+        id: generateId(),
+        type: 'erase',
+        points: [point],
+        color: currentTool.color,
+        strokeWidth: currentTool.strokeWidth,
+        layerId: activeLayer.id,
+        timestamp: Date.now(),
+        userId,
+      };
+      return;
+    }
+
     currentPathRef.current = {
       id: generateId(),
-      type: currentTool.type === 'eraser' ? 'erase' : 'draw',
+      type: 'draw',
       points: [point],
       color: currentTool.color,
       strokeWidth: currentTool.strokeWidth,
+      ...getStrokeStyle(currentTool),
+      layerId: activeLayer.id,
       timestamp: Date.now(),
       userId,
     };
-  }, [isConnected, currentTool, userId]);
+  }, [isConnected, currentTool, activeLayer, userId]);
 
   const continueDrawing = useCallback((point: { x: number; y: number }) => {
     if (!isDrawingRef.current || !currentPathRef.current) return;
 
+    if (currentPathRef.current.type === 'shape') {
+      currentPathRef.current.points[1] = point;
+      return;
+    }
+
     currentPathRef.current.points.push(point);
   }, []);
 
+  // Send an action to other users and apply it locally, on the open page
+  // unless another is given
+  const commitAction = useCallback((action: DrawingAction, pageId = activePage.id) => {
+    const pageAction = { ...action, pageId };
+    wsManager.emitAction(pageAction);
+
+    setWhiteboardState(prev => {
+      if (!prev) return prev;
+      return {
+        ...prev,
+        actions: [...prev.actions, pageAction],
+        lastModified: pageAction.timestamp,
+      };
+    });
+  }, [activePage.id]);
+
   const finishDrawing = useCallback(() => {
     if (!isDrawingRef.current || !currentPathRef.current) return;
 
@@ -175,50 +300,408 @@ export function useWhiteboard({ whiteboardId, userId, userName }: UseWhiteboardP
     isDrawingRef.current = false;
     currentPathRef.current = null;
 
-    // Emit the action to other users
-    wsManager.emitAction(action);
+    // Drop redundant points before the stroke goes over the wire
+    if (action.type === 'draw' || action.type === 'erase') {
+      action.points = CanvasOptimizer.simplifyPath(action.points, STROKE_SIMPLIFY_TOLERANCE);
+    }
 
-    // Update local state
-    setWhiteboardState(prev => {
-      if (!prev) return prev;
-      return {
-        ...prev,
-        actions: [...prev.actions, action],
-        lastModified: action.timestamp,
-      };
+    commitAction(action);
+  }, [commitAction]);
+
+  const createText = useCallback((point: { x: number; y: number }, content: string) => {
+    if (!isConnected || !isLayerEditable(activeLayer)) return;
+
+    commitAction({
+      id: generateId(),
+      type: 'text',
+      points: [point],
+      color: currentTool.color,
+      strokeWidth: 1,
+      text: {
+        content,
+        fontSize: currentTool.fontSize || 20,
+        align: currentTool.textAlign || 'left',
+      },
+      layerId: activeLayer.id,
+      timestamp: Date.now(),
+      userId,
     });
-  }, []);
+  }, [isConnected, currentTool, activeLayer, userId, commitAction]);
+
+  const createSticky = useCallback((
+    point: { x: number; y: number },
+    content: string,
+    size: { width: number; height: number }
+  ) => {
+    if (!isConnected || !isLayerEditable(activeLayer)) return;
+
+    commitAction({
+      id: generateId(),
+      type: 'sticky',
+      points: [point],
+      color: '#1f2937',
+      strokeWidth: 1,
+      text: {
+        content,
+        fontSize: currentTool.fontSize || 20,
+        align: currentTool.textAlign || 'left',
+      },
+      width: size.width,
+      height: size.height,
+      fill: currentTool.stickyColor || '#fef08a',
+      layerId: activeLayer.id,
+      timestamp: Date.now(),
+      userId,
+    });
+  }, [isConnected, currentTool, activeLayer, userId, commitAction]);
+
+  // Frames are elements too, so they sync, move and undo like everything else
+  const createFrame = useCallback((bounds: Bounds, name: string) => {
+    if (!isConnected || !isLayerEditable(activeLayer)) return;
+
+    commitAction({
+      id: generateId(),
+      type: 'frame',
+      points: [{ x: bounds.x, y: bounds.y }],
+      color: FRAME_COLOR,
+      strokeWidth: 1,
+      width: bounds.width,
+      height: bounds.height,
+      name,
+      layerId: activeLayer.id,
+      timestamp: Date.now(),
+      userId,
+    });
+  }, [isConnected, activeLayer, userId, commitAction]);
+
+  // Connectors store their route as drawn plus the elements their ends are bound to;
+  // everyone re-routes them from the bindings as those elements move
+  const createConnector = useCallback((
+    points: Point[],
+    startBinding?: string,
+    endBinding?: string
+  ) => {
+    if (!isConnected || !isLayerEditable(activeLayer)) return;
+
+    commitAction({
+      id: generateId(),
+      type: 'connector',
+      points,
+      color: currentTool.color,
+      strokeWidth: currentTool.strokeWidth,
+      routing: currentTool.connectorRouting || 'straight',
+      startArrowhead: currentTool.startArrowhead || DEFAULT_START_ARROWHEAD,
+      endArrowhead: currentTool.endArrowhead || DEFAULT_END_ARROWHEAD,
+      startBinding,
+      endBinding,
+      layerId: activeLayer.id,
+      timestamp: Date.now(),
+      userId,
+    });
+  }, [isConnected, currentTool, activeLayer, userId, commitAction]);
+
+  // Upload image files and place them centred on a board point, each a little
+  // below and right of the one before. Only the asset URL goes into the action log
+  const addImages = useCallback(async (files: File[], point: Point) => {
+    if (!isConnected || !isLayerEditable(activeLayer)) return;
+
+    for (const [index, file] of files.entries()) {
+      const image = await uploadImage(file);
+      const size = fitImageSize(image.width, image.height);
+      const offset = index * DUPLICATE_OFFSET;
+
+      commitAction({
+        id: generateId(),
+        type: 'image',
+        points: [{ x: point.x - size.width / 2 + offset, y: point.y - size.height / 2 + offset }],
+        color: '',
+        strokeWidth: 1,
+        width: size.width,
+        height: size.height,
+        src: image.src,
+        layerId: activeLayer.id,
+        timestamp: Date.now(),
+        userId,
+      });
+    }
+  }, [isConnected, activeLayer, userId, commitAction]);
+
+  // Apply property changes to existing elements, keyed by element id
+  const updateElements = useCallback((changes: Record<string, ElementChanges>) => {
+    if (!isConnected || Object.keys(changes).length === 0) return;
+
+    commitAction({
+      id: generateId(),
+      type: 'update',
+      points: [],
+      color: '',
+      strokeWidth: 0,
+      changes,
+      timestamp: nextTimestamp(whiteboardState?.actions || []),
+      userId,
+    });
+  }, [isConnected, userId, whiteboardState, commitAction]);
+
+  const deleteElements = useCallback((ids: string[]) => {
+    if (!isConnected || ids.length === 0) return;
+
+    commitAction({
+      id: generateId(),
+      type: 'delete',
+      points: [],
+      color: '',
+      strokeWidth: 0,
+      targetIds: ids,
+      timestamp: nextTimestamp(whiteboardState?.actions || []),
+      userId,
+    });
+  }, [isConnected, userId, whiteboardState, commitAction]);
+
+  // Copy elements next to the originals in a single action, so the whole copy
+  // syncs and undoes in one step. Returns the ids of the copies
+  const duplicateElements = useCallback((ids: string[]): string[] => {
+    if (!isConnected || !whiteboardState || ids.length === 0) return [];
+
+    const originals = resolveElements(pageActions).filter(element => ids.includes(element.id));
+    if (originals.length === 0) return [];
+
+    const timestamp = nextTimestamp(whiteboardState.actions);
+    // Copies stack on top by their creation time rather than next to their originals
+    const copies = duplicateSelection(originals, DUPLICATE_OFFSET, DUPLICATE_OFFSET).map(copy => ({
+      ...copy,
+      order: undefined,
+      timestamp,
+      userId,
+    }));
 
+    commitAction({
+      id: generateId(),
+      type: 'duplicate',
+      points: [],
+      color: '',
+      strokeWidth: 0,
+      elements: copies,
+      timestamp,
+      userId,
+    });
+
+    return copies.map(copy => copy.id);
+  }, [isConnected, userId, whiteboardState, pageActions, commitAction]);
+
+  // Combine top-level elements and groups into a new named group
+  const groupElements = useCallback((memberIds: string[], name: string) => {
+    if (!isConnected || memberIds.length < 2) return;
+
+    commitAction({
+      id: generateId(),
+      type: 'group',
+      points: [],
+      color: '',
+      strokeWidth: 0,
+      targetIds: memberIds,
+      name,
+      timestamp: nextTimestamp(whiteboardState?.actions || []),
+      userId,
+    });
+  }, [isConnected, userId, whiteboardState, commitAction]);
+
+  // Split groups back into their members; nested groups stay intact
+  const ungroupElements = useCallback((groupIds: string[]) => {
+    if (!isConnected || groupIds.length === 0) return;
+
+    commitAction({
+      id: generateId(),
+      type: 'ungroup',
+      points: [],
+      color: '',
+      strokeWidth: 0,
+      targetIds: groupIds,
+      timestamp: nextTimestamp(whiteboardState?.actions || []),
+      userId,
+    });
+  }, [isConnected, userId, whiteboardState, commitAction]);
+
+  // Clearing is appended like any other action so it can be undone
   const clearWhiteboard = useCallback(() => {
     if (!isConnected) return;
 
-    const clearAction: DrawingAction = {
+    commitAction({
       id: generateId(),
       type: 'clear',
       points: [],
       color: '#ffffff',
       strokeWidth: 0,
-      timestamp: Date.now(),
+      timestamp: nextTimestamp(whiteboardState?.actions || []),
       userId,
-    };
+    });
+  }, [isConnected, userId, whiteboardState, commitAction]);
+
+  const updateCursor = useCallback((cursor: { x: number; y: number }) => {
+    if (!isConnected) return;
+    wsManager.emitCursorMove(cursor);
+  }, [isConnected]);
+
+  const updateViewport = useCallback((viewport: Bounds) => {
+    if (!isConnected) return;
+    wsManager.emitViewportMove(viewport);
+  }, [isConnected]);
+
+  const settings = useMemo(() => getSettings(whiteboardState?.settings), [whiteboardState?.settings]);
+
+  // Apply settings locally right away; the server echoes the merged settings to everyone
+  const updateSettings = useCallback((changes: Partial<WhiteboardSettings>) => {
+    if (!isConnected) return;
 
-    wsManager.emitAction(clearAction);
+    wsManager.emitSettingsUpdate(changes);
+    setWhiteboardState(prev => prev ? { ...prev, settings: getSettings({ ...prev.settings, ...changes }) } : prev);
+  }, [isConnected]);
+
+  // Apply a layer change locally right away; the server echoes the full layer list to everyone
+  const updateLayer = useCallback((layer: Layer) => {
+    if (!isConnected) return;
+
+    wsManager.emitLayerUpdate(layer);
+    setWhiteboardState(prev => prev ? { ...prev, layers: mergeLayer(prev.layers, layer) } : prev);
+  }, [isConnected]);
 
+  // Add a layer on top of the others and start drawing on it
+  const createLayer = useCallback((name: string) => {
+    if (!isConnected) return;
+
+    const layer: Layer = { id: generateId(), name, visible: true, locked: false };
+    updateLayer(layer);
+    setActiveLayerId(layer.id);
+  }, [isConnected, updateLayer]);
+
+  // Apply a page change locally right away; the server echoes the full page list to everyone
+  const changePages = useCallback((change: PageChange) => {
+    if (!isConnected) return;
+
+    wsManager.emitPageChange(change);
     setWhiteboardState(prev => {
       if (!prev) return prev;
-      return {
-        ...prev,
-        actions: [clearAction],
-        lastModified: clearAction.timestamp,
-      };
+      const pages = applyPageChange(prev.pages, change);
+      return { ...prev, pages, actions: getActionsOnPages(prev.actions, pages) };
     });
-  }, [isConnected, userId]);
+  }, [isConnected]);
 
-  const updateCursor = useCallback((cursor: { x: number; y: number }) => {
+  // Add a page after the others and open it
+  const createPage = useCallback((name: string) => {
     if (!isConnected) return;
-    wsManager.emitCursorMove(cursor);
+
+    const page: Page = { id: generateId(), name };
+    changePages({ type: 'upsert', page });
+    setActivePageId(page.id);
+  }, [isConnected, changePages]);
+
+  const renamePage = useCallback((pageId: string, name: string) => {
+    const page = pages.find(existing => existing.id === pageId);
+    if (!page) return;
+    changePages({ type: 'upsert', page: { ...page, name } });
+  }, [pages, changePages]);
+
+  const movePage = useCallback((pageId: string, index: number) => {
+    changePages({ type: 'move', pageId, index });
+  }, [changePages]);
+
+  // Deleting a page deletes its action stream for everyone; the last page can't be deleted
+  const deletePage = useCallback((pageId: string) => {
+    if (pages.length <= 1) return;
+    changePages({ type: 'delete', pageId });
+  }, [pages, changePages]);
+
+  // Undo and redo only ever touch this user's own actions on the open page
+  const undoStacks = useMemo(
+    () => getUndoStacks(pageActions, userId),
+    [pageActions, userId]
+  );
+
+  // Undoing or redoing part of a batch takes the whole batch along, page by
+  // page. Pages a restore brought back are removed on undo and re-created on redo
+  const commitUndoRedo = useCallback((type: 'undo' | 'redo', targetId: string) => {
+    const actions = whiteboardState?.actions || [];
+    const timestamp = nextTimestamp(actions);
+    const batch = getBatchActions(actions, targetId);
+    const restoredPages = batch.flatMap(action => action.restoredPages || []);
+    const restoredPageIds = new Set(restoredPages.map(restored => restored.page.id));
+
+    for (const action of batch) {
+      const pageId = getActionPageId(action);
+      if (restoredPageIds.has(pageId) || !pages.some(page => page.id === pageId)) continue;
+
+      commitAction({
+        id: generateId(),
+        type,
+        points: [],
+        color: '',
+        strokeWidth: 0,
+        targetIds: [action.id],
+        timestamp,
+        userId,
+      }, pageId);
+    }
+
+    for (const restored of restoredPages) {
+      if (type === 'undo') {
+        changePages({ type: 'delete', pageId: restored.page.id });
+      } else {
+        changePages({ type: 'upsert', page: restored.page });
+        commitAction(getRestoredPageAction(restored, batch[0], userId, timestamp), restored.page.id);
+      }
+    }
+  }, [userId, whiteboardState, pages, commitAction, changePages]);
+
+  const undo = useCallback(() => {
+    if (!isConnected || undoStacks.undo.length === 0) return;
+    commitUndoRedo('undo', undoStacks.undo[undoStacks.undo.length - 1]);
+  }, [isConnected, undoStacks, commitUndoRedo]);
+
+  const redo = useCallback(() => {
+    if (!isConnected || undoStacks.redo.length === 0) return;
+    commitUndoRedo('redo', undoStacks.redo[undoStacks.redo.length - 1]);
+  }, [isConnected, undoStacks, commitUndoRedo]);
+
+  // Save the board as it is now under a name; the server sends everyone the new list
+  const saveVersion = useCallback((name: string) => {
+    if (!isConnected || !name.trim()) return;
+    wsManager.emitVersionSave(name);
   }, [isConnected]);
 
+  // Fetch a version's content into `loadedVersions`. Versions never change
+  // once saved, so each is fetched at most once
+  const loadVersion = useCallback((versionId: string) => {
+    if (!isConnected || loadedVersions[versionId]) return;
+    wsManager.emitVersionRequest(versionId);
+  }, [isConnected, loadedVersions]);
+
+  // The previewed version shows once its content has arrived
+  const previewVersion = previewVersionId ? loadedVersions[previewVersionId] || null : null;
+
+  const openVersionPreview = useCallback((versionId: string) => {
+    setPreviewVersionId(versionId);
+    loadVersion(versionId);
+  }, [loadVersion]);
+
+  const closeVersionPreview = useCallback(() => setPreviewVersionId(null), []);
+
+  // Replace every page with its content in the version, bringing back pages
+  // deleted since. Restoring is made of ordinary actions, so it reaches
+  // everyone, and one undo takes back the whole restore
+  const restoreVersion = useCallback((version: BoardVersion) => {
+    if (!isConnected || !whiteboardState) return;
+
+    for (const page of getMissingPages(version, pages)) {
+      changePages({ type: 'upsert', page });
+    }
+
+    const timestamp = nextTimestamp(whiteboardState.actions);
+    for (const action of getRestoreActions(version, pages, userId, timestamp)) {
+      commitAction(action, action.pageId);
+    }
+
+    setPreviewVersionId(null);
+  }, [isConnected, whiteboardState, pages, userId, changePages, commitAction]);
+
   const updateTool = useCallback((tool: Partial<DrawingTool>) => {
     setCurrentTool(prev => ({ ...prev, ...tool }));
   }, []);
@@ -233,8 +716,47 @@ export function useWhiteboard({ whiteboardId, userId, userName }: UseWhiteboardP
     startDrawing,
     continueDrawing,
     finishDrawing,
+    createText,
+    createSticky,
+    createFrame,
+    createConnector,
+    addImages,
+    updateElements,
+    deleteElements,
+    duplicateElements,
+    groupElements,
+    ungroupElements,
     clearWhiteboard,
+    undo,
+    redo,
+    canUndo: undoStacks.undo.length > 0,
+    canRedo: undoStacks.redo.length > 0,
     updateCursor,
+    updateViewport,
+    settings,
+    updateSettings,
+    layers,
+    activeLayer,
+    setActiveLayer: setActiveLayerId,
+    updateLayer,
+    createLayer,
+    pages,
+    activePage,
+    pageActions,
+    setActivePage: setActivePageId,
+    createPage,
+    renamePage,
+    movePage,
+    deletePage,
+    versions,
+    loadedVersions,
+    loadVersion,
+    previewVersionId,
+    previewVersion,
+    saveVersion,
+    openVersionPreview,
+    closeVersionPreview,
+    restoreVersion,
     updateTool,
   };
 }
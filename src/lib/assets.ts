@@ -0,0 +1,118 @@
+import { generateId } from '@/lib/utils';
+import { ImageOptimizer } from '@/lib/performance';
+
+export const ASSET_URL_PREFIX = '/api/assets/';
+export const IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+// Decoded size; larger files are compressed before upload
+export const MAX_ASSET_SIZE = 5 * 1024 * 1024;
+// Longest side of a newly placed image, in board units
+export const MAX_IMAGE_PLACEMENT = 600;
+
+const ASSET_ID_PATTERN = /^[A-Za-z0-9_-]{1,100}$/;
+const DATA_URL_PATTERN = /^data:(image\/[a-z]+);base64,([A-Za-z0-9+/]*={0,2})$/;
+
+export interface ParsedDataUrl {
+  mimeType: string;
+  data: Buffer;
+}
+
+export interface UploadedImage {
+  src: string;
+  width: number;
+  height: number;
+}
+
+export function isValidAssetId(id: unknown): id is string {
+  return typeof id === 'string' && ASSET_ID_PATTERN.test(id);
+}
+
+export function getAssetUrl(id: string): string {
+  return `${ASSET_URL_PREFIX}${id}`;
+}
+
+// Image elements may only point at uploaded assets, never carry the image inline
+export function isAssetUrl(src: unknown): src is string {
+  return (
+    typeof src === 'string' &&
+    src.startsWith(ASSET_URL_PREFIX) &&
+    isValidAssetId(src.slice(ASSET_URL_PREFIX.length))
+  );
+}
+
+export function isImageFile(file: { type: string }): boolean {
+  return IMAGE_MIME_TYPES.includes(file.type);
+}
+
+// Decode a base64 image data URL, or null when it is not one we accept
+export function parseImageDataUrl(dataUrl: unknown): ParsedDataUrl | null {
+  if (typeof dataUrl !== 'string') return null;
+
+  const match = DATA_URL_PATTERN.exec(dataUrl);
+  if (!match || !IMAGE_MIME_TYPES.includes(match[1])) return null;
+
+  return { mimeType: match[1], data: Buffer.from(match[2], 'base64') };
+}
+
+// Shrink an image's natural size to fit the placement limit, keeping its shape
+export function fitImageSize(width: number, height: number, max = MAX_IMAGE_PLACEMENT): { width: number; height: number } {
+  const scale = Math.min(1, max / Math.max(width, height, 1));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+function readAsDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Failed to read image'));
+    reader.readAsDataURL(blob);
+  });
+}
+
+function measureImage(src: string): Promise<{ width: number; height: number }> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve({ width: image.naturalWidth, height: image.naturalHeight });
+    image.onerror = () => reject(new Error('Failed to load image'));
+    image.src = src;
+  });
+}
+
+// Files that already fit are stored as they are, and GIFs always are since
+// redrawing one keeps only its first frame
+export function shouldCompressImage(file: { type: string; size: number }): boolean {
+  return file.type !== 'image/gif' && file.size > MAX_ASSET_SIZE;
+}
+
+// Compress an image file if needed and store it on the server. Boards keep only the
+// returned URL, so the image data is never part of the action log
+export async function uploadImage(file: File): Promise<UploadedImage> {
+  if (!isImageFile(file)) {
+    throw new Error('Only PNG, JPEG, GIF and WebP images can be added');
+  }
+
+  if (file.type === 'image/gif' && file.size > MAX_ASSET_SIZE) {
+    throw new Error(`GIFs must be smaller than ${MAX_ASSET_SIZE / 1024 / 1024} MB`);
+  }
+
+  // Some images stay too large even compressed; the server would refuse them anyway
+  const upload = shouldCompressImage(file) ? await ImageOptimizer.compressImage(file) : file;
+  if (upload.size > MAX_ASSET_SIZE) {
+    throw new Error(`Images must be smaller than ${MAX_ASSET_SIZE / 1024 / 1024} MB`);
+  }
+
+  const dataUrl = await readAsDataUrl(upload);
+  const size = await measureImage(dataUrl);
+
+  const id = generateId();
+  const response = await fetch(getAssetUrl(id), {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ data: dataUrl }),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to upload image');
+  }
+
+  return { src: getAssetUrl(id), ...size };
+}
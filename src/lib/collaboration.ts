@@ -1,5 +1,12 @@
-import { DrawingAction, WhiteboardState, Collaborator } from '@/types/whiteboard';
+import { DrawingAction, ElementChanges, ElementGroup, WhiteboardState, Collaborator, Point, BlendMode, ShapeKind, StrokeTool, TextAlign, TextData } from '@/types/whiteboard';
 import { generateId } from '@/lib/utils';
+import { getUndoneActionIds, isElementAction, resolveElements } from '@/lib/elements';
+import { isValidOrderKey } from '@/lib/zorder';
+import { getActionPageId, sanitizePage, validatePage } from '@/lib/pages';
+import { MIN_FRAME_SIZE } from '@/lib/frames';
+import { isAssetUrl } from '@/lib/assets';
+import { ARROWHEAD_STYLES, CONNECTOR_ROUTINGS } from '@/lib/connectors';
+import { hasGroupCycle } from '@/lib/groups';
 
 export class CollaborationManager {
   private whiteboardState: WhiteboardState;
@@ -13,6 +20,13 @@ export class CollaborationManager {
 
   // Add a new action with conflict resolution
   addAction(action: DrawingAction): { success: boolean; conflict?: boolean; resolvedAction?: DrawingAction } {
+    // Updates, deletes, undos and redos target by id, so they never conflict
+    // spatially and keep their timestamp to stay ordered after their targets
+    if (isTargetedAction(action)) {
+      this.applyAction(action);
+      return { success: true, conflict: false };
+    }
+
     // Check for conflicts with pending actions
     const conflicts = this.findConflicts(action);
     
@@ -34,6 +48,8 @@ export class CollaborationManager {
 
     // Check for temporal conflicts (actions happening around the same time)
     for (const action of this.whiteboardState.actions) {
+      if (isTargetedAction(action)) continue;
+
       if (Math.abs(action.timestamp - newAction.timestamp) < timeWindow) {
         // Check for spatial conflicts (actions in similar areas)
         if (this.hasSpatialConflict(newAction, action)) {
@@ -104,6 +120,11 @@ export class CollaborationManager {
     return { ...this.whiteboardState };
   }
 
+  // Get the elements currently on the board after replaying every action
+  getElements(): DrawingAction[] {
+    return resolveElements(this.whiteboardState.actions);
+  }
+
   // Update collaborators
   updateCollaborators(collaborators: Collaborator[]): void {
     this.whiteboardState.collaborators = collaborators;
@@ -116,26 +137,21 @@ export class CollaborationManager {
 
   // Optimize actions by removing redundant ones
   optimizeActions(): void {
-    const optimized: DrawingAction[] = [];
-    const clearActions: DrawingAction[] = [];
+    const latestClears = new Map<string, DrawingAction>();
+    const undone = getUndoneActionIds(this.whiteboardState.actions);
 
-    // Separate clear actions
+    // Find the latest clear on each page; an undone clear no longer wipes its page
     for (const action of this.whiteboardState.actions) {
-      if (action.type === 'clear') {
-        clearActions.push(action);
-      } else {
-        optimized.push(action);
+      if (action.type === 'clear' && !undone.has(action.id)) {
+        latestClears.set(getActionPageId(action), action);
       }
     }
 
-    // If there are clear actions, only keep the latest one and actions after it
-    if (clearActions.length > 0) {
-      const latestClear = clearActions[clearActions.length - 1];
-      const actionsAfterClear = optimized.filter(action => action.timestamp > latestClear.timestamp);
-      this.whiteboardState.actions = [latestClear, ...actionsAfterClear];
-    } else {
-      this.whiteboardState.actions = optimized;
-    }
+    // On pages that were cleared, only keep the latest clear and actions after it
+    this.whiteboardState.actions = this.whiteboardState.actions.filter(action => {
+      const latestClear = latestClears.get(getActionPageId(action));
+      return !latestClear || action === latestClear || action.timestamp > latestClear.timestamp;
+    });
   }
 
   // Merge actions from multiple sources
@@ -169,36 +185,423 @@ export class CollaborationManager {
 }
 
 // Utility functions for collaboration
+export function isTargetedAction(action: DrawingAction): boolean {
+  return (
+    action.type === 'update' ||
+    action.type === 'delete' ||
+    action.type === 'undo' ||
+    action.type === 'redo' ||
+    action.type === 'group' ||
+    action.type === 'ungroup'
+  );
+}
+
 export function createActionId(): string {
   return `action_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
-export function validateAction(action: any): action is DrawingAction {
+export const ACTION_TYPES: DrawingAction['type'][] = ['draw', 'erase', 'clear', 'shape', 'text', 'sticky', 'frame', 'image', 'connector', 'update', 'delete', 'undo', 'redo', 'duplicate', 'group', 'ungroup', 'restore'];
+export const SHAPE_KINDS: ShapeKind[] = ['rectangle', 'ellipse', 'line', 'arrow'];
+export const TEXT_ALIGNS: TextAlign[] = ['left', 'center', 'right'];
+export const STROKE_TOOLS: StrokeTool[] = ['pen', 'highlighter'];
+export const BLEND_MODES: BlendMode[] = ['normal', 'multiply'];
+const MAX_TEXT_LENGTH = 5000;
+const MAX_NAME_LENGTH = 100;
+const MAX_ID_LENGTH = 100;
+// Points are world coordinates on an infinite board; this only guards against absurd values
+const MAX_COORDINATE = 1_000_000;
+
+// The element properties an update may change. What an element is, who made it
+// and where an image comes from are fixed when it is created
+export const EDITABLE_PROPERTIES: (keyof ElementChanges)[] = [
+  'points', 'width', 'height', 'rotation', 'color', 'fill', 'strokeWidth', 'text', 'order', 'layerId', 'name',
+  'routing', 'startArrowhead', 'endArrowhead', 'startBinding', 'endBinding',
+];
+
+export function isValidTextData(text: any): boolean {
+  return (
+    !!text &&
+    typeof text === 'object' &&
+    typeof text.content === 'string' &&
+    typeof text.fontSize === 'number' &&
+    TEXT_ALIGNS.includes(text.align)
+  );
+}
+
+// Opacity, tool and blend mode are optional but must be known values when present
+export function isValidStrokeStyle(action: any): boolean {
+  return (
+    (action.opacity === undefined ||
+      (typeof action.opacity === 'number' && action.opacity >= 0 && action.opacity <= 1)) &&
+    (action.tool === undefined || STROKE_TOOLS.includes(action.tool)) &&
+    (action.blendMode === undefined || BLEND_MODES.includes(action.blendMode))
+  );
+}
+
+function isValidGroupData(group: any): boolean {
+  return (
+    !!group &&
+    typeof group === 'object' &&
+    typeof group.id === 'string' &&
+    typeof group.name === 'string' &&
+    Array.isArray(group.memberIds) &&
+    group.memberIds.every((id: unknown) => typeof id === 'string')
+  );
+}
+
+// The elements and groups a restore puts on a page. No group may contain itself
+function isValidPageContent(content: any): boolean {
+  return (
+    Array.isArray(content.elements) &&
+    content.elements.every((element: any) => validateAction(element) && isElementAction(element)) &&
+    (content.groups === undefined ||
+      (Array.isArray(content.groups) && content.groups.every(isValidGroupData) && !hasGroupCycle(content.groups)))
+  );
+}
+
+function isValidPointData(point: any): boolean {
+  return !!point && typeof point === 'object' && Number.isFinite(point.x) && Number.isFinite(point.y);
+}
+
+// Each changed property must be editable and hold the kind of value the element was created with
+function isValidChange(key: string, value: any): boolean {
+  if (value === undefined) return true;
+
+  switch (key) {
+    case 'points':
+      return Array.isArray(value) && value.length > 0 && value.every(isValidPointData);
+    case 'width':
+    case 'height':
+    case 'rotation':
+    case 'strokeWidth':
+      return Number.isFinite(value);
+    case 'color':
+    case 'fill':
+    case 'layerId':
+    case 'name':
+    case 'startBinding':
+    case 'endBinding':
+      return typeof value === 'string';
+    case 'text':
+      return isValidTextData(value);
+    case 'order':
+      return isValidOrderKey(value);
+    case 'routing':
+      return CONNECTOR_ROUTINGS.includes(value);
+    case 'startArrowhead':
+    case 'endArrowhead':
+      return ARROWHEAD_STYLES.includes(value);
+    default:
+      return false;
+  }
+}
+
+export function isValidElementChanges(changes: any): boolean {
   return (
-    action &&
-    typeof action === 'object' &&
+    !!changes &&
+    typeof changes === 'object' &&
+    !Array.isArray(changes) &&
+    Object.values(changes).every(
+      (change: any) =>
+        !!change &&
+        typeof change === 'object' &&
+        !Array.isArray(change) &&
+        Object.entries(change).every(([key, value]) => isValidChange(key, value))
+    )
+  );
+}
+
+export function validateAction(action: any): action is DrawingAction {
+  if (!action || typeof action !== 'object') return false;
+
+  const hasBaseFields =
     typeof action.id === 'string' &&
     typeof action.type === 'string' &&
-    ['draw', 'erase', 'clear'].includes(action.type) &&
+    ACTION_TYPES.includes(action.type) &&
     Array.isArray(action.points) &&
     typeof action.color === 'string' &&
     typeof action.strokeWidth === 'number' &&
     typeof action.timestamp === 'number' &&
-    typeof action.userId === 'string'
-  );
+    typeof action.userId === 'string';
+
+  if (!hasBaseFields || !isValidStrokeStyle(action)) return false;
+
+  // Elements may name the layer they were drawn on, and any action its page
+  if (action.layerId !== undefined && typeof action.layerId !== 'string') return false;
+  if (action.pageId !== undefined && typeof action.pageId !== 'string') return false;
+
+  // Shapes need a known kind and a start and end point
+  if (action.type === 'shape') {
+    return SHAPE_KINDS.includes(action.shape) && action.points.length === 2;
+  }
+
+  // Text needs its content and a single anchor point
+  if (action.type === 'text') {
+    return isValidTextData(action.text) && action.points.length === 1;
+  }
+
+  // Updates carry a map of element ids to changed, editable properties
+  if (action.type === 'update') {
+    return isValidElementChanges(action.changes);
+  }
+
+  // Deletes list the ids of the elements they remove
+  if (action.type === 'delete') {
+    return (
+      Array.isArray(action.targetIds) &&
+      action.targetIds.length > 0 &&
+      action.targetIds.every((id: unknown) => typeof id === 'string')
+    );
+  }
+
+  // Undos and redos name exactly one action to reverse or re-apply
+  if (action.type === 'undo' || action.type === 'redo') {
+    return (
+      Array.isArray(action.targetIds) &&
+      action.targetIds.length === 1 &&
+      typeof action.targetIds[0] === 'string'
+    );
+  }
+
+  // Groups combine at least two elements or groups other than themselves;
+  // ungroups name the groups they split
+  if (action.type === 'group' || action.type === 'ungroup') {
+    return (
+      Array.isArray(action.targetIds) &&
+      action.targetIds.length >= (action.type === 'group' ? 2 : 1) &&
+      action.targetIds.every((id: unknown) => typeof id === 'string') &&
+      (action.type === 'ungroup' || !action.targetIds.includes(action.id)) &&
+      (action.name === undefined || typeof action.name === 'string')
+    );
+  }
+
+  // Duplicates carry at least one new, valid element
+  if (action.type === 'duplicate') {
+    return (
+      Array.isArray(action.elements) &&
+      action.elements.length > 0 &&
+      action.elements.every((element: any) => validateAction(element) && isElementAction(element))
+    );
+  }
+
+  // Restores carry the valid elements and groups of a saved version, which may
+  // be none, and may list the pages they brought back with their content
+  if (action.type === 'restore') {
+    return (
+      isValidPageContent(action) &&
+      (action.batchId === undefined || typeof action.batchId === 'string') &&
+      (action.restoredPages === undefined ||
+        (Array.isArray(action.restoredPages) &&
+          action.restoredPages.every((restored: any) => validatePage(restored?.page) && isValidPageContent(restored)))) &&
+      (action.name === undefined || typeof action.name === 'string')
+    );
+  }
+
+  // Sticky notes also need a size and a background color
+  if (action.type === 'sticky') {
+    return (
+      isValidTextData(action.text) &&
+      action.points.length === 1 &&
+      typeof action.width === 'number' &&
+      typeof action.height === 'number' &&
+      typeof action.fill === 'string'
+    );
+  }
+
+  // Frames need a corner, a size and a name
+  if (action.type === 'frame') {
+    return (
+      action.points.length === 1 &&
+      typeof action.width === 'number' &&
+      typeof action.height === 'number' &&
+      typeof action.name === 'string'
+    );
+  }
+
+  // Images need a corner, a size and the URL of an uploaded asset
+  if (action.type === 'image') {
+    return (
+      action.points.length === 1 &&
+      typeof action.width === 'number' &&
+      typeof action.height === 'number' &&
+      isAssetUrl(action.src)
+    );
+  }
+
+  // Connectors need both ends; routing, bindings, arrowheads and a label are optional
+  if (action.type === 'connector') {
+    return (
+      action.points.length >= 2 &&
+      (action.routing === undefined || CONNECTOR_ROUTINGS.includes(action.routing)) &&
+      (action.startBinding === undefined || typeof action.startBinding === 'string') &&
+      (action.endBinding === undefined || typeof action.endBinding === 'string') &&
+      (action.startArrowhead === undefined || ARROWHEAD_STYLES.includes(action.startArrowhead)) &&
+      (action.endArrowhead === undefined || ARROWHEAD_STYLES.includes(action.endArrowhead)) &&
+      (action.text === undefined || isValidTextData(action.text))
+    );
+  }
+
+  return true;
 }
 
-export function sanitizeAction(action: DrawingAction): DrawingAction {
+function sanitizePoint(point: Point): Point {
+  const sanitized: Point = {
+    x: Math.max(-MAX_COORDINATE, Math.min(MAX_COORDINATE, point.x)), // Clamp to the world's bounds
+    y: Math.max(-MAX_COORDINATE, Math.min(MAX_COORDINATE, point.y)),
+  };
+
+  if (typeof point.pressure === 'number' && !isNaN(point.pressure)) {
+    sanitized.pressure = Math.max(0, Math.min(1, point.pressure));
+  }
+
+  return sanitized;
+}
+
+function sanitizeGroup(group: ElementGroup): ElementGroup {
+  return {
+    id: group.id.slice(0, MAX_ID_LENGTH),
+    name: group.name.slice(0, MAX_NAME_LENGTH),
+    memberIds: group.memberIds.map(id => id.slice(0, MAX_ID_LENGTH)),
+  };
+}
+
+function sanitizeText(text: TextData): TextData {
   return {
+    content: text.content.slice(0, MAX_TEXT_LENGTH),
+    fontSize: Math.max(8, Math.min(200, text.fontSize)), // Clamp font size
+    align: text.align,
+  };
+}
+
+// Keep only the editable properties of an update, clamped the way they are at creation
+function sanitizeChanges(changes: ElementChanges): ElementChanges {
+  const sanitized: ElementChanges = {};
+  const copy = <K extends keyof ElementChanges>(key: K) => {
+    sanitized[key] = changes[key];
+  };
+
+  for (const key of EDITABLE_PROPERTIES) {
+    if (changes[key] !== undefined) copy(key);
+  }
+
+  if (changes.points) sanitized.points = changes.points.map(sanitizePoint);
+  if (changes.strokeWidth !== undefined) sanitized.strokeWidth = Math.max(1, Math.min(50, changes.strokeWidth));
+  if (changes.width !== undefined) sanitized.width = Math.max(1, Math.min(MAX_COORDINATE, changes.width));
+  if (changes.height !== undefined) sanitized.height = Math.max(1, Math.min(MAX_COORDINATE, changes.height));
+  if (changes.text) sanitized.text = sanitizeText(changes.text);
+  if (changes.name !== undefined) sanitized.name = changes.name.slice(0, MAX_NAME_LENGTH);
+  if (changes.layerId !== undefined) sanitized.layerId = changes.layerId.slice(0, MAX_ID_LENGTH);
+  if (changes.startBinding !== undefined) sanitized.startBinding = changes.startBinding.slice(0, MAX_ID_LENGTH);
+  if (changes.endBinding !== undefined) sanitized.endBinding = changes.endBinding.slice(0, MAX_ID_LENGTH);
+
+  return sanitized;
+}
+
+export function sanitizeAction(action: DrawingAction): DrawingAction {
+  const sanitized: DrawingAction = {
     id: action.id,
     type: action.type,
-    points: action.points.map(point => ({
-      x: Math.max(0, Math.min(10000, point.x)), // Clamp to reasonable bounds
-      y: Math.max(0, Math.min(10000, point.y)),
-    })),
+    points: action.points.map(sanitizePoint),
     color: action.color,
     strokeWidth: Math.max(1, Math.min(50, action.strokeWidth)), // Clamp stroke width
     timestamp: action.timestamp,
     userId: action.userId,
   };
+
+  if (action.type === 'shape') {
+    sanitized.shape = action.shape;
+  }
+
+  if (action.type === 'update' && action.changes) {
+    sanitized.changes = Object.fromEntries(
+      Object.entries(action.changes).map(([targetId, changes]) => [targetId.slice(0, MAX_ID_LENGTH), sanitizeChanges(changes)])
+    );
+  }
+
+  if (isTargetedAction(action) && action.type !== 'update' && action.targetIds) {
+    sanitized.targetIds = [...action.targetIds];
+  }
+
+  if (action.type === 'group' || action.type === 'frame') {
+    sanitized.name = (action.name || '').slice(0, MAX_NAME_LENGTH);
+  }
+
+  if (action.type === 'frame') {
+    sanitized.width = Math.max(MIN_FRAME_SIZE, Math.min(MAX_COORDINATE, action.width || 0)); // Clamp frame size
+    sanitized.height = Math.max(MIN_FRAME_SIZE, Math.min(MAX_COORDINATE, action.height || 0));
+  }
+
+  if (action.type === 'image') {
+    sanitized.width = Math.max(1, Math.min(MAX_COORDINATE, action.width || 0)); // Clamp image size
+    sanitized.height = Math.max(1, Math.min(MAX_COORDINATE, action.height || 0));
+    sanitized.src = action.src;
+  }
+
+  if (action.type === 'connector') {
+    if (action.routing) sanitized.routing = action.routing;
+    if (action.startBinding) sanitized.startBinding = action.startBinding.slice(0, MAX_ID_LENGTH);
+    if (action.endBinding) sanitized.endBinding = action.endBinding.slice(0, MAX_ID_LENGTH);
+    if (action.startArrowhead) sanitized.startArrowhead = action.startArrowhead;
+    if (action.endArrowhead) sanitized.endArrowhead = action.endArrowhead;
+  }
+
+  if ((action.type === 'duplicate' || action.type === 'restore') && action.elements) {
+    sanitized.elements = action.elements.map(sanitizeAction);
+  }
+
+  if (action.type === 'restore' && action.name !== undefined) {
+    sanitized.name = action.name.slice(0, MAX_NAME_LENGTH);
+  }
+
+  if (action.type === 'restore' && action.groups) {
+    sanitized.groups = action.groups.map(sanitizeGroup);
+  }
+
+  if (action.type === 'restore' && action.batchId) {
+    sanitized.batchId = action.batchId.slice(0, MAX_ID_LENGTH);
+  }
+
+  if (action.type === 'restore' && action.restoredPages) {
+    sanitized.restoredPages = action.restoredPages.map(restored => ({
+      page: sanitizePage(restored.page),
+      elements: restored.elements.map(sanitizeAction),
+      groups: (restored.groups || []).map(sanitizeGroup),
+    }));
+  }
+
+  if (action.rotation !== undefined) {
+    sanitized.rotation = action.rotation;
+  }
+
+  if (isValidOrderKey(action.order)) {
+    sanitized.order = action.order;
+  }
+
+  if (isElementAction(action) && action.layerId) {
+    sanitized.layerId = action.layerId.slice(0, MAX_ID_LENGTH);
+  }
+
+  if (action.pageId) {
+    sanitized.pageId = action.pageId.slice(0, MAX_ID_LENGTH);
+  }
+
+  if (action.type === 'draw' || action.type === 'shape') {
+    if (action.tool) sanitized.tool = action.tool;
+    if (action.blendMode) sanitized.blendMode = action.blendMode;
+    if (typeof action.opacity === 'number') {
+      sanitized.opacity = Math.max(0.1, Math.min(1, action.opacity)); // Keep strokes visible
+    }
+  }
+
+  if (action.type === 'sticky') {
+    sanitized.width = Math.max(40, Math.min(2000, action.width || 0)); // Clamp note size
+    sanitized.height = Math.max(40, Math.min(2000, action.height || 0));
+    sanitized.fill = action.fill;
+  }
+
+  if ((action.type === 'text' || action.type === 'sticky' || action.type === 'connector') && action.text) {
+    sanitized.text = sanitizeText(action.text);
+  }
+
+  return sanitized;
 }
@@ -0,0 +1,171 @@
+import { ArrowheadStyle, Bounds, ConnectorRouting, DrawingAction, Point } from '@/types/whiteboard';
+import { getBoundsCenter, getRotatedBounds, hitTestElement } from '@/lib/elements';
+
+export const CONNECTOR_ROUTINGS: ConnectorRouting[] = ['straight', 'elbow'];
+export const ARROWHEAD_STYLES: ArrowheadStyle[] = ['none', 'arrow', 'triangle', 'circle'];
+export const DEFAULT_START_ARROWHEAD: ArrowheadStyle = 'none';
+export const DEFAULT_END_ARROWHEAD: ArrowheadStyle = 'arrow';
+export const CONNECTOR_LABEL_FONT_SIZE = 14;
+// Connectors dragged out shorter than this are treated as a stray click
+export const MIN_CONNECTOR_LENGTH = 10;
+
+// Space left between a bound end and the edge of its element
+const BINDING_GAP = 4;
+
+// Shapes, notes, text, images and frames can hold connector ends; strokes and
+// other connectors can't
+export function canBindTo(element: DrawingAction): boolean {
+  return element.type !== 'draw' && element.type !== 'erase' && element.type !== 'connector';
+}
+
+// The topmost element a connector end dropped at this point attaches to.
+// Frames only hold ends dropped on their edge or name, like a click picks
+// them up, so connectors between shapes inside a frame bind to the shapes
+export function findBindingTarget(elements: DrawingAction[], point: Point, tolerance = 4): DrawingAction | null {
+  for (let i = elements.length - 1; i >= 0; i--) {
+    const element = elements[i];
+    if (!canBindTo(element)) continue;
+
+    if (element.type === 'frame') {
+      if (hitTestElement(element, point, tolerance)) return element;
+      continue;
+    }
+
+    const bounds = getRotatedBounds(element);
+    if (
+      point.x >= bounds.x - tolerance &&
+      point.x <= bounds.x + bounds.width + tolerance &&
+      point.y >= bounds.y - tolerance &&
+      point.y <= bounds.y + bounds.height + tolerance
+    ) {
+      return element;
+    }
+  }
+  return null;
+}
+
+// Where the line from the centre of the bounds towards a point crosses their edge
+function getEdgePoint(bounds: Bounds, toward: Point): Point {
+  const center = getBoundsCenter(bounds);
+  const dx = toward.x - center.x;
+  const dy = toward.y - center.y;
+  if (dx === 0 && dy === 0) return center;
+
+  const halfWidth = bounds.width / 2 + BINDING_GAP;
+  const halfHeight = bounds.height / 2 + BINDING_GAP;
+  const scale = Math.min(
+    dx === 0 ? Infinity : halfWidth / Math.abs(dx),
+    dy === 0 ? Infinity : halfHeight / Math.abs(dy)
+  );
+
+  return { x: center.x + dx * scale, y: center.y + dy * scale };
+}
+
+// The middle of the side of the bounds that faces a point, and whether that
+// side is left or right, so the route leaves it horizontally
+function getSidePoint(bounds: Bounds, toward: Point): { point: Point; horizontal: boolean } {
+  const center = getBoundsCenter(bounds);
+  const dx = toward.x - center.x;
+  const dy = toward.y - center.y;
+  const horizontal = Math.abs(dx) / Math.max(bounds.width, 1) >= Math.abs(dy) / Math.max(bounds.height, 1);
+
+  if (horizontal) {
+    const x = dx >= 0 ? bounds.x + bounds.width + BINDING_GAP : bounds.x - BINDING_GAP;
+    return { point: { x, y: center.y }, horizontal };
+  }
+
+  const y = dy >= 0 ? bounds.y + bounds.height + BINDING_GAP : bounds.y - BINDING_GAP;
+  return { point: { x: center.x, y }, horizontal };
+}
+
+// A route of horizontal and vertical segments that leaves the start and
+// enters the end along the given directions
+function getElbowRoute(start: Point, startHorizontal: boolean, end: Point, endHorizontal: boolean): Point[] {
+  if (startHorizontal && endHorizontal) {
+    const midX = (start.x + end.x) / 2;
+    return [start, { x: midX, y: start.y }, { x: midX, y: end.y }, end];
+  }
+
+  if (!startHorizontal && !endHorizontal) {
+    const midY = (start.y + end.y) / 2;
+    return [start, { x: start.x, y: midY }, { x: end.x, y: midY }, end];
+  }
+
+  return startHorizontal
+    ? [start, { x: end.x, y: start.y }, end]
+    : [start, { x: start.x, y: end.y }, end];
+}
+
+function getBoundTarget(
+  id: string | undefined,
+  connector: DrawingAction,
+  elementsById: Map<string, DrawingAction>
+): DrawingAction | undefined {
+  const target = id ? elementsById.get(id) : undefined;
+  return target && target.id !== connector.id && canBindTo(target) ? target : undefined;
+}
+
+// The route of a connector given where the elements it is bound to are now.
+// Ends bound to elements that are gone stay where they were last drawn
+export function getConnectorRoute(connector: DrawingAction, elementsById: Map<string, DrawingAction>): Point[] {
+  const points = connector.points;
+  if (points.length === 0) return points;
+
+  const startTarget = getBoundTarget(connector.startBinding, connector, elementsById);
+  const endTarget = getBoundTarget(connector.endBinding, connector, elementsById);
+  const startBounds = startTarget && getRotatedBounds(startTarget);
+  const endBounds = endTarget && getRotatedBounds(endTarget);
+
+  // Each end aims at the centre of the other end's element, or at the free end itself
+  const startAim = startBounds ? getBoundsCenter(startBounds) : points[0];
+  const endAim = endBounds ? getBoundsCenter(endBounds) : points[points.length - 1];
+
+  if (connector.routing === 'elbow') {
+    const start = startBounds
+      ? getSidePoint(startBounds, endAim)
+      : { point: points[0], horizontal: Math.abs(endAim.x - startAim.x) >= Math.abs(endAim.y - startAim.y) };
+    const end = endBounds
+      ? getSidePoint(endBounds, startAim)
+      : { point: points[points.length - 1], horizontal: start.horizontal };
+    return getElbowRoute(start.point, start.horizontal, end.point, end.horizontal);
+  }
+
+  return [
+    startBounds ? getEdgePoint(startBounds, endAim) : points[0],
+    endBounds ? getEdgePoint(endBounds, startAim) : points[points.length - 1],
+  ];
+}
+
+// Give every connector the route that matches the elements it is bound to,
+// looked up among `targets` when those include elements that aren't drawn.
+// Everything that draws the board goes through this, so all clients and
+// exports agree on where connectors run
+export function routeConnectors(elements: DrawingAction[], targets = elements): DrawingAction[] {
+  if (!elements.some(element => element.type === 'connector')) return elements;
+
+  const elementsById = new Map(targets.map(element => [element.id, element]));
+  return elements.map(element =>
+    element.type === 'connector' ? { ...element, points: getConnectorRoute(element, elementsById) } : element
+  );
+}
+
+// Halfway along a route, where a connector's label sits
+export function getRouteMidpoint(points: Point[]): Point {
+  if (points.length <= 1) return points[0] || { x: 0, y: 0 };
+
+  const lengths = points.slice(1).map((point, i) => Math.hypot(point.x - points[i].x, point.y - points[i].y));
+  let remaining = lengths.reduce((sum, length) => sum + length, 0) / 2;
+
+  for (let i = 0; i < lengths.length; i++) {
+    if (remaining <= lengths[i] && lengths[i] > 0) {
+      const t = remaining / lengths[i];
+      return {
+        x: points[i].x + (points[i + 1].x - points[i].x) * t,
+        y: points[i].y + (points[i + 1].y - points[i].y) * t,
+      };
+    }
+    remaining -= lengths[i];
+  }
+
+  return points[points.length - 1];
+}
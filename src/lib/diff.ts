@@ -0,0 +1,208 @@
+import { DrawingAction, Viewport } from '@/types/whiteboard';
+import { getRotatedBounds } from '@/lib/elements';
+import { sortByOrder } from '@/lib/zorder';
+import { applyViewportTransform } from '@/lib/viewport';
+
+export type DiffKind = 'added' | 'removed' | 'modified';
+
+export const DIFF_KINDS: DiffKind[] = ['added', 'removed', 'modified'];
+export const DIFF_COLORS: Record<DiffKind, string> = {
+  added: '#16a34a',
+  removed: '#dc2626',
+  modified: '#d97706',
+};
+
+// Stands for the live board wherever a version can be picked to compare with
+export const CURRENT_BOARD_ID = 'current';
+
+// One page's elements at a point in time: a saved version or the live board
+export interface BoardSnapshot {
+  name: string;
+  createdAt: number;
+  elements: DrawingAction[];
+}
+
+// What happened to one element between two snapshots. Removed elements are
+// given as they were; added and modified ones as they are now, with
+// `previous` and the names of the properties that changed for modified ones
+export interface ElementDiff {
+  kind: DiffKind;
+  element: DrawingAction;
+  previous?: DrawingAction;
+  properties: string[];
+}
+
+export interface BoardDiff {
+  before: BoardSnapshot;
+  after: BoardSnapshot;
+  changes: ElementDiff[];
+}
+
+// Who made an element and where it sits in the log aren't changes to it
+const IGNORED_PROPERTIES = ['id', 'type', 'timestamp', 'userId', 'pageId'];
+
+const PROPERTY_LABELS: Record<string, string> = {
+  points: 'position',
+  width: 'size',
+  height: 'size',
+  rotation: 'rotation',
+  color: 'color',
+  fill: 'fill',
+  strokeWidth: 'stroke width',
+  opacity: 'opacity',
+  blendMode: 'blend mode',
+  tool: 'tool',
+  shape: 'shape',
+  text: 'text',
+  name: 'name',
+  src: 'image',
+  routing: 'routing',
+  startBinding: 'connections',
+  endBinding: 'connections',
+  startArrowhead: 'arrowheads',
+  endArrowhead: 'arrowheads',
+  order: 'stacking',
+  layerId: 'layer',
+};
+
+const MAX_LABEL_TEXT_LENGTH = 30;
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || !a || !b) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(aRecord), ...Object.keys(bRecord)]);
+  return Array.from(keys).every(key => isSameValue(aRecord[key], bRecord[key]));
+}
+
+// Readable names of the properties that differ between two versions of an element
+export function getChangedProperties(before: DrawingAction, after: DrawingAction): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const labels: string[] = [];
+
+  for (const key of Array.from(keys)) {
+    if (IGNORED_PROPERTIES.includes(key)) continue;
+
+    const value = (after as unknown as Record<string, unknown>)[key];
+    const previous = (before as unknown as Record<string, unknown>)[key];
+    if (isSameValue(value, previous)) continue;
+
+    const label = PROPERTY_LABELS[key] || key;
+    if (!labels.includes(label)) labels.push(label);
+  }
+
+  return labels;
+}
+
+// Match elements by id: those only after were added, those only before were
+// removed, and those in both with different properties were modified
+export function diffElements(before: DrawingAction[], after: DrawingAction[]): ElementDiff[] {
+  const beforeById = new Map(before.map(element => [element.id, element]));
+  const afterIds = new Set(after.map(element => element.id));
+  const changes: ElementDiff[] = [];
+
+  for (const element of after) {
+    const previous = beforeById.get(element.id);
+    if (!previous) {
+      changes.push({ kind: 'added', element, properties: [] });
+      continue;
+    }
+
+    const properties = getChangedProperties(previous, element);
+    if (properties.length > 0) {
+      changes.push({ kind: 'modified', element, previous, properties });
+    }
+  }
+
+  for (const element of before) {
+    if (!afterIds.has(element.id)) {
+      changes.push({ kind: 'removed', element, properties: [] });
+    }
+  }
+
+  return changes;
+}
+
+// Compare two snapshots, always from the older to the newer
+export function compareSnapshots(a: BoardSnapshot, b: BoardSnapshot): BoardDiff {
+  const [before, after] = a.createdAt <= b.createdAt ? [a, b] : [b, a];
+  return { before, after, changes: diffElements(before.elements, after.elements) };
+}
+
+// The newer snapshot with the removed elements put back where they stacked,
+// so the overlay can show what disappeared
+export function getDiffElements(diff: BoardDiff): DrawingAction[] {
+  const removed = diff.changes.filter(change => change.kind === 'removed').map(change => change.element);
+  return sortByOrder([...diff.after.elements, ...removed]);
+}
+
+function truncate(text: string): string {
+  const line = text.split('\n')[0].trim();
+  return line.length > MAX_LABEL_TEXT_LENGTH ? `${line.slice(0, MAX_LABEL_TEXT_LENGTH - 1).trimEnd()}…` : line;
+}
+
+// A short description of an element for the list of changes
+export function getElementLabel(element: DrawingAction): string {
+  switch (element.type) {
+    case 'text':
+      return `Text "${truncate(element.text?.content || '')}"`;
+    case 'sticky':
+      return element.text?.content ? `Sticky note "${truncate(element.text.content)}"` : 'Sticky note';
+    case 'frame':
+      return `Frame ${element.name || ''}`.trim();
+    case 'connector':
+      return element.text?.content ? `Connector "${truncate(element.text.content)}"` : 'Connector';
+    case 'image':
+      return 'Image';
+    case 'shape': {
+      const shape = element.shape || 'rectangle';
+      return shape.charAt(0).toUpperCase() + shape.slice(1);
+    }
+    case 'erase':
+      return 'Eraser stroke';
+    default:
+      return element.tool === 'highlighter' ? 'Highlighter stroke' : 'Stroke';
+  }
+}
+
+// Outline each changed element in its color over the rendered board. Removed
+// elements are washed out, and modified ones that moved or resized also show
+// where they were
+export function renderDiffOverlay(ctx: CanvasRenderingContext2D, changes: ElementDiff[], viewport: Viewport): void {
+  const padding = 4 / viewport.zoom;
+
+  ctx.save();
+  applyViewportTransform(ctx, viewport);
+  ctx.lineWidth = 2 / viewport.zoom;
+
+  for (const change of changes) {
+    const color = DIFF_COLORS[change.kind];
+    const bounds = getRotatedBounds(change.element);
+    const x = bounds.x - padding;
+    const y = bounds.y - padding;
+    const width = bounds.width + padding * 2;
+    const height = bounds.height + padding * 2;
+
+    if (change.kind === 'removed') {
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+      ctx.fillRect(x, y, width, height);
+    }
+
+    ctx.strokeStyle = color;
+    ctx.setLineDash(change.kind === 'removed' ? [6 / viewport.zoom, 4 / viewport.zoom] : []);
+    ctx.strokeRect(x, y, width, height);
+
+    if (change.previous && (change.properties.includes('position') || change.properties.includes('size'))) {
+      const previous = getRotatedBounds(change.previous);
+      ctx.globalAlpha = 0.5;
+      ctx.setLineDash([2 / viewport.zoom, 3 / viewport.zoom]);
+      ctx.strokeRect(previous.x, previous.y, previous.width, previous.height);
+      ctx.globalAlpha = 1;
+    }
+  }
+
+  ctx.restore();
+}
@@ -0,0 +1,389 @@
+import { Bounds, DrawingAction, DrawingTool, ElementChanges, Point, TextData } from '@/types/whiteboard';
+import { sortByOrder } from '@/lib/zorder';
+
+export const FONT_FAMILY = 'Arial, sans-serif';
+export const LINE_HEIGHT = 1.25;
+export const STICKY_PADDING = 12;
+// Frame names are drawn in a strip just above the frame's top edge
+export const FRAME_LABEL_FONT_SIZE = 14;
+export const FRAME_LABEL_HEIGHT = 20;
+
+// Action types that create an element on the board
+export const ELEMENT_TYPES: DrawingAction['type'][] = ['draw', 'erase', 'shape', 'text', 'sticky', 'frame', 'image', 'connector'];
+
+export function getFont(fontSize: number): string {
+  return `${fontSize}px ${FONT_FAMILY}`;
+}
+
+export function isElementAction(action: DrawingAction): boolean {
+  return ELEMENT_TYPES.includes(action.type);
+}
+
+// Order actions deterministically so every client replays them the same way
+export function sortActions(actions: DrawingAction[]): DrawingAction[] {
+  return [...actions].sort((a, b) =>
+    a.timestamp !== b.timestamp ? a.timestamp - b.timestamp : a.id < b.id ? -1 : a.id > b.id ? 1 : 0
+  );
+}
+
+// A timestamp that orders a new action after everything already on the board
+export function nextTimestamp(actions: DrawingAction[]): number {
+  let latest = 0;
+  for (const action of actions) {
+    latest = Math.max(latest, action.timestamp);
+  }
+  return Math.max(Date.now(), latest + 1);
+}
+
+// Ids of actions whose latest undo or redo is an undo
+export function getUndoneActionIds(actions: DrawingAction[]): Set<string> {
+  const undone = new Set<string>();
+
+  for (const action of sortActions(actions)) {
+    const targetId = action.targetIds?.[0];
+    if (!targetId) continue;
+
+    if (action.type === 'undo') {
+      undone.add(targetId);
+    } else if (action.type === 'redo') {
+      undone.delete(targetId);
+    }
+  }
+
+  return undone;
+}
+
+// Updates never change what an element is or where an image comes from,
+// whatever a client sends
+function applyChanges(element: DrawingAction, changes: ElementChanges): DrawingAction {
+  const updated: DrawingAction = { ...element, ...changes, id: element.id, type: element.type };
+  if (element.src !== undefined) {
+    updated.src = element.src;
+  } else {
+    delete updated.src;
+  }
+  return updated;
+}
+
+// Replay the action log into the list of elements currently on the board,
+// bottom to top. Undone actions are skipped as if they had never happened
+export function resolveElements(actions: DrawingAction[]): DrawingAction[] {
+  let elements: DrawingAction[] = [];
+  const indexById = new Map<string, number>();
+  const undone = getUndoneActionIds(actions);
+
+  for (const action of sortActions(actions)) {
+    if (undone.has(action.id)) continue;
+
+    if (action.type === 'clear') {
+      elements = [];
+      indexById.clear();
+    } else if (action.type === 'update') {
+      for (const [targetId, changes] of Object.entries(action.changes || {})) {
+        const index = indexById.get(targetId);
+        if (index !== undefined) {
+          elements[index] = applyChanges(elements[index], changes);
+        }
+      }
+    } else if (action.type === 'delete') {
+      const deleted = new Set(action.targetIds || []);
+      elements = elements.filter(element => !deleted.has(element.id));
+      indexById.clear();
+      elements.forEach((element, index) => indexById.set(element.id, index));
+    } else if (action.type === 'restore') {
+      // A restored version replaces the page, like a clear followed by its elements
+      elements = (action.elements || []).filter(isElementAction);
+      indexById.clear();
+      elements.forEach((element, index) => indexById.set(element.id, index));
+    } else if (action.type === 'duplicate') {
+      for (const element of action.elements || []) {
+        if (isElementAction(element) && !indexById.has(element.id)) {
+          indexById.set(element.id, elements.length);
+          elements.push(element);
+        }
+      }
+    } else if (isElementAction(action) && !indexById.has(action.id)) {
+      indexById.set(action.id, elements.length);
+      elements.push(action);
+    }
+  }
+
+  return sortByOrder(elements);
+}
+
+// How strokes and shapes drawn with a tool look. Highlighters multiply with
+// what is underneath so text stays readable through them
+export function getStrokeStyle(tool: DrawingTool): Pick<DrawingAction, 'tool' | 'opacity' | 'blendMode'> {
+  if (tool.type === 'highlighter') {
+    return { tool: 'highlighter', opacity: tool.opacity, blendMode: 'multiply' };
+  }
+  return { tool: 'pen', opacity: tool.opacity, blendMode: 'normal' };
+}
+
+// Stroke width at a point, thinner for light pressure and thicker for firm pressure
+export function getPressureWidth(strokeWidth: number, pressure?: number): number {
+  if (pressure === undefined) return strokeWidth;
+  return strokeWidth * (0.25 + 1.5 * Math.max(0, Math.min(1, pressure)));
+}
+
+export function hasPressure(points: Point[]): boolean {
+  return points.some(point => point.pressure !== undefined);
+}
+
+let measureContext: CanvasRenderingContext2D | null | undefined;
+
+function getMeasureContext(): CanvasRenderingContext2D | null {
+  if (measureContext === undefined) {
+    measureContext = typeof document !== 'undefined'
+      ? document.createElement('canvas').getContext('2d')
+      : null;
+  }
+  return measureContext;
+}
+
+// Measure a block of multi-line text, estimating when no canvas is available
+export function measureTextBlock(text: TextData): { width: number; height: number } {
+  const ctx = getMeasureContext();
+  const lines = text.content.split('\n');
+  let width = 0;
+
+  if (ctx) {
+    ctx.font = getFont(text.fontSize);
+  }
+
+  for (const line of lines) {
+    const lineWidth = ctx ? ctx.measureText(line).width : line.length * text.fontSize * 0.6;
+    width = Math.max(width, lineWidth);
+  }
+
+  return { width, height: lines.length * text.fontSize * LINE_HEIGHT };
+}
+
+export function getPointsBounds(points: Point[]): Bounds {
+  if (points.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+
+  for (const point of points) {
+    minX = Math.min(minX, point.x);
+    minY = Math.min(minY, point.y);
+    maxX = Math.max(maxX, point.x);
+    maxY = Math.max(maxY, point.y);
+  }
+
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+// Unrotated bounds of an element in board coordinates
+export function getElementBounds(element: DrawingAction): Bounds {
+  if (element.points.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+
+  const origin = element.points[0];
+
+  switch (element.type) {
+    case 'sticky':
+    case 'frame':
+    case 'image':
+      return { x: origin.x, y: origin.y, width: element.width || 0, height: element.height || 0 };
+    case 'text':
+      return element.text
+        ? { x: origin.x, y: origin.y, ...measureTextBlock(element.text) }
+        : { x: origin.x, y: origin.y, width: 0, height: 0 };
+    default:
+      return getPointsBounds(element.points);
+  }
+}
+
+// Axis-aligned bounds of the element after its rotation is applied
+export function getRotatedBounds(element: DrawingAction): Bounds {
+  const bounds = getElementBounds(element);
+  if (!element.rotation) return bounds;
+
+  const center = getBoundsCenter(bounds);
+  return getPointsBounds([
+    { x: bounds.x, y: bounds.y },
+    { x: bounds.x + bounds.width, y: bounds.y },
+    { x: bounds.x + bounds.width, y: bounds.y + bounds.height },
+    { x: bounds.x, y: bounds.y + bounds.height },
+  ].map(corner => rotatePoint(corner, center, element.rotation || 0)));
+}
+
+export function getBoundsCenter(bounds: Bounds): Point {
+  return { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
+}
+
+export function getElementCenter(element: DrawingAction): Point {
+  return getBoundsCenter(getElementBounds(element));
+}
+
+export function unionBounds(boundsList: Bounds[]): Bounds {
+  if (boundsList.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+
+  const minX = Math.min(...boundsList.map(b => b.x));
+  const minY = Math.min(...boundsList.map(b => b.y));
+  const maxX = Math.max(...boundsList.map(b => b.x + b.width));
+  const maxY = Math.max(...boundsList.map(b => b.y + b.height));
+
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+export function rotatePoint(point: Point, center: Point, angle: number): Point {
+  if (!angle) return point;
+
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const dx = point.x - center.x;
+  const dy = point.y - center.y;
+
+  return {
+    x: center.x + dx * cos - dy * sin,
+    y: center.y + dx * sin + dy * cos,
+  };
+}
+
+function distanceToSegment(point: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+
+  if (lengthSquared === 0) {
+    return Math.hypot(point.x - a.x, point.y - a.y);
+  }
+
+  const t = Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared));
+  return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy));
+}
+
+function isInsideBounds(point: Point, bounds: Bounds, tolerance: number): boolean {
+  return (
+    point.x >= bounds.x - tolerance &&
+    point.x <= bounds.x + bounds.width + tolerance &&
+    point.y >= bounds.y - tolerance &&
+    point.y <= bounds.y + bounds.height + tolerance
+  );
+}
+
+// Whether a board point touches the element, allowing for its rotation
+export function hitTestElement(element: DrawingAction, point: Point, tolerance = 4): boolean {
+  if (element.points.length === 0) return false;
+
+  const local = rotatePoint(point, getElementCenter(element), -(element.rotation || 0));
+  const widest = Math.max(...element.points.map(p => getPressureWidth(element.strokeWidth, p.pressure)));
+  const reach = widest / 2 + tolerance;
+
+  if (
+    element.type === 'draw' ||
+    element.type === 'erase' ||
+    element.type === 'connector' ||
+    element.shape === 'line' ||
+    element.shape === 'arrow'
+  ) {
+    const points = element.points;
+    if (points.length === 1) {
+      return Math.hypot(local.x - points[0].x, local.y - points[0].y) <= reach;
+    }
+
+    for (let i = 1; i < points.length; i++) {
+      if (distanceToSegment(local, points[i - 1], points[i]) <= reach) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  // Frames are picked up by their edge or name, so clicks inside them reach their contents
+  if (element.type === 'frame') {
+    const bounds = getElementBounds(element);
+    const label = { x: bounds.x, y: bounds.y - FRAME_LABEL_HEIGHT, width: bounds.width, height: FRAME_LABEL_HEIGHT };
+    const inner = {
+      x: bounds.x + reach,
+      y: bounds.y + reach,
+      width: bounds.width - reach * 2,
+      height: bounds.height - reach * 2,
+    };
+    return isInsideBounds(local, label, tolerance) || (isInsideBounds(local, bounds, reach) && !isInsideBounds(local, inner, 0));
+  }
+
+  return isInsideBounds(local, getElementBounds(element), reach);
+}
+
+const MAX_SEGMENT_SAMPLES = 1000;
+
+// Every element touched by a pointer moving in a straight line between two board points
+export function findElementsAlongSegment(
+  elements: DrawingAction[],
+  from: Point,
+  to: Point,
+  tolerance = 4
+): DrawingAction[] {
+  const length = Math.hypot(to.x - from.x, to.y - from.y);
+  const steps = Math.min(MAX_SEGMENT_SAMPLES, Math.max(1, Math.ceil(length / Math.max(tolerance, 1))));
+  const samples = Array.from({ length: steps + 1 }, (_, i) => ({
+    x: from.x + ((to.x - from.x) * i) / steps,
+    y: from.y + ((to.y - from.y) * i) / steps,
+  }));
+
+  return elements.filter(
+    element => element.type !== 'erase' && samples.some(point => hitTestElement(element, point, tolerance))
+  );
+}
+
+// Topmost selectable element under a board point
+export function findElementAt(elements: DrawingAction[], point: Point, tolerance = 4): DrawingAction | null {
+  for (let i = elements.length - 1; i >= 0; i--) {
+    const element = elements[i];
+    if (element.type !== 'erase' && hitTestElement(element, point, tolerance)) {
+      return element;
+    }
+  }
+  return null;
+}
+
+export function translateElement(element: DrawingAction, dx: number, dy: number): ElementChanges {
+  return {
+    points: element.points.map(point => ({ ...point, x: point.x + dx, y: point.y + dy })),
+  };
+}
+
+// Map an element from one bounding box onto another
+export function scaleElement(element: DrawingAction, from: Bounds, to: Bounds): ElementChanges {
+  const scaleX = from.width === 0 ? 1 : to.width / from.width;
+  const scaleY = from.height === 0 ? 1 : to.height / from.height;
+
+  const points = element.points.map(point => ({
+    ...point,
+    x: to.x + (point.x - from.x) * scaleX,
+    y: to.y + (point.y - from.y) * scaleY,
+  }));
+
+  if (element.type === 'sticky' || element.type === 'frame' || element.type === 'image') {
+    return {
+      points,
+      width: (element.width || 0) * scaleX,
+      height: (element.height || 0) * scaleY,
+    };
+  }
+
+  if (element.type === 'text' && element.text) {
+    return {
+      points,
+      text: { ...element.text, fontSize: Math.max(4, element.text.fontSize * scaleY) },
+    };
+  }
+
+  return { points };
+}
+
+// Rotate an element around an arbitrary pivot, moving its centre along
+export function rotateElement(element: DrawingAction, pivot: Point, angle: number): ElementChanges {
+  const center = getElementCenter(element);
+  const rotatedCenter = rotatePoint(center, pivot, angle);
+
+  return {
+    ...translateElement(element, rotatedCenter.x - center.x, rotatedCenter.y - center.y),
+    rotation: (element.rotation || 0) + angle,
+  };
+}
@@ -0,0 +1,118 @@
+import { Bounds, DrawingAction, Viewport, WhiteboardSettings } from '@/types/whiteboard';
+import { getElementBounds, getRotatedBounds, unionBounds } from '@/lib/elements';
+import { preloadImages, renderElements } from '@/lib/renderer';
+import { DEFAULT_SETTINGS } from '@/lib/settings';
+
+// The whole open page, what is on screen, or the selected elements only
+export type ExportScope = 'board' | 'viewport' | 'selection';
+export type ExportBackground = 'solid' | 'transparent';
+
+export interface ExportOptions {
+  scope: ExportScope;
+  scale: number;
+  background: ExportBackground;
+  // Space around the exported area, in pixels at 1x
+  padding: number;
+}
+
+export const EXPORT_SCOPES: ExportScope[] = ['board', 'viewport', 'selection'];
+export const EXPORT_SCALES = [1, 2, 4];
+export const MAX_EXPORT_PADDING = 200;
+// Browsers refuse to create canvases much larger than this on a side
+export const MAX_EXPORT_SIZE = 8192;
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  scope: 'board',
+  scale: 2,
+  background: 'solid',
+  padding: 16,
+};
+
+// The elements an export draws, already arranged and routed the way the
+// canvas draws them. A selection export leaves everything else out
+export function getExportElements(
+  scope: ExportScope,
+  elements: DrawingAction[],
+  selectedIds: string[]
+): DrawingAction[] {
+  return scope === 'selection' ? elements.filter(element => selectedIds.includes(element.id)) : elements;
+}
+
+// The part of the board an export covers before padding, or null when
+// there is nothing to export
+export function getExportBounds(
+  scope: ExportScope,
+  elements: DrawingAction[],
+  visibleBounds: Bounds | null
+): Bounds | null {
+  if (scope === 'viewport') return visibleBounds;
+
+  const visible = elements.filter(element => element.type !== 'erase');
+  return visible.length > 0 ? unionBounds(visible.map(getRotatedBounds)) : null;
+}
+
+// The output size and the viewport that maps the padded bounds onto it. A
+// board or selection export draws one board unit per pixel at 1x; a viewport
+// export keeps the on-screen zoom, so at 1x it matches the screen pixel for pixel
+export function getExportLayout(
+  bounds: Bounds,
+  options: ExportOptions,
+  zoom = 1
+): { width: number; height: number; viewport: Viewport } {
+  const baseZoom = options.scope === 'viewport' ? zoom : 1;
+  const padding = Math.max(0, Math.min(MAX_EXPORT_PADDING, options.padding)) / baseZoom;
+  const paddedWidth = bounds.width + padding * 2;
+  const paddedHeight = bounds.height + padding * 2;
+
+  // Large boards are scaled down to fit rather than failing to export
+  let exportZoom = baseZoom * options.scale;
+  exportZoom = Math.min(exportZoom, MAX_EXPORT_SIZE / Math.max(paddedWidth, paddedHeight, 1));
+
+  return {
+    width: Math.max(1, Math.round(paddedWidth * exportZoom)),
+    height: Math.max(1, Math.round(paddedHeight * exportZoom)),
+    viewport: { x: bounds.x - padding, y: bounds.y - padding, zoom: exportZoom },
+  };
+}
+
+// A PNG data URL of part of the board, drawn by the same renderer as the
+// canvas once any images on it have loaded. Null outside the browser
+export async function exportBoardImage(
+  elements: DrawingAction[],
+  bounds: Bounds,
+  options: ExportOptions,
+  settings: WhiteboardSettings = DEFAULT_SETTINGS,
+  zoom = 1
+): Promise<string | null> {
+  if (typeof document === 'undefined') return null;
+
+  await preloadImages(
+    elements.filter(element => element.type === 'image' && element.src).map(element => element.src as string)
+  );
+
+  const { width, height, viewport } = getExportLayout(bounds, options, zoom);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  renderElements(ctx, elements, width, height, viewport, settings, options.background === 'solid');
+  return canvas.toDataURL('image/png');
+}
+
+// A PNG data URL of what is inside a frame, without the frame's own outline
+export function exportFrameImage(
+  frame: DrawingAction,
+  elements: DrawingAction[],
+  settings: WhiteboardSettings = DEFAULT_SETTINGS,
+  scale = 2
+): Promise<string | null> {
+  return exportBoardImage(
+    elements.filter(element => element.id !== frame.id),
+    getElementBounds(frame),
+    { scope: 'board', scale, background: 'solid', padding: 0 },
+    settings
+  );
+}
@@ -0,0 +1,76 @@
+import { Bounds, DrawingAction, Viewport, WhiteboardSettings } from '@/types/whiteboard';
+import { getElementBounds, getRotatedBounds } from '@/lib/elements';
+import { renderElements } from '@/lib/renderer';
+import { DEFAULT_SETTINGS } from '@/lib/settings';
+
+// Frames smaller than this when dragged out are treated as a stray click
+export const MIN_FRAME_SIZE = 20;
+export const FRAME_COLOR = '#6b7280';
+
+export function getFrames(elements: DrawingAction[]): DrawingAction[] {
+  return elements.filter(element => element.type === 'frame');
+}
+
+export function getNextFrameName(frames: DrawingAction[]): string {
+  return `Frame ${frames.length + 1}`;
+}
+
+function containsBounds(outer: Bounds, inner: Bounds): boolean {
+  return (
+    inner.x >= outer.x &&
+    inner.y >= outer.y &&
+    inner.x + inner.width <= outer.x + outer.width &&
+    inner.y + inner.height <= outer.y + outer.height
+  );
+}
+
+// Elements lying entirely inside a frame, nested frames included
+export function getFrameContents(frame: DrawingAction, elements: DrawingAction[]): DrawingAction[] {
+  const bounds = getElementBounds(frame);
+  return elements.filter(
+    element => element.id !== frame.id && containsBounds(bounds, getRotatedBounds(element))
+  );
+}
+
+// Add the contents of every frame among the targets, so frames carry them along when moved
+export function withFrameContents(targets: DrawingAction[], elements: DrawingAction[]): DrawingAction[] {
+  const result = [...targets];
+  const ids = new Set(targets.map(target => target.id));
+
+  for (const frame of getFrames(targets)) {
+    for (const element of getFrameContents(frame, elements)) {
+      if (!ids.has(element.id)) {
+        ids.add(element.id);
+        result.push(element);
+      }
+    }
+  }
+
+  return result;
+}
+
+// The viewport that shows exactly the frame on a canvas of the given width
+export function getFrameViewport(frame: DrawingAction, width: number): Viewport {
+  const bounds = getElementBounds(frame);
+  return { x: bounds.x, y: bounds.y, zoom: width / Math.max(bounds.width, 1) };
+}
+
+// Draw the part of the board inside a frame, without the frame's own outline.
+// The canvas should have the frame's aspect ratio
+export function renderFrame(
+  ctx: CanvasRenderingContext2D,
+  frame: DrawingAction,
+  elements: DrawingAction[],
+  width: number,
+  height: number,
+  settings: WhiteboardSettings = DEFAULT_SETTINGS
+): void {
+  renderElements(
+    ctx,
+    elements.filter(element => element.id !== frame.id),
+    width,
+    height,
+    getFrameViewport(frame, width),
+    settings
+  );
+}
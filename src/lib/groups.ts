@@ -0,0 +1,121 @@
+import { DrawingAction, ElementGroup } from '@/types/whiteboard';
+import { getUndoneActionIds, sortActions } from '@/lib/elements';
+
+// Replay 'group' and 'ungroup' actions into the groups currently on the board.
+// Every member has at most one parent: a later group takes a member over from
+// an earlier one, so clients that replay the same log agree. A restored
+// version brings back the groups it was saved with. Groups whose elements
+// have all been deleted are dropped
+export function resolveGroups(actions: DrawingAction[], elements: DrawingAction[]): ElementGroup[] {
+  let groups = new Map<string, ElementGroup>();
+  const undone = getUndoneActionIds(actions);
+
+  for (const action of sortActions(actions)) {
+    if (undone.has(action.id)) continue;
+
+    if (action.type === 'clear') {
+      groups = new Map();
+    } else if (action.type === 'restore') {
+      groups = new Map((action.groups || []).map(group => [group.id, { ...group, memberIds: [...group.memberIds] }]));
+    } else if (action.type === 'group' && !groups.has(action.id)) {
+      const memberIds = [...new Set(action.targetIds || [])];
+      for (const group of groups.values()) {
+        group.memberIds = group.memberIds.filter(id => !memberIds.includes(id));
+      }
+      groups.set(action.id, { id: action.id, name: action.name || 'Group', memberIds });
+    } else if (action.type === 'ungroup') {
+      for (const groupId of action.targetIds || []) {
+        groups.delete(groupId);
+      }
+    } else if (action.type === 'update') {
+      for (const [targetId, changes] of Object.entries(action.changes || {})) {
+        const group = groups.get(targetId);
+        if (group && typeof changes.name === 'string') {
+          group.name = changes.name;
+        }
+      }
+    }
+  }
+
+  // Drop members that no longer exist, innermost groups first. A group that
+  // ends up inside itself only exists through its other members
+  const elementIds = new Set(elements.map(element => element.id));
+  const exists = (id: string, visited: Set<string> = new Set()): boolean => {
+    if (elementIds.has(id)) return true;
+    const group = groups.get(id);
+    if (!group || visited.has(id)) return false;
+    visited.add(id);
+    return group.memberIds.some(memberId => exists(memberId, visited));
+  };
+
+  return [...groups.values()]
+    .map(group => ({ ...group, memberIds: group.memberIds.filter(id => exists(id)) }))
+    .filter(group => group.memberIds.length > 0);
+}
+
+function getParents(groups: ElementGroup[]): Map<string, string> {
+  const parents = new Map<string, string>();
+  for (const group of groups) {
+    for (const memberId of group.memberIds) {
+      parents.set(memberId, group.id);
+    }
+  }
+  return parents;
+}
+
+// The outermost group containing an element, or the element itself when ungrouped
+export function getTopLevelId(id: string, groups: ElementGroup[]): string {
+  const parents = getParents(groups);
+  const visited = new Set([id]);
+  let current = id;
+  while (parents.has(current) && !visited.has(parents.get(current)!)) {
+    current = parents.get(current)!;
+    visited.add(current);
+  }
+  return current;
+}
+
+// The element ids inside a group and all of its nested groups
+export function getGroupElementIds(id: string, groups: ElementGroup[], visited: Set<string> = new Set()): string[] {
+  const group = groups.find(candidate => candidate.id === id);
+  if (!group) return [id];
+  if (visited.has(id)) return [];
+  visited.add(id);
+  return group.memberIds.flatMap(memberId => getGroupElementIds(memberId, groups, visited));
+}
+
+// Whether any group contains itself, directly or through nested groups
+export function hasGroupCycle(groups: ElementGroup[]): boolean {
+  const members = new Map(groups.map(group => [group.id, group.memberIds]));
+  const checked = new Set<string>();
+  const visit = (id: string, path: Set<string>): boolean => {
+    if (path.has(id)) return true;
+    if (checked.has(id) || !members.has(id)) return false;
+    path.add(id);
+    const cyclic = members.get(id)!.some(memberId => visit(memberId, path));
+    path.delete(id);
+    checked.add(id);
+    return cyclic;
+  };
+  return groups.some(group => visit(group.id, new Set()));
+}
+
+// Widen a set of element ids so whole groups are always selected together
+export function expandToGroups(ids: string[], groups: ElementGroup[]): string[] {
+  const expanded = new Set<string>();
+  for (const id of ids) {
+    for (const elementId of getGroupElementIds(getTopLevelId(id, groups), groups)) {
+      expanded.add(elementId);
+    }
+  }
+  return [...expanded];
+}
+
+// The distinct top-level elements and groups a selection is made of
+export function getTopLevelIds(ids: string[], groups: ElementGroup[]): string[] {
+  return [...new Set(ids.map(id => getTopLevelId(id, groups)))];
+}
+
+export function getNextGroupName(groups: ElementGroup[]): string {
+  return `Group ${groups.length + 1}`;
+}
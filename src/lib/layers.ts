@@ -0,0 +1,75 @@
+import { DrawingAction, Layer } from '@/types/whiteboard';
+
+// Boards created before layers existed have everything on this layer
+export const DEFAULT_LAYER_ID = 'default';
+
+export const DEFAULT_LAYER: Layer = {
+  id: DEFAULT_LAYER_ID,
+  name: 'Layer 1',
+  visible: true,
+  locked: false,
+};
+
+const MAX_LAYER_NAME_LENGTH = 100;
+
+// Layers bottom to top; a board without any has just the default layer
+export function getLayers(layers?: Layer[]): Layer[] {
+  return layers && layers.length > 0 ? layers : [DEFAULT_LAYER];
+}
+
+// Elements on a layer that no longer exists fall back to the bottom layer
+export function getElementLayer(element: DrawingAction, layers: Layer[]): Layer {
+  const layerId = element.layerId || DEFAULT_LAYER_ID;
+  return layers.find(layer => layer.id === layerId) || layers[0];
+}
+
+// Visible elements stacked layer by layer, keeping their order within each layer
+export function arrangeByLayer(elements: DrawingAction[], layers: Layer[]): DrawingAction[] {
+  return elements
+    .map((element, index) => ({ element, index, layerIndex: layers.indexOf(getElementLayer(element, layers)) }))
+    .filter(({ element }) => getElementLayer(element, layers).visible)
+    .sort((a, b) => a.layerIndex - b.layerIndex || a.index - b.index)
+    .map(({ element }) => element);
+}
+
+// Locked and hidden layers can be seen or traced over but not edited
+export function isLayerEditable(layer: Layer): boolean {
+  return layer.visible && !layer.locked;
+}
+
+export function isElementEditable(element: DrawingAction, layers: Layer[]): boolean {
+  return isLayerEditable(getElementLayer(element, layers));
+}
+
+export function getNextLayerName(layers: Layer[]): string {
+  return `Layer ${layers.length + 1}`;
+}
+
+export function validateLayer(layer: any): layer is Layer {
+  return (
+    !!layer &&
+    typeof layer === 'object' &&
+    typeof layer.id === 'string' &&
+    layer.id.length > 0 &&
+    typeof layer.name === 'string' &&
+    typeof layer.visible === 'boolean' &&
+    typeof layer.locked === 'boolean'
+  );
+}
+
+export function sanitizeLayer(layer: Layer): Layer {
+  return {
+    id: layer.id,
+    name: layer.name.slice(0, MAX_LAYER_NAME_LENGTH),
+    visible: layer.visible,
+    locked: layer.locked,
+  };
+}
+
+// Replace a layer by id, or add it on top when it is new
+export function mergeLayer(layers: Layer[] | undefined, layer: Layer): Layer[] {
+  const current = getLayers(layers);
+  return current.some(existing => existing.id === layer.id)
+    ? current.map(existing => (existing.id === layer.id ? layer : existing))
+    : [...current, layer];
+}
@@ -0,0 +1,90 @@
+import { DrawingAction, Page, PageChange } from '@/types/whiteboard';
+
+// Boards created before pages existed keep all their actions on this page
+export const DEFAULT_PAGE_ID = 'default';
+
+export const DEFAULT_PAGE: Page = {
+  id: DEFAULT_PAGE_ID,
+  name: 'Page 1',
+};
+
+const MAX_PAGE_NAME_LENGTH = 100;
+
+// Pages in tab order; a board without any has just the default page
+export function getPages(pages?: Page[]): Page[] {
+  return pages && pages.length > 0 ? pages : [DEFAULT_PAGE];
+}
+
+export function getActionPageId(action: DrawingAction): string {
+  return action.pageId || DEFAULT_PAGE_ID;
+}
+
+// The action stream of a single page
+export function getPageActions(actions: DrawingAction[], pageId: string): DrawingAction[] {
+  return actions.filter(action => getActionPageId(action) === pageId);
+}
+
+// The actions of the pages that still exist; a deleted page takes its action stream with it
+export function getActionsOnPages(actions: DrawingAction[], pages: Page[]): DrawingAction[] {
+  return actions.filter(action => pages.some(page => page.id === getActionPageId(action)));
+}
+
+export function getNextPageName(pages: Page[]): string {
+  return `Page ${pages.length + 1}`;
+}
+
+export function validatePage(page: any): page is Page {
+  return (
+    !!page &&
+    typeof page === 'object' &&
+    typeof page.id === 'string' &&
+    page.id.length > 0 &&
+    typeof page.name === 'string'
+  );
+}
+
+export function sanitizePage(page: Page): Page {
+  return {
+    id: page.id,
+    name: page.name.slice(0, MAX_PAGE_NAME_LENGTH),
+  };
+}
+
+export function validatePageChange(change: any): change is PageChange {
+  if (!change || typeof change !== 'object') return false;
+
+  if (change.type === 'upsert') {
+    return validatePage(change.page);
+  }
+
+  if (change.type === 'move') {
+    return typeof change.pageId === 'string' && typeof change.index === 'number' && !isNaN(change.index);
+  }
+
+  return change.type === 'delete' && typeof change.pageId === 'string';
+}
+
+// Apply a create, rename, move or delete to the page list. Changes are small
+// so two people editing different pages at once don't overwrite each other.
+// The last page can't be deleted
+export function applyPageChange(pages: Page[] | undefined, change: PageChange): Page[] {
+  const current = getPages(pages);
+
+  if (change.type === 'upsert') {
+    const page = sanitizePage(change.page);
+    return current.some(existing => existing.id === page.id)
+      ? current.map(existing => (existing.id === page.id ? page : existing))
+      : [...current, page];
+  }
+
+  const page = current.find(existing => existing.id === change.pageId);
+  if (!page) return current;
+
+  if (change.type === 'delete') {
+    return current.length > 1 ? current.filter(existing => existing !== page) : current;
+  }
+
+  const rest = current.filter(existing => existing !== page);
+  const index = Math.max(0, Math.min(rest.length, Math.round(change.index)));
+  return [...rest.slice(0, index), page, ...rest.slice(index)];
+}
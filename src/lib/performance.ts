@@ -1,5 +1,6 @@
 // Performance optimization utilities
 import React from 'react';
+import { Point } from '@/types/whiteboard';
 
 export class PerformanceMonitor {
   private static instance: PerformanceMonitor;
@@ -103,27 +104,50 @@ export class CanvasOptimizer {
     });
   }
 
-  private static simplifyPath(points: any[], tolerance: number): any[] {
+  // Ramer–Douglas–Peucker: keep only the points that deviate from the straight
+  // line between their neighbours by more than `tolerance`
+  static simplifyPath<T extends Point>(points: T[], tolerance: number): T[] {
     if (points.length <= 2) return points;
 
-    const simplified = [points[0]];
-    let lastPoint = points[0];
+    const keep = new Array<boolean>(points.length).fill(false);
+    keep[0] = true;
+    keep[points.length - 1] = true;
 
-    for (let i = 1; i < points.length - 1; i++) {
-      const currentPoint = points[i];
-      const distance = Math.sqrt(
-        Math.pow(currentPoint.x - lastPoint.x, 2) + 
-        Math.pow(currentPoint.y - lastPoint.y, 2)
-      );
+    // Walk the ranges with an explicit stack so long strokes can't overflow the call stack
+    const ranges: Array<[number, number]> = [[0, points.length - 1]];
 
-      if (distance > tolerance) {
-        simplified.push(currentPoint);
-        lastPoint = currentPoint;
+    while (ranges.length > 0) {
+      const [start, end] = ranges.pop()!;
+      let maxDistance = 0;
+      let index = -1;
+
+      for (let i = start + 1; i < end; i++) {
+        const distance = this.distanceToLine(points[i], points[start], points[end]);
+        if (distance > maxDistance) {
+          maxDistance = distance;
+          index = i;
+        }
       }
+
+      if (index !== -1 && maxDistance > tolerance) {
+        keep[index] = true;
+        ranges.push([start, index], [index, end]);
+      }
+    }
+
+    return points.filter((_, i) => keep[i]);
+  }
+
+  private static distanceToLine(point: Point, start: Point, end: Point): number {
+    const dx = end.x - start.x;
+    const dy = end.y - start.y;
+    const length = Math.hypot(dx, dy);
+
+    if (length === 0) {
+      return Math.hypot(point.x - start.x, point.y - start.y);
     }
 
-    simplified.push(points[points.length - 1]);
-    return simplified;
+    return Math.abs(dy * point.x - dx * point.y + end.x * start.y - end.y * start.x) / length;
   }
 
   static shouldOptimize(actions: any[]): boolean {
@@ -229,6 +253,14 @@ export class VirtualScroller {
 
 // Image optimization utilities
 export class ImageOptimizer {
+  // Whether any pixel of RGBA image data is not fully opaque
+  static hasTransparency(data: Uint8ClampedArray): boolean {
+    for (let i = 3; i < data.length; i += 4) {
+      if (data[i] < 255) return true;
+    }
+    return false;
+  }
+
   static async compressImage(
     file: File,
     maxWidth: number = 1920,
@@ -240,7 +272,11 @@ export class ImageOptimizer {
       const ctx = canvas.getContext('2d')!;
       const img = new Image();
 
+      const url = URL.createObjectURL(file);
+
       img.onload = () => {
+        URL.revokeObjectURL(url);
+
         // Calculate new dimensions
         let { width, height } = img;
         
@@ -253,18 +289,28 @@ export class ImageOptimizer {
         canvas.width = width;
         canvas.height = height;
 
-        // Draw and compress
+        // Draw and compress. JPEG has no alpha channel, so images with
+        // transparent pixels stay PNG rather than gaining a black background
         ctx.drawImage(img, 0, 0, width, height);
+        const keepsAlpha =
+          file.type !== 'image/jpeg' &&
+          ImageOptimizer.hasTransparency(ctx.getImageData(0, 0, canvas.width, canvas.height).data);
+
         canvas.toBlob((blob) => {
           if (blob) {
             resolve(blob);
           } else {
             reject(new Error('Failed to compress image'));
           }
-        }, 'image/jpeg', quality);
+        }, keepsAlpha ? 'image/png' : 'image/jpeg', quality);
+      };
+
+      img.onerror = () => {
+        URL.revokeObjectURL(url);
+        reject(new Error('Failed to load image'));
       };
 
-      img.src = URL.createObjectURL(file);
+      img.src = url;
     });
   }
 }
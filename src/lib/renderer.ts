@@ -0,0 +1,684 @@
+import { ArrowheadStyle, DrawingAction, Point, SelectMode, TextData, Viewport, WhiteboardSettings } from '@/types/whiteboard';
+import {
+  FRAME_LABEL_FONT_SIZE,
+  LINE_HEIGHT,
+  STICKY_PADDING,
+  getElementCenter,
+  getFont,
+  getPressureWidth,
+  hasPressure,
+  measureTextBlock,
+} from '@/lib/elements';
+import { ROTATE_HANDLE_OFFSET, SelectionFrame, TransformHandle, getHandlePositions } from '@/lib/selection';
+import { DEFAULT_VIEWPORT, applyViewportTransform } from '@/lib/viewport';
+import { DEFAULT_SETTINGS } from '@/lib/settings';
+import { DEFAULT_LAYER_ID } from '@/lib/layers';
+import { DEFAULT_END_ARROWHEAD, DEFAULT_START_ARROWHEAD, getRouteMidpoint } from '@/lib/connectors';
+
+const ARROW_HEAD_ANGLE = Math.PI / 6;
+
+// Points sampled along each curve segment when smoothing a stroke into an outline
+const SMOOTHING_STEPS = 4;
+
+function midpoint(a: Point, b: Point): Point {
+  const point: Point = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+  if (a.pressure !== undefined && b.pressure !== undefined) {
+    point.pressure = (a.pressure + b.pressure) / 2;
+  }
+  return point;
+}
+
+// Sample the quadratic-midpoint curve through the points, so outlines built
+// from them are as smooth as strokes drawn with quadraticCurveTo
+export function smoothPoints(points: Point[], steps = SMOOTHING_STEPS): Point[] {
+  if (points.length <= 2) return points;
+
+  const smoothed: Point[] = [points[0]];
+  let start = points[0];
+
+  for (let i = 1; i < points.length - 1; i++) {
+    const control = points[i];
+    const end = midpoint(points[i], points[i + 1]);
+
+    for (let step = 1; step <= steps; step++) {
+      const t = step / steps;
+      const a = (1 - t) * (1 - t);
+      const b = 2 * (1 - t) * t;
+      const c = t * t;
+      const point: Point = {
+        x: a * start.x + b * control.x + c * end.x,
+        y: a * start.y + b * control.y + c * end.y,
+      };
+      if (start.pressure !== undefined && control.pressure !== undefined && end.pressure !== undefined) {
+        point.pressure = a * start.pressure + b * control.pressure + c * end.pressure;
+      }
+      smoothed.push(point);
+    }
+
+    start = end;
+  }
+
+  smoothed.push(points[points.length - 1]);
+  return smoothed;
+}
+
+// Curve through the midpoints between samples, using each sample as the control point
+function drawStroke(ctx: CanvasRenderingContext2D, points: Point[], usePressure = true): void {
+  if (usePressure && hasPressure(points)) {
+    drawPressureStroke(ctx, smoothPoints(points));
+    return;
+  }
+
+  ctx.beginPath();
+  ctx.moveTo(points[0].x, points[0].y);
+
+  if (points.length === 1) {
+    ctx.lineTo(points[0].x, points[0].y);
+  }
+
+  for (let i = 1; i < points.length - 1; i++) {
+    const end = midpoint(points[i], points[i + 1]);
+    ctx.quadraticCurveTo(points[i].x, points[i].y, end.x, end.y);
+  }
+
+  if (points.length > 1) {
+    const last = points[points.length - 1];
+    ctx.lineTo(last.x, last.y);
+  }
+
+  ctx.stroke();
+}
+
+// Fill the outline of a variable-width stroke: a round dot at every point joined
+// by quads. Everything is one path wound the same way, so overlaps are filled
+// once and translucent strokes stay even
+function drawPressureStroke(ctx: CanvasRenderingContext2D, points: Point[]): void {
+  const baseWidth = ctx.lineWidth;
+  const radii = points.map(point => getPressureWidth(baseWidth, point.pressure) / 2);
+
+  ctx.beginPath();
+
+  for (let i = 0; i < points.length; i++) {
+    const { x, y } = points[i];
+    ctx.moveTo(x + radii[i], y);
+    ctx.arc(x, y, radii[i], 0, 2 * Math.PI);
+
+    if (i === 0) continue;
+
+    const prev = points[i - 1];
+    const length = Math.hypot(x - prev.x, y - prev.y);
+    if (length === 0) continue;
+
+    const nx = -(y - prev.y) / length;
+    const ny = (x - prev.x) / length;
+
+    ctx.moveTo(prev.x - nx * radii[i - 1], prev.y - ny * radii[i - 1]);
+    ctx.lineTo(x - nx * radii[i], y - ny * radii[i]);
+    ctx.lineTo(x + nx * radii[i], y + ny * radii[i]);
+    ctx.lineTo(prev.x + nx * radii[i - 1], prev.y + ny * radii[i - 1]);
+    ctx.closePath();
+  }
+
+  ctx.fillStyle = ctx.strokeStyle;
+  ctx.fill();
+}
+
+// Draw a shape spanning the rectangle between its start and end points
+function drawShape(ctx: CanvasRenderingContext2D, action: DrawingAction): void {
+  const start = action.points[0];
+  const end = action.points[action.points.length - 1];
+
+  ctx.beginPath();
+
+  switch (action.shape) {
+    case 'rectangle':
+      ctx.rect(
+        Math.min(start.x, end.x),
+        Math.min(start.y, end.y),
+        Math.abs(end.x - start.x),
+        Math.abs(end.y - start.y)
+      );
+      break;
+    case 'ellipse':
+      ctx.ellipse(
+        (start.x + end.x) / 2,
+        (start.y + end.y) / 2,
+        Math.abs(end.x - start.x) / 2,
+        Math.abs(end.y - start.y) / 2,
+        0,
+        0,
+        2 * Math.PI
+      );
+      break;
+    case 'line':
+    case 'arrow':
+      ctx.moveTo(start.x, start.y);
+      ctx.lineTo(end.x, end.y);
+      break;
+  }
+
+  ctx.stroke();
+
+  if (action.shape === 'arrow') {
+    drawArrowHead(ctx, start, end, action.strokeWidth);
+  }
+}
+
+// Draw an open arrow head at `to`, sized relative to the stroke width
+function drawArrowHead(ctx: CanvasRenderingContext2D, from: Point, to: Point, strokeWidth: number): void {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  const length = Math.max(10, strokeWidth * 4);
+
+  ctx.beginPath();
+  ctx.moveTo(
+    to.x - length * Math.cos(angle - ARROW_HEAD_ANGLE),
+    to.y - length * Math.sin(angle - ARROW_HEAD_ANGLE)
+  );
+  ctx.lineTo(to.x, to.y);
+  ctx.lineTo(
+    to.x - length * Math.cos(angle + ARROW_HEAD_ANGLE),
+    to.y - length * Math.sin(angle + ARROW_HEAD_ANGLE)
+  );
+  ctx.stroke();
+}
+
+// Draw one end of a connector in its arrowhead style, pointing from `from` to `to`
+function drawConnectorEnd(
+  ctx: CanvasRenderingContext2D,
+  from: Point,
+  to: Point,
+  style: ArrowheadStyle,
+  strokeWidth: number
+): void {
+  if (style === 'arrow') {
+    drawArrowHead(ctx, from, to, strokeWidth);
+  } else if (style === 'triangle') {
+    const angle = Math.atan2(to.y - from.y, to.x - from.x);
+    const length = Math.max(10, strokeWidth * 4);
+
+    ctx.beginPath();
+    ctx.moveTo(to.x, to.y);
+    ctx.lineTo(
+      to.x - length * Math.cos(angle - ARROW_HEAD_ANGLE),
+      to.y - length * Math.sin(angle - ARROW_HEAD_ANGLE)
+    );
+    ctx.lineTo(
+      to.x - length * Math.cos(angle + ARROW_HEAD_ANGLE),
+      to.y - length * Math.sin(angle + ARROW_HEAD_ANGLE)
+    );
+    ctx.closePath();
+    ctx.fill();
+  } else if (style === 'circle') {
+    ctx.beginPath();
+    ctx.arc(to.x, to.y, Math.max(4, strokeWidth * 2), 0, 2 * Math.PI);
+    ctx.fill();
+  }
+}
+
+// Draw a connector along its route, with its arrowheads and a label halfway along
+function drawConnector(ctx: CanvasRenderingContext2D, action: DrawingAction): void {
+  const points = action.points;
+
+  ctx.globalAlpha = 1;
+  ctx.fillStyle = action.color;
+  ctx.beginPath();
+  ctx.moveTo(points[0].x, points[0].y);
+  points.slice(1).forEach(point => ctx.lineTo(point.x, point.y));
+  ctx.stroke();
+
+  if (points.length > 1) {
+    const last = points.length - 1;
+    drawConnectorEnd(ctx, points[1], points[0], action.startArrowhead || DEFAULT_START_ARROWHEAD, action.strokeWidth);
+    drawConnectorEnd(ctx, points[last - 1], points[last], action.endArrowhead || DEFAULT_END_ARROWHEAD, action.strokeWidth);
+  }
+
+  if (!action.text?.content) return;
+
+  // The label sits on a plain background so the line doesn't run through it
+  const { width, height } = measureTextBlock(action.text);
+  const middle = getRouteMidpoint(points);
+  const origin = { x: middle.x - width / 2, y: middle.y - height / 2 };
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(origin.x - 4, origin.y - 2, width + 8, height + 4);
+  ctx.fillStyle = action.color;
+  drawText(ctx, origin, { ...action.text, align: 'center' });
+}
+
+// Draw multi-line text, aligning each line within the widest line of the box
+function drawText(ctx: CanvasRenderingContext2D, origin: Point, text: TextData): void {
+  const lines = text.content.split('\n');
+  const lineHeight = text.fontSize * LINE_HEIGHT;
+
+  ctx.font = getFont(text.fontSize);
+  ctx.textBaseline = 'top';
+
+  const widths = lines.map(line => ctx.measureText(line).width);
+  const boxWidth = Math.max(0, ...widths);
+  const alignFactor = text.align === 'center' ? 0.5 : text.align === 'right' ? 1 : 0;
+
+  lines.forEach((line, index) => {
+    ctx.fillText(
+      line,
+      origin.x + (boxWidth - widths[index]) * alignFactor,
+      origin.y + index * lineHeight
+    );
+  });
+}
+
+// Break text into lines that fit within maxWidth, keeping explicit line breaks
+export function wrapText(ctx: CanvasRenderingContext2D, content: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of content.split('\n')) {
+    let line = '';
+
+    for (const word of paragraph.split(' ')) {
+      const candidate = line ? `${line} ${word}` : word;
+
+      if (line && ctx.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+// Draw a sticky note with its wrapped text clipped to the note
+function drawSticky(ctx: CanvasRenderingContext2D, action: DrawingAction): void {
+  const { x, y } = action.points[0];
+  const width = action.width || 0;
+  const height = action.height || 0;
+
+  ctx.globalAlpha = 1;
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.15)';
+  ctx.shadowBlur = 6;
+  ctx.shadowOffsetY = 2;
+  ctx.fillStyle = action.fill || '#fef08a';
+  ctx.fillRect(x, y, width, height);
+  ctx.shadowColor = 'transparent';
+
+  if (!action.text) return;
+
+  ctx.beginPath();
+  ctx.rect(x, y, width, height);
+  ctx.clip();
+
+  ctx.font = getFont(action.text.fontSize);
+  ctx.textBaseline = 'top';
+  ctx.fillStyle = action.color;
+
+  const innerWidth = width - STICKY_PADDING * 2;
+  const lineHeight = action.text.fontSize * LINE_HEIGHT;
+  const alignFactor = action.text.align === 'center' ? 0.5 : action.text.align === 'right' ? 1 : 0;
+
+  wrapText(ctx, action.text.content, innerWidth).forEach((line, index) => {
+    const lineWidth = ctx.measureText(line).width;
+    ctx.fillText(
+      line,
+      x + STICKY_PADDING + (innerWidth - lineWidth) * alignFactor,
+      y + STICKY_PADDING + index * lineHeight
+    );
+  });
+}
+
+// Draw a frame's outline with its name just above the top-left corner
+function drawFrame(ctx: CanvasRenderingContext2D, action: DrawingAction): void {
+  const { x, y } = action.points[0];
+
+  ctx.globalAlpha = 1;
+  ctx.strokeRect(x, y, action.width || 0, action.height || 0);
+
+  ctx.font = getFont(FRAME_LABEL_FONT_SIZE);
+  ctx.textBaseline = 'bottom';
+  ctx.fillStyle = action.color;
+  ctx.fillText(action.name || '', x, y - 4);
+}
+
+// Images shared by every canvas, keyed by asset URL, and the listeners told
+// when one finishes loading so canvases can redraw
+const imageCache = new Map<string, HTMLImageElement>();
+const imageLoadListeners = new Set<() => void>();
+
+export function onImageLoad(listener: () => void): () => void {
+  imageLoadListeners.add(listener);
+  return () => {
+    imageLoadListeners.delete(listener);
+  };
+}
+
+// The loaded image for a URL, or null while it is still loading or failed to
+function getImage(src: string): HTMLImageElement | null {
+  if (typeof Image === 'undefined') return null;
+
+  let image = imageCache.get(src);
+  if (!image) {
+    image = new Image();
+    image.onload = () => imageLoadListeners.forEach(listener => listener());
+    image.src = src;
+    imageCache.set(src, image);
+  }
+
+  return image.complete && image.naturalWidth > 0 ? image : null;
+}
+
+// Wait until the images at these URLs have loaded, or failed to, so a one-off
+// render such as an export doesn't capture placeholders
+export function preloadImages(srcs: string[]): Promise<void> {
+  return Promise.all(
+    srcs.map(src => new Promise<void>(resolve => {
+      getImage(src);
+      const image = imageCache.get(src);
+      if (!image || image.complete) {
+        resolve();
+        return;
+      }
+      image.addEventListener('load', () => resolve(), { once: true });
+      image.addEventListener('error', () => resolve(), { once: true });
+    }))
+  ).then(() => undefined);
+}
+
+// Draw an image element, or a grey placeholder until its asset has loaded
+function drawImageElement(ctx: CanvasRenderingContext2D, action: DrawingAction): void {
+  const { x, y } = action.points[0];
+  const width = action.width || 0;
+  const height = action.height || 0;
+  const image = action.src ? getImage(action.src) : null;
+
+  ctx.globalAlpha = 1;
+
+  if (image) {
+    ctx.drawImage(image, x, y, width, height);
+    return;
+  }
+
+  ctx.fillStyle = '#f3f4f6';
+  ctx.fillRect(x, y, width, height);
+  ctx.strokeStyle = '#d1d5db';
+  ctx.lineWidth = 1;
+  ctx.strokeRect(x, y, width, height);
+}
+
+// Opacity of strokes and shapes drawn before the opacity was stored with them
+const LEGACY_OPACITY = 0.8;
+
+// Render a single action onto the context
+export function renderAction(ctx: CanvasRenderingContext2D, action: DrawingAction): void {
+  if (action.points.length === 0) return;
+
+  ctx.save();
+  ctx.strokeStyle = action.color;
+  ctx.lineWidth = action.strokeWidth;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.globalAlpha = action.type === 'erase' ? 1 : action.opacity ?? LEGACY_OPACITY;
+  ctx.globalCompositeOperation =
+    action.type === 'erase' ? 'destination-out' : action.blendMode === 'multiply' ? 'multiply' : 'source-over';
+
+  if (action.rotation) {
+    const center = getElementCenter(action);
+    ctx.translate(center.x, center.y);
+    ctx.rotate(action.rotation);
+    ctx.translate(-center.x, -center.y);
+  }
+
+  if (action.type === 'sticky') {
+    drawSticky(ctx, action);
+  } else if (action.type === 'frame') {
+    drawFrame(ctx, action);
+  } else if (action.type === 'image') {
+    drawImageElement(ctx, action);
+  } else if (action.type === 'connector') {
+    drawConnector(ctx, action);
+  } else if (action.type === 'text') {
+    if (action.text) {
+      ctx.globalAlpha = 1;
+      ctx.fillStyle = action.color;
+      drawText(ctx, action.points[0], action.text);
+    }
+  } else if (action.type === 'shape') {
+    drawShape(ctx, action);
+  } else {
+    // Highlighters keep an even width whatever the pen pressure
+    drawStroke(ctx, action.points, action.tool !== 'highlighter');
+  }
+
+  ctx.restore();
+}
+
+// Fill the canvas with the board background
+export function clearCanvas(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  backgroundColor = '#ffffff'
+): void {
+  ctx.clearRect(0, 0, width, height);
+  ctx.fillStyle = backgroundColor;
+  ctx.fillRect(0, 0, width, height);
+}
+
+const MIN_GRID_SPACING = 8;
+
+// Draw the grid in screen space so dots and lines stay crisp at any zoom.
+// When zoomed far out, every other line is skipped until they are far enough apart
+export function renderGrid(
+  ctx: CanvasRenderingContext2D,
+  settings: WhiteboardSettings,
+  viewport: Viewport,
+  width: number,
+  height: number
+): void {
+  let step = settings.gridSize;
+  while (step * viewport.zoom < MIN_GRID_SPACING) {
+    step *= 2;
+  }
+
+  const spacing = step * viewport.zoom;
+  const startX = (Math.ceil(viewport.x / step) * step - viewport.x) * viewport.zoom;
+  const startY = (Math.ceil(viewport.y / step) * step - viewport.y) * viewport.zoom;
+
+  ctx.save();
+
+  if (settings.gridStyle === 'lines') {
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.08)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (let x = startX; x <= width; x += spacing) {
+      ctx.moveTo(Math.round(x) + 0.5, 0);
+      ctx.lineTo(Math.round(x) + 0.5, height);
+    }
+    for (let y = startY; y <= height; y += spacing) {
+      ctx.moveTo(0, Math.round(y) + 0.5);
+      ctx.lineTo(width, Math.round(y) + 0.5);
+    }
+    ctx.stroke();
+  } else {
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.2)';
+    for (let x = startX; x <= width; x += spacing) {
+      for (let y = startY; y <= height; y += spacing) {
+        ctx.fillRect(Math.round(x) - 1, Math.round(y) - 1, 2, 2);
+      }
+    }
+  }
+
+  ctx.restore();
+}
+
+// Split elements already arranged by layer into consecutive runs per layer
+function getLayerRuns(elements: DrawingAction[]): DrawingAction[][] {
+  const runs: DrawingAction[][] = [];
+  let previousLayerId: string | null = null;
+
+  for (const element of elements) {
+    const layerId = element.layerId || DEFAULT_LAYER_ID;
+    if (layerId !== previousLayerId) {
+      runs.push([]);
+      previousLayerId = layerId;
+    }
+    runs[runs.length - 1].push(element);
+  }
+
+  return runs;
+}
+
+let scratchCanvas: HTMLCanvasElement | null = null;
+
+// A cleared offscreen context the size of the board canvas, or null outside the browser
+function getScratchContext(width: number, height: number): CanvasRenderingContext2D | null {
+  if (typeof document === 'undefined') return null;
+
+  if (!scratchCanvas) {
+    scratchCanvas = document.createElement('canvas');
+  }
+  if (scratchCanvas.width !== width || scratchCanvas.height !== height) {
+    scratchCanvas.width = width;
+    scratchCanvas.height = height;
+  }
+
+  const scratch = scratchCanvas.getContext('2d');
+  if (!scratch) return null;
+
+  scratch.setTransform(1, 0, 0, 1, 0, 0);
+  scratch.clearRect(0, 0, width, height);
+  return scratch;
+}
+
+// Render resolved board elements over a fresh background, seen through the
+// viewport. Without a background, the grid is left out too and the canvas
+// stays transparent behind the elements
+export function renderElements(
+  ctx: CanvasRenderingContext2D,
+  elements: DrawingAction[],
+  width: number,
+  height: number,
+  viewport: Viewport = DEFAULT_VIEWPORT,
+  settings: WhiteboardSettings = DEFAULT_SETTINGS,
+  background = true
+): void {
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, width, height);
+
+  const runs = getLayerRuns(elements);
+
+  for (const run of runs) {
+    // Erase strokes only cut through their own layer, so a layer that erases
+    // is drawn on its own canvas first when there are layers beneath it
+    const scratch = runs.length > 1 && run.some(element => element.type === 'erase')
+      ? getScratchContext(width, height)
+      : null;
+    const target = scratch || ctx;
+
+    target.save();
+    applyViewportTransform(target, viewport);
+
+    for (const element of run) {
+      renderAction(target, element);
+    }
+
+    target.restore();
+
+    if (scratch) {
+      ctx.drawImage(scratch.canvas, 0, 0);
+    }
+  }
+
+  if (!background) return;
+
+  // Erase strokes only clear the elements drawn before them, so the grid and
+  // background are painted in behind afterwards instead of being punched through
+  ctx.save();
+  ctx.globalCompositeOperation = 'destination-over';
+
+  if (settings.gridEnabled) {
+    renderGrid(ctx, settings, viewport, width, height);
+  }
+
+  ctx.fillStyle = settings.backgroundColor;
+  ctx.fillRect(0, 0, width, height);
+  ctx.restore();
+}
+
+// Draw the marquee rectangle or lasso loop being dragged out with the select tool
+export function renderSelectionArea(
+  ctx: CanvasRenderingContext2D,
+  mode: SelectMode,
+  points: Point[],
+  zoom = 1
+): void {
+  if (points.length === 0) return;
+
+  ctx.save();
+  ctx.strokeStyle = '#3b82f6';
+  ctx.fillStyle = 'rgba(59, 130, 246, 0.08)';
+  ctx.lineWidth = 1 / zoom;
+  ctx.setLineDash([4 / zoom, 4 / zoom]);
+  ctx.beginPath();
+
+  if (mode === 'marquee') {
+    const start = points[0];
+    const end = points[points.length - 1];
+    ctx.rect(start.x, start.y, end.x - start.x, end.y - start.y);
+  } else {
+    ctx.moveTo(points[0].x, points[0].y);
+    for (let i = 1; i < points.length; i++) {
+      ctx.lineTo(points[i].x, points[i].y);
+    }
+    ctx.closePath();
+  }
+
+  ctx.fill();
+  ctx.stroke();
+  ctx.restore();
+}
+
+// Outline the selection and draw its scale and rotate handles at a constant screen size
+export function renderSelection(ctx: CanvasRenderingContext2D, frame: SelectionFrame, zoom = 1): void {
+  const handles = getHandlePositions(frame, zoom);
+  const { x, y, width, height } = frame.bounds;
+
+  ctx.save();
+  ctx.translate(frame.center.x, frame.center.y);
+  ctx.rotate(frame.rotation);
+  ctx.translate(-frame.center.x, -frame.center.y);
+
+  ctx.strokeStyle = '#3b82f6';
+  ctx.lineWidth = 1 / zoom;
+  ctx.setLineDash([4 / zoom, 4 / zoom]);
+  ctx.strokeRect(x, y, width, height);
+  ctx.setLineDash([]);
+
+  ctx.beginPath();
+  ctx.moveTo(frame.center.x, y);
+  ctx.lineTo(frame.center.x, y - ROTATE_HANDLE_OFFSET / zoom);
+  ctx.stroke();
+  ctx.restore();
+
+  ctx.save();
+  ctx.fillStyle = '#ffffff';
+  ctx.strokeStyle = '#3b82f6';
+  ctx.lineWidth = 1.5 / zoom;
+
+  const size = 4 / zoom;
+
+  for (const handle of Object.keys(handles) as TransformHandle[]) {
+    const position = handles[handle];
+    ctx.beginPath();
+    if (handle === 'rotate') {
+      ctx.arc(position.x, position.y, 5 / zoom, 0, 2 * Math.PI);
+    } else {
+      ctx.rect(position.x - size, position.y - size, size * 2, size * 2);
+    }
+    ctx.fill();
+    ctx.stroke();
+  }
+
+  ctx.restore();
+}
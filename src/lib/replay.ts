@@ -0,0 +1,72 @@
+import { DrawingAction } from '@/types/whiteboard';
+import { resolveElements, sortActions } from '@/lib/elements';
+import { routeConnectors } from '@/lib/connectors';
+
+export const REPLAY_SPEEDS = [1, 2, 4, 8, 16];
+// Pauses longer than this are shortened to it, so a replay never sits idle
+export const MAX_REPLAY_GAP = 2000;
+
+// Every action in replay order, with the replay time in milliseconds at which it happens
+export interface ReplayTimeline {
+  actions: DrawingAction[];
+  offsets: number[];
+  duration: number;
+}
+
+// Lay the actions out on a time-lapse: they keep their real spacing, except
+// that long breaks between them are cut short
+export function buildReplayTimeline(actions: DrawingAction[], maxGap = MAX_REPLAY_GAP): ReplayTimeline {
+  const sorted = sortActions(actions);
+  const offsets: number[] = [];
+  let offset = 0;
+
+  sorted.forEach((action, i) => {
+    if (i > 0) {
+      offset += Math.min(Math.max(0, action.timestamp - sorted[i - 1].timestamp), maxGap);
+    }
+    offsets.push(offset);
+  });
+
+  return { actions: sorted, offsets, duration: offset };
+}
+
+// How many actions have happened by a replay position
+export function getReplayIndex(timeline: ReplayTimeline, position: number): number {
+  let low = 0;
+  let high = timeline.offsets.length;
+
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (timeline.offsets[mid] <= position) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  return low;
+}
+
+// When the last of the first `count` actions really happened, or null for an empty board
+export function getReplayTime(timeline: ReplayTimeline, count: number): number | null {
+  const action = timeline.actions[Math.max(0, count - 1)];
+  return action ? action.timestamp : null;
+}
+
+// The board after the first `count` actions. Filtered to one collaborator, it
+// shows only the elements they added, wherever others have since moved them
+export function getReplayElements(timeline: ReplayTimeline, count: number, userId?: string): DrawingAction[] {
+  const elements = routeConnectors(resolveElements(timeline.actions.slice(0, count)));
+  return userId ? elements.filter(element => element.userId === userId) : elements;
+}
+
+// Everyone who did something on the board, in the order they first did
+export function getReplayContributors(timeline: ReplayTimeline): string[] {
+  const userIds: string[] = [];
+  for (const action of timeline.actions) {
+    if (action.userId && !userIds.includes(action.userId)) {
+      userIds.push(action.userId);
+    }
+  }
+  return userIds;
+}
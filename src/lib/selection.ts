@@ -0,0 +1,244 @@
+import { Bounds, DrawingAction, ElementChanges, Point } from '@/types/whiteboard';
+import {
+  getBoundsCenter,
+  getElementBounds,
+  getElementCenter,
+  getRotatedBounds,
+  rotateElement,
+  rotatePoint,
+  scaleElement,
+  translateElement,
+  unionBounds,
+} from '@/lib/elements';
+import { generateId } from '@/lib/utils';
+
+export type TransformHandle = 'nw' | 'ne' | 'se' | 'sw' | 'rotate';
+
+export interface SelectionFrame {
+  bounds: Bounds;
+  rotation: number;
+  center: Point;
+}
+
+export const ROTATE_HANDLE_OFFSET = 24;
+const HANDLE_RADIUS = 8;
+const MIN_SELECTION_SIZE = 4;
+
+const OPPOSITE_CORNER: Record<Exclude<TransformHandle, 'rotate'>, Exclude<TransformHandle, 'rotate'>> = {
+  nw: 'se',
+  ne: 'sw',
+  se: 'nw',
+  sw: 'ne',
+};
+
+// A single element keeps its own rotation; several share an axis-aligned frame
+export function getSelectionFrame(elements: DrawingAction[]): SelectionFrame | null {
+  if (elements.length === 0) return null;
+
+  if (elements.length === 1) {
+    const bounds = getElementBounds(elements[0]);
+    return { bounds, rotation: elements[0].rotation || 0, center: getBoundsCenter(bounds) };
+  }
+
+  const bounds = unionBounds(elements.map(getRotatedBounds));
+  return { bounds, rotation: 0, center: getBoundsCenter(bounds) };
+}
+
+function getLocalCorners(bounds: Bounds): Record<Exclude<TransformHandle, 'rotate'>, Point> {
+  return {
+    nw: { x: bounds.x, y: bounds.y },
+    ne: { x: bounds.x + bounds.width, y: bounds.y },
+    se: { x: bounds.x + bounds.width, y: bounds.y + bounds.height },
+    sw: { x: bounds.x, y: bounds.y + bounds.height },
+  };
+}
+
+// Handle positions in board coordinates, following the frame's rotation.
+// The rotate handle keeps the same on-screen distance at any zoom
+export function getHandlePositions(frame: SelectionFrame, zoom = 1): Record<TransformHandle, Point> {
+  const corners = getLocalCorners(frame.bounds);
+  const rotateHandle = { x: frame.center.x, y: frame.bounds.y - ROTATE_HANDLE_OFFSET / zoom };
+
+  return {
+    nw: rotatePoint(corners.nw, frame.center, frame.rotation),
+    ne: rotatePoint(corners.ne, frame.center, frame.rotation),
+    se: rotatePoint(corners.se, frame.center, frame.rotation),
+    sw: rotatePoint(corners.sw, frame.center, frame.rotation),
+    rotate: rotatePoint(rotateHandle, frame.center, frame.rotation),
+  };
+}
+
+export function findHandleAt(frame: SelectionFrame, point: Point, zoom = 1): TransformHandle | null {
+  const handles = getHandlePositions(frame, zoom);
+  const radius = HANDLE_RADIUS / zoom;
+
+  for (const handle of Object.keys(handles) as TransformHandle[]) {
+    const position = handles[handle];
+    if (Math.hypot(point.x - position.x, point.y - position.y) <= radius) {
+      return handle;
+    }
+  }
+
+  return null;
+}
+
+export function isInsideFrame(frame: SelectionFrame, point: Point): boolean {
+  const local = rotatePoint(point, frame.center, -frame.rotation);
+  const { x, y, width, height } = frame.bounds;
+  return local.x >= x && local.x <= x + width && local.y >= y && local.y <= y + height;
+}
+
+export function moveSelection(elements: DrawingAction[], dx: number, dy: number): Record<string, ElementChanges> {
+  const changes: Record<string, ElementChanges> = {};
+  for (const element of elements) {
+    changes[element.id] = translateElement(element, dx, dy);
+  }
+  return changes;
+}
+
+// Scale by dragging a corner handle while the opposite corner stays in place
+export function scaleSelection(
+  elements: DrawingAction[],
+  frame: SelectionFrame,
+  handle: Exclude<TransformHandle, 'rotate'>,
+  pointer: Point
+): Record<string, ElementChanges> {
+  const anchor = getLocalCorners(frame.bounds)[OPPOSITE_CORNER[handle]];
+  const local = rotatePoint(pointer, frame.center, -frame.rotation);
+
+  const width = Math.max(MIN_SELECTION_SIZE, Math.abs(local.x - anchor.x));
+  const height = Math.max(MIN_SELECTION_SIZE, Math.abs(local.y - anchor.y));
+  const next: Bounds = {
+    x: local.x < anchor.x ? anchor.x - width : anchor.x,
+    y: local.y < anchor.y ? anchor.y - height : anchor.y,
+    width,
+    height,
+  };
+
+  // Scaling moves the rotation pivot, so shift everything back under the anchor
+  const anchorBefore = rotatePoint(anchor, frame.center, frame.rotation);
+  const anchorAfter = rotatePoint(anchor, getBoundsCenter(next), frame.rotation);
+  const dx = anchorBefore.x - anchorAfter.x;
+  const dy = anchorBefore.y - anchorAfter.y;
+
+  const changes: Record<string, ElementChanges> = {};
+  for (const element of elements) {
+    const scaled = scaleElement(element, frame.bounds, next);
+    changes[element.id] = {
+      ...scaled,
+      ...translateElement({ ...element, ...scaled }, dx, dy),
+    };
+  }
+  return changes;
+}
+
+export function rotateSelection(
+  elements: DrawingAction[],
+  frame: SelectionFrame,
+  angle: number
+): Record<string, ElementChanges> {
+  const changes: Record<string, ElementChanges> = {};
+  for (const element of elements) {
+    changes[element.id] = rotateElement(element, frame.center, angle);
+  }
+  return changes;
+}
+
+// Points that trace the element on the board: the path of strokes and lines,
+// the rotated corners of everything else
+function getElementOutline(element: DrawingAction): Point[] {
+  const center = getElementCenter(element);
+  const rotation = element.rotation || 0;
+  const points =
+    element.type === 'draw' || element.shape === 'line' || element.shape === 'arrow'
+      ? element.points
+      : Object.values(getLocalCorners(getElementBounds(element)));
+
+  return points.map(point => rotatePoint(point, center, rotation));
+}
+
+// Ray casting: a point is inside when a ray from it crosses the outline an odd number of times
+export function isPointInPolygon(point: Point, polygon: Point[]): boolean {
+  let inside = false;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (a.y > point.y !== b.y > point.y && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+// Elements lying entirely inside a marquee rectangle
+export function findElementsInBounds(elements: DrawingAction[], bounds: Bounds): DrawingAction[] {
+  return elements.filter(
+    element =>
+      element.type !== 'erase' &&
+      element.points.length > 0 &&
+      getElementOutline(element).every(
+        point =>
+          point.x >= bounds.x &&
+          point.x <= bounds.x + bounds.width &&
+          point.y >= bounds.y &&
+          point.y <= bounds.y + bounds.height
+      )
+  );
+}
+
+// Elements lying entirely inside a freeform lasso loop
+export function findElementsInLasso(elements: DrawingAction[], lasso: Point[]): DrawingAction[] {
+  if (lasso.length < 3) return [];
+
+  return elements.filter(
+    element =>
+      element.type !== 'erase' &&
+      element.points.length > 0 &&
+      getElementOutline(element).every(point => isPointInPolygon(point, lasso))
+  );
+}
+
+// Give every element the same color or stroke width, and every connector the
+// same routing. Text and sticky notes have no outline, so only their color changes
+export function restyleSelection(
+  elements: DrawingAction[],
+  style: Pick<ElementChanges, 'color' | 'strokeWidth' | 'routing'>
+): Record<string, ElementChanges> {
+  const changes: Record<string, ElementChanges> = {};
+  for (const element of elements) {
+    const hasOutline = element.type === 'draw' || element.type === 'shape' || element.type === 'connector';
+    const change: ElementChanges = {};
+    if (style.color !== undefined) change.color = style.color;
+    if (style.strokeWidth !== undefined && hasOutline) change.strokeWidth = style.strokeWidth;
+    if (style.routing !== undefined && element.type === 'connector') change.routing = style.routing;
+    if (Object.keys(change).length > 0) {
+      changes[element.id] = change;
+    }
+  }
+  return changes;
+}
+
+// Copies of the elements under new ids, shifted so they do not hide the originals
+export function duplicateSelection(elements: DrawingAction[], dx: number, dy: number): DrawingAction[] {
+  const copyIds = new Map(elements.map(element => [element.id, generateId()]));
+
+  return elements.map(element => {
+    const copy: DrawingAction = {
+      ...element,
+      ...translateElement(element, dx, dy),
+      id: copyIds.get(element.id)!,
+    };
+
+    // Connectors copied along with the elements they join are bound to the copies
+    if (element.startBinding && copyIds.has(element.startBinding)) {
+      copy.startBinding = copyIds.get(element.startBinding);
+    }
+    if (element.endBinding && copyIds.has(element.endBinding)) {
+      copy.endBinding = copyIds.get(element.endBinding);
+    }
+
+    return copy;
+  });
+}
@@ -0,0 +1,62 @@
+import { GridStyle, Point, WhiteboardSettings } from '@/types/whiteboard';
+
+export const DEFAULT_SETTINGS: WhiteboardSettings = {
+  backgroundColor: '#ffffff',
+  gridEnabled: false,
+  gridStyle: 'dots',
+  snapToGrid: false,
+  gridSize: 20,
+};
+
+export const GRID_STYLES: GridStyle[] = ['dots', 'lines'];
+export const MIN_GRID_SIZE = 5;
+export const MAX_GRID_SIZE = 200;
+
+export function getSettings(settings?: Partial<WhiteboardSettings>): WhiteboardSettings {
+  return { ...DEFAULT_SETTINGS, ...settings };
+}
+
+// Settings arrive as partial updates; every field that is present must be valid
+export function validateSettings(settings: any): settings is Partial<WhiteboardSettings> {
+  if (!settings || typeof settings !== 'object' || Array.isArray(settings)) return false;
+
+  if (settings.backgroundColor !== undefined && typeof settings.backgroundColor !== 'string') return false;
+  if (settings.gridEnabled !== undefined && typeof settings.gridEnabled !== 'boolean') return false;
+  if (settings.gridStyle !== undefined && !GRID_STYLES.includes(settings.gridStyle)) return false;
+  if (settings.snapToGrid !== undefined && typeof settings.snapToGrid !== 'boolean') return false;
+  if (settings.gridSize !== undefined && (typeof settings.gridSize !== 'number' || isNaN(settings.gridSize))) {
+    return false;
+  }
+
+  return true;
+}
+
+// Keep only known fields, clamping the grid size
+export function sanitizeSettings(settings: Partial<WhiteboardSettings>): Partial<WhiteboardSettings> {
+  const sanitized: Partial<WhiteboardSettings> = {};
+
+  if (settings.backgroundColor !== undefined) sanitized.backgroundColor = settings.backgroundColor;
+  if (settings.gridEnabled !== undefined) sanitized.gridEnabled = settings.gridEnabled;
+  if (settings.gridStyle !== undefined) sanitized.gridStyle = settings.gridStyle;
+  if (settings.snapToGrid !== undefined) sanitized.snapToGrid = settings.snapToGrid;
+  if (settings.gridSize !== undefined) {
+    sanitized.gridSize = Math.max(MIN_GRID_SIZE, Math.min(MAX_GRID_SIZE, Math.round(settings.gridSize)));
+  }
+
+  return sanitized;
+}
+
+export function snapValue(value: number, gridSize: number): number {
+  return Math.round(value / gridSize) * gridSize;
+}
+
+// Snap a board point to the nearest grid intersection when snapping is on
+export function snapPoint(point: Point, settings: WhiteboardSettings): Point {
+  if (!settings.snapToGrid) return point;
+
+  return {
+    ...point,
+    x: snapValue(point.x, settings.gridSize),
+    y: snapValue(point.y, settings.gridSize),
+  };
+}
@@ -0,0 +1,49 @@
+import { DrawingAction } from '@/types/whiteboard';
+import { sortActions } from '@/lib/elements';
+
+export interface UndoStacks {
+  undo: string[];
+  redo: string[];
+}
+
+export function isUndoAction(action: DrawingAction): boolean {
+  return action.type === 'undo' || action.type === 'redo';
+}
+
+// Rebuild a user's undo and redo stacks from the shared action log, so they
+// only ever contain that user's own actions and survive reconnects
+export function getUndoStacks(actions: DrawingAction[], userId: string): UndoStacks {
+  const undo: string[] = [];
+  let redo: string[] = [];
+
+  for (const action of sortActions(actions)) {
+    if (action.userId !== userId) continue;
+
+    const targetId = action.targetIds?.[0];
+
+    if (action.type === 'undo') {
+      if (!targetId || !undo.includes(targetId)) continue;
+      undo.splice(undo.indexOf(targetId), 1);
+      redo.push(targetId);
+    } else if (action.type === 'redo') {
+      if (!targetId || !redo.includes(targetId)) continue;
+      redo.splice(redo.indexOf(targetId), 1);
+      undo.push(targetId);
+    } else {
+      // A new action starts a fresh branch, so nothing is left to redo
+      undo.push(action.id);
+      redo = [];
+    }
+  }
+
+  return { undo, redo };
+}
+
+// The actions one undo or redo of this action reverses or re-applies: every
+// action of its batch, or just the action itself
+export function getBatchActions(actions: DrawingAction[], targetId: string): DrawingAction[] {
+  const target = actions.find(action => action.id === targetId);
+  if (!target) return [];
+  if (!target.batchId) return [target];
+  return actions.filter(action => action.batchId === target.batchId && !isUndoAction(action));
+}
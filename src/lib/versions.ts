@@ -0,0 +1,162 @@
+import { BoardVersion, DrawingAction, ElementGroup, Page, RestoredPage, VersionSummary, WhiteboardState } from '@/types/whiteboard';
+import { resolveElements } from '@/lib/elements';
+import { resolveGroups } from '@/lib/groups';
+import { getPageActions, getPages } from '@/lib/pages';
+import { generateId } from '@/lib/utils';
+
+// How often a board that is being edited gets an automatic version
+export const AUTO_VERSION_MINUTES = 10;
+// Boards keep at most this many versions; the oldest automatic ones go first
+export const MAX_VERSIONS = 50;
+export const AUTO_VERSION_NAME = 'Automatic version';
+
+const MAX_VERSION_NAME_LENGTH = 100;
+
+export function validateVersionName(name: unknown): name is string {
+  return typeof name === 'string' && name.trim().length > 0;
+}
+
+export function sanitizeVersionName(name: string): string {
+  return name.trim().slice(0, MAX_VERSION_NAME_LENGTH);
+}
+
+// Suggested name for the next version someone saves
+export function getNextVersionName(versions: VersionSummary[]): string {
+  return `Version ${versions.filter(version => !version.automatic).length + 1}`;
+}
+
+// Copy the board's pages and full action log into a new version
+export function createVersion(
+  state: WhiteboardState,
+  name: string,
+  userId: string,
+  automatic = false,
+  now = Date.now()
+): BoardVersion {
+  return {
+    id: generateId(),
+    name: sanitizeVersionName(name),
+    createdAt: now,
+    createdBy: userId,
+    automatic,
+    actions: [...state.actions],
+    pages: getPages(state.pages).map(page => ({ ...page })),
+  };
+}
+
+export function summarizeVersion(version: BoardVersion): VersionSummary {
+  return {
+    id: version.id,
+    name: version.name,
+    createdAt: version.createdAt,
+    createdBy: version.createdBy,
+    automatic: version.automatic,
+  };
+}
+
+// Add a version, dropping the oldest automatic one (or the oldest of all when
+// every version was saved by someone) once there are too many
+export function addVersion(versions: BoardVersion[], version: BoardVersion, max = MAX_VERSIONS): BoardVersion[] {
+  const next = [...versions, version];
+  while (next.length > max) {
+    const index = next.findIndex(existing => existing.automatic);
+    next.splice(Math.max(0, index), 1);
+  }
+  return next;
+}
+
+// A board is due an automatic version once it has changed since its last
+// version and that version, or its first action, is an interval old
+export function isAutoVersionDue(
+  state: WhiteboardState,
+  versions: BoardVersion[],
+  now: number,
+  interval = AUTO_VERSION_MINUTES * 60 * 1000
+): boolean {
+  if (state.actions.length === 0) return false;
+
+  const last = versions[versions.length - 1];
+  if (last && state.lastModified <= last.createdAt) return false;
+
+  const since = last
+    ? last.createdAt
+    : state.actions.reduce((earliest, action) => Math.min(earliest, action.timestamp), Infinity);
+  return now - since >= interval;
+}
+
+// The elements of one page as it was when the version was saved
+export function getVersionElements(version: BoardVersion, pageId: string): DrawingAction[] {
+  return resolveElements(getPageActions(version.actions, pageId));
+}
+
+// The groups of one page as they were when the version was saved
+export function getVersionGroups(version: BoardVersion, pageId: string): ElementGroup[] {
+  const actions = getPageActions(version.actions, pageId);
+  return resolveGroups(actions, resolveElements(actions));
+}
+
+// Pages saved in the version that have since been deleted from the board
+export function getMissingPages(version: BoardVersion, pages: Page[]): Page[] {
+  return version.pages.filter(page => !pages.some(existing => existing.id === page.id));
+}
+
+function createRestoreAction(
+  name: string,
+  pageId: string,
+  content: Omit<RestoredPage, 'page'>,
+  batchId: string,
+  userId: string,
+  timestamp: number
+): DrawingAction {
+  return {
+    id: generateId(),
+    type: 'restore',
+    points: [],
+    color: '',
+    strokeWidth: 0,
+    elements: content.elements,
+    groups: content.groups,
+    name,
+    pageId,
+    batchId,
+    timestamp,
+    userId,
+  };
+}
+
+// One restore action per page, replacing its elements and groups with those
+// in the version. Pages added since the version was saved are emptied. They
+// are ordinary actions, so restoring syncs to everyone, and they share a batch
+// so one undo takes the whole restore back. The first also keeps the pages
+// deleted since, which the restore brings back
+export function getRestoreActions(
+  version: BoardVersion,
+  pages: Page[],
+  userId: string,
+  timestamp: number
+): DrawingAction[] {
+  const batchId = generateId();
+  const missing = getMissingPages(version, pages);
+  const getContent = (pageId: string) => ({
+    elements: getVersionElements(version, pageId),
+    groups: getVersionGroups(version, pageId),
+  });
+
+  const actions = [...pages, ...missing].map(page =>
+    createRestoreAction(version.name, page.id, getContent(page.id), batchId, userId, timestamp)
+  );
+  if (missing.length > 0) {
+    actions[0].restoredPages = missing.map(page => ({ page, ...getContent(page.id) }));
+  }
+  return actions;
+}
+
+// The restore action for a page that undo removed and redo brings back
+export function getRestoredPageAction(
+  restored: RestoredPage,
+  batch: DrawingAction,
+  userId: string,
+  timestamp: number
+): DrawingAction {
+  return createRestoreAction(batch.name || '', restored.page.id, restored, batch.batchId || batch.id, userId, timestamp);
+}
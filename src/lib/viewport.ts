@@ -0,0 +1,87 @@
+import { Bounds, Point, Viewport } from '@/types/whiteboard';
+
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 8;
+export const DEFAULT_VIEWPORT: Viewport = { x: 0, y: 0, zoom: 1 };
+
+export function clampZoom(zoom: number): number {
+  return Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+}
+
+export function screenToWorld(point: Point, viewport: Viewport): Point {
+  return {
+    ...point,
+    x: viewport.x + point.x / viewport.zoom,
+    y: viewport.y + point.y / viewport.zoom,
+  };
+}
+
+export function worldToScreen(point: Point, viewport: Viewport): Point {
+  return {
+    ...point,
+    x: (point.x - viewport.x) * viewport.zoom,
+    y: (point.y - viewport.y) * viewport.zoom,
+  };
+}
+
+// Move the view by a distance in screen pixels
+export function panViewport(viewport: Viewport, dx: number, dy: number): Viewport {
+  return {
+    ...viewport,
+    x: viewport.x - dx / viewport.zoom,
+    y: viewport.y - dy / viewport.zoom,
+  };
+}
+
+// Zoom by a factor while keeping the world point under `anchor` in place
+export function zoomViewport(viewport: Viewport, factor: number, anchor: Point): Viewport {
+  const zoom = clampZoom(viewport.zoom * factor);
+  const world = screenToWorld(anchor, viewport);
+
+  return {
+    x: world.x - anchor.x / zoom,
+    y: world.y - anchor.y / zoom,
+    zoom,
+  };
+}
+
+// The world-space rectangle visible in a screen of the given size
+export function getVisibleBounds(viewport: Viewport, width: number, height: number): Bounds {
+  return {
+    x: viewport.x,
+    y: viewport.y,
+    width: width / viewport.zoom,
+    height: height / viewport.zoom,
+  };
+}
+
+// A viewport that shows all of `bounds` centred on screen, never zooming past 100%
+export function fitViewport(
+  bounds: Bounds,
+  width: number,
+  height: number,
+  padding = 40,
+  minZoom = MIN_ZOOM
+): Viewport {
+  if (bounds.width === 0 && bounds.height === 0) {
+    return { x: bounds.x - width / 2, y: bounds.y - height / 2, zoom: 1 };
+  }
+
+  const availableWidth = Math.max(1, width - padding * 2);
+  const availableHeight = Math.max(1, height - padding * 2);
+  const zoom = Math.max(
+    minZoom,
+    Math.min(1, availableWidth / Math.max(bounds.width, 1), availableHeight / Math.max(bounds.height, 1))
+  );
+
+  return {
+    x: bounds.x + bounds.width / 2 - width / 2 / zoom,
+    y: bounds.y + bounds.height / 2 - height / 2 / zoom,
+    zoom,
+  };
+}
+
+// Draw subsequent paths in world coordinates
+export function applyViewportTransform(ctx: CanvasRenderingContext2D, viewport: Viewport): void {
+  ctx.setTransform(viewport.zoom, 0, 0, viewport.zoom, -viewport.x * viewport.zoom, -viewport.y * viewport.zoom);
+}
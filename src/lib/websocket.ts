@@ -1,5 +1,5 @@
 import { io, Socket } from 'socket.io-client';
-import { WhiteboardEvent, DrawingAction, Collaborator } from '@/types/whiteboard';
+import { WhiteboardEvent, DrawingAction, Collaborator, Bounds, BoardVersion, Layer, Page, PageChange, VersionSummary, WhiteboardSettings } from '@/types/whiteboard';
 
 class WebSocketManager {
   private socket: Socket | null = null;
@@ -93,6 +93,30 @@ class WebSocketManager {
     this.socket?.on('cursor_move', callback);
   }
 
+  onViewportMove(callback: (data: { userId: string; viewport: Bounds }) => void): void {
+    this.socket?.on('viewport_move', callback);
+  }
+
+  onSettingsUpdate(callback: (settings: WhiteboardSettings) => void): void {
+    this.socket?.on('settings_update', callback);
+  }
+
+  onLayersUpdate(callback: (layers: Layer[]) => void): void {
+    this.socket?.on('layers_update', callback);
+  }
+
+  onPagesUpdate(callback: (pages: Page[]) => void): void {
+    this.socket?.on('pages_update', callback);
+  }
+
+  onVersionsUpdate(callback: (versions: VersionSummary[]) => void): void {
+    this.socket?.on('versions_update', callback);
+  }
+
+  onVersionData(callback: (version: BoardVersion) => void): void {
+    this.socket?.on('version_data', callback);
+  }
+
   onUserJoin(callback: (user: Collaborator) => void): void {
     this.socket?.on('user_join', callback);
   }
@@ -118,6 +142,30 @@ class WebSocketManager {
     this.socket?.emit('cursor_move', cursor);
   }
 
+  emitViewportMove(viewport: Bounds): void {
+    this.socket?.emit('viewport_move', viewport);
+  }
+
+  emitSettingsUpdate(settings: Partial<WhiteboardSettings>): void {
+    this.socket?.emit('settings_update', settings);
+  }
+
+  emitLayerUpdate(layer: Layer): void {
+    this.socket?.emit('layers_update', layer);
+  }
+
+  emitPageChange(change: PageChange): void {
+    this.socket?.emit('pages_update', change);
+  }
+
+  emitVersionSave(name: string): void {
+    this.socket?.emit('version_save', name);
+  }
+
+  emitVersionRequest(versionId: string): void {
+    this.socket?.emit('version_request', versionId);
+  }
+
   emitJoin(whiteboardId: string, user: Collaborator): void {
     this.socket?.emit('join', { whiteboardId, user });
   }
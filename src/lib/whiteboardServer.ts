@@ -0,0 +1,336 @@
+import { Server as SocketIOServer } from 'socket.io';
+import { BoardVersion, Bounds, DrawingAction, Collaborator, Layer, PageChange, WhiteboardSettings, WhiteboardState } from '@/types/whiteboard';
+import { sanitizeAction, validateAction } from '@/lib/collaboration';
+import { DEFAULT_SETTINGS, getSettings, sanitizeSettings, validateSettings } from '@/lib/settings';
+import { DEFAULT_LAYER, mergeLayer, sanitizeLayer, validateLayer } from '@/lib/layers';
+import { DEFAULT_PAGE, applyPageChange, getActionPageId, getActionsOnPages, getPages, validatePageChange } from '@/lib/pages';
+import {
+  AUTO_VERSION_MINUTES,
+  AUTO_VERSION_NAME,
+  addVersion,
+  createVersion,
+  isAutoVersionDue,
+  summarizeVersion,
+  validateVersionName,
+} from '@/lib/versions';
+
+// In-memory storage for demo purposes
+// In production, you'd use Redis or a database
+const whiteboardStates = new Map<string, WhiteboardState>();
+const activeUsers = new Map<string, Map<string, Collaborator>>();
+const whiteboardVersions = new Map<string, BoardVersion[]>();
+
+// How often boards are checked for a due automatic version
+const AUTO_VERSION_CHECK_INTERVAL = 60 * 1000;
+const AUTO_VERSION_INTERVAL = (Number(process.env.AUTO_VERSION_MINUTES) || AUTO_VERSION_MINUTES) * 60 * 1000;
+
+// Handle the board events of every client of a Socket.IO server. The Next.js
+// socket route and the standalone server (server.js) both run this, so the
+// two always apply the same rules
+export function attachWhiteboardServer(io: SocketIOServer): void {
+  // Versions belong to the board, so everyone in the room gets the new list
+  const saveVersion = (whiteboardId: string, name: string, userId: string, automatic: boolean) => {
+    const whiteboard = whiteboardStates.get(whiteboardId);
+    if (!whiteboard) return;
+
+    const versions = addVersion(
+      whiteboardVersions.get(whiteboardId) || [],
+      createVersion(whiteboard, name, userId, automatic)
+    );
+    whiteboardVersions.set(whiteboardId, versions);
+
+    io.to(whiteboardId).emit('versions_update', versions.map(summarizeVersion));
+  };
+
+  setInterval(() => {
+    const now = Date.now();
+    for (const [whiteboardId, whiteboard] of Array.from(whiteboardStates.entries())) {
+      if (isAutoVersionDue(whiteboard, whiteboardVersions.get(whiteboardId) || [], now, AUTO_VERSION_INTERVAL)) {
+        saveVersion(whiteboardId, AUTO_VERSION_NAME, 'server', true);
+      }
+    }
+  }, AUTO_VERSION_CHECK_INTERVAL);
+
+  io.on('connection', (socket) => {
+    console.log('New client connected:', socket.id);
+
+    socket.on('join', async ({ whiteboardId, user }: { whiteboardId: string; user: Collaborator }) => {
+      try {
+        // Join the room
+        socket.join(whiteboardId);
+        
+        // Initialize whiteboard state if it doesn't exist
+        if (!whiteboardStates.has(whiteboardId)) {
+          whiteboardStates.set(whiteboardId, {
+            id: whiteboardId,
+            name: `Whiteboard ${whiteboardId}`,
+            actions: [],
+            lastModified: Date.now(),
+            createdBy: user.id,
+            collaborators: [],
+            settings: { ...DEFAULT_SETTINGS },
+            layers: [{ ...DEFAULT_LAYER }],
+            pages: [{ ...DEFAULT_PAGE }],
+          });
+        }
+
+        // Add user to active users
+        if (!activeUsers.has(whiteboardId)) {
+          activeUsers.set(whiteboardId, new Map());
+        }
+        
+        const roomUsers = activeUsers.get(whiteboardId)!;
+        roomUsers.set(user.id, { ...user, isActive: true, lastSeen: Date.now() });
+
+        // Update whiteboard collaborators
+        const whiteboard = whiteboardStates.get(whiteboardId)!;
+        whiteboard.collaborators = Array.from(roomUsers.values());
+
+        // Notify others in the room
+        socket.to(whiteboardId).emit('user_join', user);
+        
+        // Send current state to the new user
+        socket.emit('state_sync', whiteboard);
+        
+        // Send current active users
+        socket.emit('active_users', Array.from(roomUsers.values()));
+
+        // Send the saved versions; their actions are only sent when one is previewed
+        socket.emit('versions_update', (whiteboardVersions.get(whiteboardId) || []).map(summarizeVersion));
+
+        console.log(`User ${user.name} joined whiteboard ${whiteboardId}`);
+      } catch (error) {
+        console.error('Error joining whiteboard:', error);
+        socket.emit('error', 'Failed to join whiteboard');
+      }
+    });
+
+    socket.on('action', (action: DrawingAction) => {
+      try {
+        const { whiteboardId } = socket.handshake.auth;
+        if (!whiteboardId) {
+          socket.emit('error', 'No whiteboard ID provided');
+          return;
+        }
+
+        const whiteboard = whiteboardStates.get(whiteboardId);
+        if (!whiteboard) {
+          socket.emit('error', 'Whiteboard not found');
+          return;
+        }
+
+        // The same rules as actions posted to the REST API. Updates, deletes,
+        // undos, redos and groups are kept even if a target is already gone so
+        // every client replays the same log. Images are uploaded as assets first;
+        // only their URL travels with the action
+        if (!validateAction(action)) {
+          socket.emit('error', 'Invalid action');
+          return;
+        }
+
+        // A page deleted while the action was in flight takes it along
+        if (!getPages(whiteboard.pages).some(page => page.id === getActionPageId(action))) {
+          socket.emit('error', 'Page not found');
+          return;
+        }
+
+        // Store and broadcast only the fields the action type carries, clamped
+        const sanitized = sanitizeAction(action);
+        whiteboard.actions.push(sanitized);
+        whiteboard.lastModified = Date.now();
+
+        // Broadcast to other users in the room
+        socket.to(whiteboardId).emit('action', sanitized);
+
+        console.log(`Action received from ${action.userId} in whiteboard ${whiteboardId}`);
+      } catch (error) {
+        console.error('Error processing action:', error);
+        socket.emit('error', 'Failed to process action');
+      }
+    });
+
+    socket.on('settings_update', (settings: Partial<WhiteboardSettings>) => {
+      try {
+        const { whiteboardId } = socket.handshake.auth;
+        const whiteboard = whiteboardStates.get(whiteboardId);
+        if (!whiteboard) return;
+
+        if (!validateSettings(settings)) {
+          socket.emit('error', 'Invalid whiteboard settings');
+          return;
+        }
+
+        // Settings belong to the board, so everyone (sender included) gets the merged result
+        whiteboard.settings = getSettings({ ...whiteboard.settings, ...sanitizeSettings(settings) });
+        whiteboard.lastModified = Date.now();
+
+        io.to(whiteboardId).emit('settings_update', whiteboard.settings);
+      } catch (error) {
+        console.error('Error processing settings update:', error);
+      }
+    });
+
+    socket.on('layers_update', (layer: Layer) => {
+      try {
+        const { whiteboardId } = socket.handshake.auth;
+        const whiteboard = whiteboardStates.get(whiteboardId);
+        if (!whiteboard) return;
+
+        if (!validateLayer(layer)) {
+          socket.emit('error', 'Invalid layer');
+          return;
+        }
+
+        // Layers belong to the board, so everyone (sender included) gets the full list
+        whiteboard.layers = mergeLayer(whiteboard.layers, sanitizeLayer(layer));
+        whiteboard.lastModified = Date.now();
+
+        io.to(whiteboardId).emit('layers_update', whiteboard.layers);
+      } catch (error) {
+        console.error('Error processing layer update:', error);
+      }
+    });
+
+    socket.on('pages_update', (change: PageChange) => {
+      try {
+        const { whiteboardId } = socket.handshake.auth;
+        const whiteboard = whiteboardStates.get(whiteboardId);
+        if (!whiteboard) return;
+
+        if (!validatePageChange(change)) {
+          socket.emit('error', 'Invalid page change');
+          return;
+        }
+
+        // A deleted page takes its action stream with it
+        const pages = applyPageChange(whiteboard.pages, change);
+        whiteboard.pages = pages;
+        whiteboard.actions = getActionsOnPages(whiteboard.actions, pages);
+        whiteboard.lastModified = Date.now();
+
+        io.to(whiteboardId).emit('pages_update', whiteboard.pages);
+      } catch (error) {
+        console.error('Error processing page change:', error);
+      }
+    });
+
+    socket.on('version_save', (name: string) => {
+      try {
+        const { whiteboardId, userId } = socket.handshake.auth;
+        if (!whiteboardStates.has(whiteboardId)) return;
+
+        if (!validateVersionName(name)) {
+          socket.emit('error', 'Versions need a name');
+          return;
+        }
+
+        saveVersion(whiteboardId, name, userId, false);
+      } catch (error) {
+        console.error('Error saving version:', error);
+      }
+    });
+
+    socket.on('version_request', (versionId: string) => {
+      try {
+        const { whiteboardId } = socket.handshake.auth;
+        const version = (whiteboardVersions.get(whiteboardId) || []).find(existing => existing.id === versionId);
+
+        if (!version) {
+          socket.emit('error', 'Version not found');
+          return;
+        }
+
+        socket.emit('version_data', version);
+      } catch (error) {
+        console.error('Error fetching version:', error);
+      }
+    });
+
+    socket.on('cursor_move', (cursor: { x: number; y: number }) => {
+      try {
+        const { whiteboardId, userId } = socket.handshake.auth;
+        if (!whiteboardId || !userId) return;
+
+        // Update user's cursor position
+        const roomUsers = activeUsers.get(whiteboardId);
+        if (roomUsers && roomUsers.has(userId)) {
+          const user = roomUsers.get(userId)!;
+          user.cursor = cursor;
+          user.lastSeen = Date.now();
+        }
+
+        // Broadcast cursor movement to other users
+        socket.to(whiteboardId).emit('cursor_move', { userId, cursor });
+      } catch (error) {
+        console.error('Error processing cursor movement:', error);
+      }
+    });
+
+    socket.on('viewport_move', (viewport: Bounds) => {
+      try {
+        const { whiteboardId, userId } = socket.handshake.auth;
+        if (!whiteboardId || !userId) return;
+
+        // Remember which part of the board the user is looking at
+        const roomUsers = activeUsers.get(whiteboardId);
+        if (roomUsers && roomUsers.has(userId)) {
+          const user = roomUsers.get(userId)!;
+          user.viewport = viewport;
+          user.lastSeen = Date.now();
+        }
+
+        socket.to(whiteboardId).emit('viewport_move', { userId, viewport });
+      } catch (error) {
+        console.error('Error processing viewport movement:', error);
+      }
+    });
+
+    socket.on('leave', ({ whiteboardId }: { whiteboardId: string }) => {
+      try {
+        const { userId } = socket.handshake.auth;
+        if (!userId) return;
+
+        // Remove user from active users
+        const roomUsers = activeUsers.get(whiteboardId);
+        if (roomUsers && roomUsers.has(userId)) {
+          roomUsers.delete(userId);
+          
+          // Update whiteboard collaborators
+          const whiteboard = whiteboardStates.get(whiteboardId);
+          if (whiteboard) {
+            whiteboard.collaborators = Array.from(roomUsers.values());
+          }
+
+          // Notify others in the room
+          socket.to(whiteboardId).emit('user_leave', userId);
+        }
+
+        socket.leave(whiteboardId);
+        console.log(`User ${userId} left whiteboard ${whiteboardId}`);
+      } catch (error) {
+        console.error('Error leaving whiteboard:', error);
+      }
+    });
+
+    socket.on('disconnect', () => {
+      console.log('Client disconnected:', socket.id);
+      
+      // Clean up user from all rooms
+      const { userId } = socket.handshake.auth;
+      if (userId) {
+  for (const [whiteboardId, roomUsers] of Array.from(activeUsers.entries())) {
+          if (roomUsers.has(userId)) {
+            roomUsers.delete(userId);
+            
+            const whiteboard = whiteboardStates.get(whiteboardId);
+            if (whiteboard) {
+              whiteboard.collaborators = Array.from(roomUsers.values());
+            }
+
+            socket.to(whiteboardId).emit('user_leave', userId);
+          }
+        }
+      }
+    });
+  });
+}
@@ -0,0 +1,133 @@
+import { DrawingAction, ElementChanges } from '@/types/whiteboard';
+
+// Order keys are fractions written in base 36 and compared as plain strings,
+// so a key can always be found between two others without renumbering anything
+const DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+const TIMESTAMP_KEY_LENGTH = 9;
+
+export type ReorderCommand = 'front' | 'forward' | 'backward' | 'back';
+
+// Elements that were never reordered stack by creation time. The trailing
+// digit keeps the key from ending in zero, which would leave no room below it
+export function getTimestampKey(timestamp: number): string {
+  return Math.max(0, Math.floor(timestamp)).toString(36).padStart(TIMESTAMP_KEY_LENGTH, '0') + 'i';
+}
+
+export function getOrderKey(element: DrawingAction): string {
+  return element.order ?? getTimestampKey(element.timestamp);
+}
+
+export function isValidOrderKey(key: unknown): key is string {
+  return typeof key === 'string' && /^[0-9a-z]*[1-9a-z]$/.test(key);
+}
+
+// A key strictly between two keys; null means the very bottom or top
+export function keyBetween(below: string | null, above: string | null): string {
+  const a = below ?? '';
+
+  if (above !== null) {
+    let shared = 0;
+    while ((a[shared] || '0') === above[shared]) shared++;
+    if (shared > 0) {
+      return above.slice(0, shared) + keyBetween(a.slice(shared), above.slice(shared));
+    }
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = above !== null ? DIGITS.indexOf(above[0]) : DIGITS.length;
+
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)];
+  }
+
+  if (above !== null && above.length > 1) {
+    return above.slice(0, 1);
+  }
+
+  return DIGITS[digitA] + keyBetween(a.slice(1), null);
+}
+
+// Stack elements bottom to top. Ties keep their replay order, which every client shares
+export function sortByOrder(elements: DrawingAction[]): DrawingAction[] {
+  return elements
+    .map((element, index) => ({ element, index, key: getOrderKey(element) }))
+    .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : a.index - b.index))
+    .map(({ element }) => element);
+}
+
+function getReorderedIds(ids: string[], selected: Set<string>, command: ReorderCommand): string[] {
+  const result = [...ids];
+
+  if (command === 'front') {
+    return [...result.filter(id => !selected.has(id)), ...result.filter(id => selected.has(id))];
+  }
+
+  if (command === 'back') {
+    return [...result.filter(id => selected.has(id)), ...result.filter(id => !selected.has(id))];
+  }
+
+  // Each selected element steps past its nearest unselected neighbour
+  if (command === 'forward') {
+    for (let i = result.length - 2; i >= 0; i--) {
+      if (selected.has(result[i]) && !selected.has(result[i + 1])) {
+        [result[i], result[i + 1]] = [result[i + 1], result[i]];
+      }
+    }
+  } else {
+    for (let i = 1; i < result.length; i++) {
+      if (selected.has(result[i]) && !selected.has(result[i - 1])) {
+        [result[i - 1], result[i]] = [result[i], result[i - 1]];
+      }
+    }
+  }
+
+  return result;
+}
+
+// New order keys for the selected elements only. Everyone else keeps their
+// key, so reorders from several users replay to the same stack
+export function reorderElements(
+  elements: DrawingAction[],
+  ids: string[],
+  command: ReorderCommand,
+  now = Date.now()
+): Record<string, ElementChanges> {
+  const sorted = sortByOrder(elements);
+  const selected = new Set(ids.filter(id => sorted.some(element => element.id === id)));
+  if (selected.size === 0) return {};
+
+  const before = sorted.map(element => element.id);
+  const after = getReorderedIds(before, selected, command);
+  if (after.every((id, index) => id === before[index])) return {};
+
+  const byId = new Map(sorted.map(element => [element.id, element]));
+  const changes: Record<string, ElementChanges> = {};
+  let previous: string | null = null;
+
+  after.forEach((id, index) => {
+    if (!selected.has(id)) {
+      previous = getOrderKey(byId.get(id)!);
+      return;
+    }
+
+    const nextFixed = after.slice(index + 1).find(nextId => !selected.has(nextId));
+    let next: string | null = nextFixed ? getOrderKey(byId.get(nextFixed)!) : null;
+
+    // On top of everything, stay below elements that have not been drawn yet
+    if (next === null) {
+      const ceiling = getTimestampKey(now + 1);
+      next = previous === null || previous < ceiling ? ceiling : null;
+    }
+
+    // Neighbours with the same key leave no room between them
+    if (previous !== null && next !== null && previous >= next) {
+      next = null;
+    }
+
+    const key = keyBetween(previous, next);
+    changes[id] = { order: key };
+    previous = key;
+  });
+
+  return changes;
+}
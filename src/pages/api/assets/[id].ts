@@ -0,0 +1,81 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { MAX_ASSET_SIZE, getAssetUrl, isValidAssetId, parseImageDataUrl } from '@/lib/assets';
+
+interface StoredAsset {
+  mimeType: string;
+  data: Buffer;
+  createdAt: number;
+}
+
+// In-memory storage for demo purposes
+const assetStorage = new Map<string, StoredAsset>();
+
+// Uploads arrive as base64 data URLs, which are about a third larger than the image
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '8mb',
+    },
+  },
+};
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { id } = req.query;
+
+  if (!isValidAssetId(id)) {
+    return res.status(400).json({ error: 'Valid asset ID is required' });
+  }
+
+  switch (req.method) {
+    case 'GET':
+      return handleGetAsset(req, res, id);
+    case 'PUT':
+      return handlePutAsset(req, res, id);
+    default:
+      res.setHeader('Allow', ['GET', 'PUT']);
+      return res.status(405).json({ error: `Method ${req.method} not allowed` });
+  }
+}
+
+async function handleGetAsset(req: NextApiRequest, res: NextApiResponse, id: string) {
+  try {
+    const asset = assetStorage.get(id);
+
+    if (!asset) {
+      return res.status(404).json({ error: 'Asset not found' });
+    }
+
+    // Assets never change once stored, so browsers may keep them indefinitely
+    res.setHeader('Content-Type', asset.mimeType);
+    res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
+    return res.status(200).send(asset.data);
+  } catch (error) {
+    console.error('Error fetching asset:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+async function handlePutAsset(req: NextApiRequest, res: NextApiResponse, id: string) {
+  try {
+    if (assetStorage.has(id)) {
+      return res.status(409).json({ error: 'Asset already exists' });
+    }
+
+    const parsed = parseImageDataUrl(req.body?.data);
+
+    if (!parsed) {
+      return res.status(400).json({ error: 'Assets must be PNG, JPEG, GIF or WebP data URLs' });
+    }
+
+    if (parsed.data.length === 0 || parsed.data.length > MAX_ASSET_SIZE) {
+      return res.status(413).json({ error: 'Asset is empty or too large' });
+    }
+
+    assetStorage.set(id, { ...parsed, createdAt: Date.now() });
+
+    return res.status(201).json({ id, url: getAssetUrl(id) });
+  } catch (error) {
+    console.error('Error storing asset:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -1,5 +1,8 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { WhiteboardState } from '@/types/whiteboard';
+import { getSettings, sanitizeSettings, validateSettings } from '@/lib/settings';
+import { sanitizeLayer, validateLayer } from '@/lib/layers';
+import { sanitizePage, validatePage } from '@/lib/pages';
 
 // In-memory storage for demo purposes
 // In production, you'd use a database like PostgreSQL, MongoDB, or Redis
@@ -54,6 +57,24 @@ async function handleUpdateWhiteboard(req: NextApiRequest, res: NextApiResponse,
       return res.status(404).json({ error: 'Whiteboard not found' });
     }
 
+    if (updates.settings !== undefined && !validateSettings(updates.settings)) {
+      return res.status(400).json({ error: 'Invalid whiteboard settings' });
+    }
+
+    if (
+      updates.layers !== undefined &&
+      (!Array.isArray(updates.layers) || updates.layers.length === 0 || !updates.layers.every(validateLayer))
+    ) {
+      return res.status(400).json({ error: 'Invalid whiteboard layers' });
+    }
+
+    if (
+      updates.pages !== undefined &&
+      (!Array.isArray(updates.pages) || updates.pages.length === 0 || !updates.pages.every(validatePage))
+    ) {
+      return res.status(400).json({ error: 'Invalid whiteboard pages' });
+    }
+
     // Validate the updates
     const updatedWhiteboard: WhiteboardState = {
       ...existingWhiteboard,
@@ -62,6 +83,24 @@ async function handleUpdateWhiteboard(req: NextApiRequest, res: NextApiResponse,
       lastModified: Date.now(),
     };
 
+    // Settings may be updated partially, so merge them over the existing ones
+    if (updates.settings !== undefined) {
+      updatedWhiteboard.settings = getSettings({
+        ...existingWhiteboard.settings,
+        ...sanitizeSettings(updates.settings),
+      });
+    }
+
+    // Layers are replaced as a whole list, bottom to top
+    if (updates.layers !== undefined) {
+      updatedWhiteboard.layers = updates.layers.map(sanitizeLayer);
+    }
+
+    // Pages are replaced as a whole list, in tab order
+    if (updates.pages !== undefined) {
+      updatedWhiteboard.pages = updates.pages.map(sanitizePage);
+    }
+
     // Validate required fields
     if (!updatedWhiteboard.name || !updatedWhiteboard.actions || !updatedWhiteboard.createdBy) {
       return res.status(400).json({ error: 'Missing required fields' });
@@ -1,5 +1,7 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { DrawingAction, WhiteboardState } from '@/types/whiteboard';
+import { sanitizeAction, validateAction } from '@/lib/collaboration';
+import { getActionPageId, getPageActions, getPages } from '@/lib/pages';
 
 // In-memory storage for demo purposes
 const whiteboardStorage = new Map<string, WhiteboardState>();
@@ -32,9 +34,10 @@ async function handleGetActions(req: NextApiRequest, res: NextApiResponse, id: s
       return res.status(404).json({ error: 'Whiteboard not found' });
     }
 
-    const { limit, offset, since } = req.query;
+    const { limit, offset, since, pageId } = req.query;
     
-    let actions = whiteboard.actions;
+    // Each page has its own action stream
+    let actions = typeof pageId === 'string' ? getPageActions(whiteboard.actions, pageId) : whiteboard.actions;
     
     // Filter actions since a specific timestamp
     if (since && typeof since === 'string') {
@@ -56,7 +59,7 @@ async function handleGetActions(req: NextApiRequest, res: NextApiResponse, id: s
 
     return res.status(200).json({
       actions,
-      total: whiteboard.actions.length,
+      total: typeof pageId === 'string' ? getPageActions(whiteboard.actions, pageId).length : whiteboard.actions.length,
       lastModified: whiteboard.lastModified,
     });
   } catch (error) {
@@ -78,9 +81,9 @@ async function handleAddAction(req: NextApiRequest, res: NextApiResponse, id: st
       return res.status(400).json({ error: 'Missing required action fields' });
     }
 
-    // Validate action type
-    if (!['draw', 'erase', 'clear'].includes(action.type)) {
-      return res.status(400).json({ error: 'Invalid action type' });
+    // The same rules as actions sent over the socket
+    if (!validateAction(action)) {
+      return res.status(400).json({ error: 'Invalid action' });
     }
 
     const whiteboard = whiteboardStorage.get(id);
@@ -89,12 +92,17 @@ async function handleAddAction(req: NextApiRequest, res: NextApiResponse, id: st
       return res.status(404).json({ error: 'Whiteboard not found' });
     }
 
-    // Add action to whiteboard
-    whiteboard.actions.push(action);
+    if (!getPages(whiteboard.pages).some(page => page.id === getActionPageId(action))) {
+      return res.status(404).json({ error: 'Page not found' });
+    }
+
+    // Add action to whiteboard, keeping only the fields its type carries
+    const sanitized = sanitizeAction(action);
+    whiteboard.actions.push(sanitized);
     whiteboard.lastModified = Date.now();
 
     return res.status(201).json({
-      action,
+      action: sanitized,
       totalActions: whiteboard.actions.length,
       lastModified: whiteboard.lastModified,
     });
@@ -106,7 +114,7 @@ async function handleAddAction(req: NextApiRequest, res: NextApiResponse, id: st
 
 async function handleClearActions(req: NextApiRequest, res: NextApiResponse, id: string) {
   try {
-    const { userId } = req.body;
+    const { userId, pageId } = req.body;
     
     if (!userId) {
       return res.status(400).json({ error: 'User ID is required' });
@@ -129,8 +137,16 @@ async function handleClearActions(req: NextApiRequest, res: NextApiResponse, id:
       userId,
     };
 
-    // Clear all actions and add the clear action
-    whiteboard.actions = [clearAction];
+    // Clear one page when asked to, otherwise the whole board
+    if (typeof pageId === 'string') {
+      clearAction.pageId = pageId;
+      whiteboard.actions = [
+        ...whiteboard.actions.filter(action => getActionPageId(action) !== pageId),
+        clearAction,
+      ];
+    } else {
+      whiteboard.actions = [clearAction];
+    }
     whiteboard.lastModified = Date.now();
 
     return res.status(200).json({
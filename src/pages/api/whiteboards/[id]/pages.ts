@@ -0,0 +1,177 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { PageChange, WhiteboardState } from '@/types/whiteboard';
+import { generateId } from '@/lib/utils';
+import {
+  applyPageChange,
+  getActionsOnPages,
+  getNextPageName,
+  getPageActions,
+  getPages,
+  validatePageChange,
+} from '@/lib/pages';
+
+// In-memory storage for demo purposes
+const whiteboardStorage = new Map<string, WhiteboardState>();
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Whiteboard ID is required' });
+  }
+
+  switch (req.method) {
+    case 'GET':
+      return handleGetPages(req, res, id);
+    case 'POST':
+      return handleCreatePage(req, res, id);
+    case 'PUT':
+      return handleUpdatePage(req, res, id);
+    case 'DELETE':
+      return handleDeletePage(req, res, id);
+    default:
+      res.setHeader('Allow', ['GET', 'POST', 'PUT', 'DELETE']);
+      return res.status(405).json({ error: `Method ${req.method} not allowed` });
+  }
+}
+
+// Apply a page change and drop the action streams of pages that no longer exist
+function applyChange(whiteboard: WhiteboardState, change: PageChange): void {
+  const pages = applyPageChange(whiteboard.pages, change);
+  whiteboard.pages = pages;
+  whiteboard.actions = getActionsOnPages(whiteboard.actions, pages);
+  whiteboard.lastModified = Date.now();
+}
+
+async function handleGetPages(req: NextApiRequest, res: NextApiResponse, id: string) {
+  try {
+    const whiteboard = whiteboardStorage.get(id);
+
+    if (!whiteboard) {
+      return res.status(404).json({ error: 'Whiteboard not found' });
+    }
+
+    const pages = getPages(whiteboard.pages).map(page => ({
+      ...page,
+      actionCount: getPageActions(whiteboard.actions, page.id).length,
+    }));
+
+    return res.status(200).json({
+      pages,
+      lastModified: whiteboard.lastModified,
+    });
+  } catch (error) {
+    console.error('Error fetching pages:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+async function handleCreatePage(req: NextApiRequest, res: NextApiResponse, id: string) {
+  try {
+    const { name } = req.body || {};
+
+    if (name !== undefined && typeof name !== 'string') {
+      return res.status(400).json({ error: 'Page name must be a string' });
+    }
+
+    const whiteboard = whiteboardStorage.get(id);
+
+    if (!whiteboard) {
+      return res.status(404).json({ error: 'Whiteboard not found' });
+    }
+
+    const page = {
+      id: generateId(),
+      name: name?.trim() || getNextPageName(getPages(whiteboard.pages)),
+    };
+    applyChange(whiteboard, { type: 'upsert', page });
+
+    return res.status(201).json({
+      page: whiteboard.pages!.find(existing => existing.id === page.id),
+      pages: whiteboard.pages,
+    });
+  } catch (error) {
+    console.error('Error creating page:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// Rename a page, move it to a new position in the tab order, or both
+async function handleUpdatePage(req: NextApiRequest, res: NextApiResponse, id: string) {
+  try {
+    const { pageId, name, index } = req.body || {};
+
+    if (typeof pageId !== 'string') {
+      return res.status(400).json({ error: 'Page ID is required' });
+    }
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      return res.status(400).json({ error: 'Page name must be a non-empty string' });
+    }
+
+    const move: PageChange = { type: 'move', pageId, index };
+    if (index !== undefined && !validatePageChange(move)) {
+      return res.status(400).json({ error: 'Page index must be a number' });
+    }
+
+    const whiteboard = whiteboardStorage.get(id);
+
+    if (!whiteboard) {
+      return res.status(404).json({ error: 'Whiteboard not found' });
+    }
+
+    const page = getPages(whiteboard.pages).find(existing => existing.id === pageId);
+
+    if (!page) {
+      return res.status(404).json({ error: 'Page not found' });
+    }
+
+    if (name !== undefined) {
+      applyChange(whiteboard, { type: 'upsert', page: { ...page, name: name.trim() } });
+    }
+    if (index !== undefined) {
+      applyChange(whiteboard, move);
+    }
+
+    return res.status(200).json({ pages: getPages(whiteboard.pages) });
+  } catch (error) {
+    console.error('Error updating page:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+async function handleDeletePage(req: NextApiRequest, res: NextApiResponse, id: string) {
+  try {
+    const { pageId } = req.body || {};
+
+    if (typeof pageId !== 'string') {
+      return res.status(400).json({ error: 'Page ID is required' });
+    }
+
+    const whiteboard = whiteboardStorage.get(id);
+
+    if (!whiteboard) {
+      return res.status(404).json({ error: 'Whiteboard not found' });
+    }
+
+    const pages = getPages(whiteboard.pages);
+
+    if (!pages.some(page => page.id === pageId)) {
+      return res.status(404).json({ error: 'Page not found' });
+    }
+
+    if (pages.length === 1) {
+      return res.status(400).json({ error: 'A whiteboard must keep at least one page' });
+    }
+
+    applyChange(whiteboard, { type: 'delete', pageId });
+
+    return res.status(200).json({
+      message: 'Page deleted successfully',
+      pages: whiteboard.pages,
+    });
+  } catch (error) {
+    console.error('Error deleting page:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -1,6 +1,9 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { WhiteboardState } from '@/types/whiteboard';
 import { generateId } from '@/lib/utils';
+import { DEFAULT_SETTINGS } from '@/lib/settings';
+import { DEFAULT_LAYER } from '@/lib/layers';
+import { DEFAULT_PAGE } from '@/lib/pages';
 
 // In-memory storage for demo purposes
 const whiteboardStorage = new Map<string, WhiteboardState>();
@@ -82,6 +85,9 @@ async function handleCreateWhiteboard(req: NextApiRequest, res: NextApiResponse)
       lastModified: now,
       createdBy,
       collaborators: [],
+      settings: { ...DEFAULT_SETTINGS },
+      layers: [{ ...DEFAULT_LAYER }],
+      pages: [{ ...DEFAULT_PAGE }],
     };
 
     whiteboardStorage.set(id, newWhiteboard);
@@ -0,0 +1,31 @@
+import { DrawingAction } from '@/types/whiteboard';
+
+// Action fixtures shared by the lib tests
+
+// A freehand stroke; pass fields to put it elsewhere, on a page or layer, or by another user
+export function createStroke(id: string, timestamp = 1000, fields: Partial<DrawingAction> = {}): DrawingAction {
+  return {
+    id,
+    type: 'draw',
+    points: [{ x: 0, y: 0 }, { x: 100, y: 0 }],
+    color: '#000000',
+    strokeWidth: 2,
+    timestamp,
+    userId: 'user1',
+    ...fields,
+  };
+}
+
+// An action that draws nothing itself, like an update, delete, group or undo
+export function createOp(
+  id: string,
+  type: DrawingAction['type'],
+  timestamp: number,
+  fields: Partial<DrawingAction> = {}
+): DrawingAction {
+  return { id, type, points: [], color: '', strokeWidth: 0, timestamp, userId: 'user1', ...fields };
+}
+
+export function createUpdate(id: string, timestamp: number, changes: DrawingAction['changes']): DrawingAction {
+  return createOp(id, 'update', timestamp, { changes });
+}
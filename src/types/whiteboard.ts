@@ -1,16 +1,147 @@
 export interface Point {
   x: number;
   y: number;
+  // Stylus pressure from 0 to 1; absent for mouse input
+  pressure?: number;
+}
+
+export type ShapeKind = 'rectangle' | 'ellipse' | 'line' | 'arrow';
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+// The tool a freehand stroke was drawn with, which decides how it looks
+export type StrokeTool = 'pen' | 'highlighter';
+
+export type BlendMode = 'normal' | 'multiply';
+
+// Straight connectors take the direct line; elbow connectors only run horizontally and vertically
+export type ConnectorRouting = 'straight' | 'elbow';
+
+export type ArrowheadStyle = 'none' | 'arrow' | 'triangle' | 'circle';
+
+export interface TextData {
+  content: string;
+  fontSize: number;
+  align: TextAlign;
 }
 
 export interface DrawingAction {
   id: string;
-  type: 'draw' | 'erase' | 'clear';
+  type: 'draw' | 'erase' | 'clear' | 'shape' | 'text' | 'sticky' | 'frame' | 'image' | 'connector' | 'update' | 'delete' | 'undo' | 'redo' | 'duplicate' | 'group' | 'ungroup' | 'restore';
   points: Point[];
   color: string;
   strokeWidth: number;
   timestamp: number;
   userId: string;
+  // Shape actions store their start and end corner in `points`
+  shape?: ShapeKind;
+  // Text, sticky note, frame and image actions store their top-left corner in `points`
+  text?: TextData;
+  width?: number;
+  height?: number;
+  fill?: string;
+  // Image actions point at an uploaded asset rather than carrying the image data
+  src?: string;
+  // Connectors store their route from start to end in `points` and their label
+  // in `text`. An end bound to an element follows it wherever it goes
+  routing?: ConnectorRouting;
+  startBinding?: string;
+  endBinding?: string;
+  startArrowhead?: ArrowheadStyle;
+  endArrowhead?: ArrowheadStyle;
+  // Rotation in radians around the centre of the element's bounds
+  rotation?: number;
+  // Fractional stacking key; elements without one stack by creation time
+  order?: string;
+  // The layer an element was drawn on; elements without one sit on the default layer
+  layerId?: string;
+  // The page whose action stream this action belongs to; actions without one
+  // are on the default page
+  pageId?: string;
+  // Strokes and shapes carry their look so every collaborator renders them
+  // the same; actions from before these existed draw at 0.8 opacity
+  tool?: StrokeTool;
+  opacity?: number;
+  blendMode?: BlendMode;
+  // Update actions carry the changed properties of each target element by id
+  changes?: Record<string, ElementChanges>;
+  // Delete actions list the ids of the elements they remove; undo and redo
+  // actions name the single action they reverse or re-apply. Group actions
+  // list the elements and groups they contain, ungroup actions the groups they split
+  targetIds?: string[];
+  // Group and frame actions carry their name; a group's id is the action's id.
+  // Restore actions carry the name of the version they bring back
+  name?: string;
+  // Duplicate actions carry the new elements they add, all in one action.
+  // Restore actions carry every element of their page in a saved version,
+  // which replace whatever is on the page
+  elements?: DrawingAction[];
+  // Restore actions also carry the groups of their page in the version,
+  // which replace the page's groups
+  groups?: ElementGroup[];
+  // Restoring a version makes one restore action per page; they share a batch
+  // id so undo and redo treat them as one step
+  batchId?: string;
+  // The first restore action of a batch also keeps the pages it brought back,
+  // which undo removes again and redo re-creates
+  restoredPages?: RestoredPage[];
+}
+
+// A page a restore brought back, with its content in the version
+export interface RestoredPage {
+  page: Page;
+  elements: DrawingAction[];
+  groups: ElementGroup[];
+}
+
+// A named set of elements that selects and moves as one. Groups live in the
+// action log as 'group' and 'ungroup' actions; members are element ids or the
+// ids of nested groups
+export interface ElementGroup {
+  id: string;
+  name: string;
+  memberIds: string[];
+}
+
+export type ElementChanges = Partial<
+  Omit<DrawingAction, 'id' | 'type' | 'timestamp' | 'userId' | 'pageId' | 'src' | 'changes' | 'targetIds' | 'elements' | 'groups' | 'batchId' | 'restoredPages'>
+>;
+
+// A board layer. Layers stack bottom to top in the order the board stores them,
+// and everything on a hidden or locked layer is left alone by editing tools
+export interface Layer {
+  id: string;
+  name: string;
+  visible: boolean;
+  locked: boolean;
+}
+
+// A page of a board. Pages are listed in tab order and each has its own
+// action stream, made of the board's actions that carry its id
+export interface Page {
+  id: string;
+  name: string;
+}
+
+// A single edit to the page list, applied by the server and sent back as the full list
+export type PageChange =
+  | { type: 'upsert'; page: Page }
+  | { type: 'move'; pageId: string; index: number }
+  | { type: 'delete'; pageId: string };
+
+// The part of the infinite board shown on screen: the world position of the
+// top-left corner and the number of screen pixels per world unit
+export interface Viewport {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
 }
 
 export interface WhiteboardState {
@@ -20,13 +151,36 @@ export interface WhiteboardState {
   lastModified: number;
   createdBy: string;
   collaborators: Collaborator[];
+  // Shared by everyone on the board; boards created before settings existed omit it
+  settings?: WhiteboardSettings;
+  // Bottom to top; boards created before layers existed omit it
+  layers?: Layer[];
+  // In tab order; boards created before pages existed omit it
+  pages?: Page[];
 }
 
+// A named copy of the whole board saved on the server, either by someone or
+// automatically while the board is being edited
+export interface BoardVersion {
+  id: string;
+  name: string;
+  createdAt: number;
+  createdBy: string;
+  automatic: boolean;
+  actions: DrawingAction[];
+  pages: Page[];
+}
+
+// What the history panel lists; the actions are only fetched to preview a version
+export type VersionSummary = Omit<BoardVersion, 'actions' | 'pages'>;
+
 export interface Collaborator {
   id: string;
   name: string;
   color: string;
   cursor?: Point;
+  // The part of the board this collaborator currently has on screen
+  viewport?: Bounds;
   isActive: boolean;
   lastSeen: number;
 }
@@ -38,22 +192,40 @@ export interface User {
 }
 
 export interface WhiteboardEvent {
-  type: 'action' | 'cursor' | 'user_join' | 'user_leave' | 'state_sync';
+  type: 'action' | 'cursor' | 'viewport' | 'settings' | 'user_join' | 'user_leave' | 'state_sync';
   data: any;
   userId: string;
   timestamp: number;
 }
 
+// Object erasing deletes whole elements; pixel erasing paints out what it covers
+export type EraserMode = 'object' | 'pixel';
+
+// Dragging on empty space with the select tool draws a rectangle or a freeform loop
+export type SelectMode = 'marquee' | 'lasso';
+
 export interface DrawingTool {
-  type: 'pen' | 'eraser' | 'highlighter' | 'shape';
+  type: 'select' | 'pen' | 'eraser' | 'highlighter' | 'shape' | 'text' | 'sticky' | 'frame' | 'connector';
   color: string;
   strokeWidth: number;
   opacity: number;
+  shape?: ShapeKind;
+  fontSize?: number;
+  textAlign?: TextAlign;
+  stickyColor?: string;
+  eraserMode?: EraserMode;
+  selectMode?: SelectMode;
+  connectorRouting?: ConnectorRouting;
+  startArrowhead?: ArrowheadStyle;
+  endArrowhead?: ArrowheadStyle;
 }
 
+export type GridStyle = 'dots' | 'lines';
+
 export interface WhiteboardSettings {
   backgroundColor: string;
   gridEnabled: boolean;
+  gridStyle: GridStyle;
   snapToGrid: boolean;
   gridSize: number;
 }